@@ -1,4 +1,4 @@
-const VERSION = '1.0.2';
+const VERSION = '1.0.3';
 const CACHE_NAME = `autotime-v${VERSION}`;
 const PRECACHE_URLS = [
   '/',
@@ -155,6 +155,20 @@ self.addEventListener('message', (event) => {
   }
 });
 
+// Background sync - clock actions queued offline (see src/services/offlineClockQueue.ts).
+// The queue needs the signed-in Supabase session, so the open app does the replay;
+// we just wake it up. If no window is open it replays on next launch.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'clock-queue-sync') return;
+
+  console.log('[SW] Background sync: replaying offline clock queue');
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+      clientList.forEach((client) => client.postMessage({ type: 'REPLAY_CLOCK_QUEUE' }));
+    })
+  );
+});
+
 // Push notification handling
 self.addEventListener("push", (event) => {
   console.log("Push event received:", event);
@@ -173,21 +187,61 @@ self.addEventListener("push", (event) => {
     body: data.body || "New notification",
     icon: "/icon-192.png",
     badge: "/icon-192.png",
-    tag: "autotime-notification",
-    requireInteraction: false,
+    tag: data.tag || "autotime-notification",
+    requireInteraction: data.require_interaction === true,
     silent: false,
+    actions: data.actions || [],
     data: data,
   };
 
   event.waitUntil(self.registration.showNotification(title, options));
 });
 
+// "Are you still on site?" (see supabase/functions/_shared/exitPrompt.ts). Answering needs
+// the signed-in session, so the app sends the answer: an open clock screen is told directly,
+// otherwise it is opened with the answer in the URL (see src/hooks/useExitPrompt.ts).
+const EXIT_PROMPT_MESSAGE = "GEOFENCE_EXIT_PROMPT";
+
+function openExitPrompt(prompt, response) {
+  const message = {
+    type: EXIT_PROMPT_MESSAGE,
+    response: response || null,
+    clock_entry_id: prompt.clock_entry_id,
+    exit_event_id: prompt.exit_event_id,
+    exit_detected_at: prompt.exit_detected_at,
+  };
+
+  return clients.matchAll({ type: "window", includeUncontrolled: true }).then((clientList) => {
+    for (const client of clientList) {
+      if (client.url.includes("/clock") && "focus" in client) {
+        client.postMessage(message);
+        return client.focus();
+      }
+    }
+    if (clients.openWindow) {
+      const params = new URLSearchParams({
+        exit_prompt: prompt.clock_entry_id,
+        exit_event: prompt.exit_event_id,
+        exit_at: prompt.exit_detected_at,
+      });
+      if (response) params.set("exit_response", response);
+      return clients.openWindow(`/clock?${params}`);
+    }
+  });
+}
+
 // Notification click handler - navigate to clock screen
 self.addEventListener("notificationclick", (event) => {
   console.log("Notification click received:", event);
 
   event.notification.close();
 
+  const data = event.notification.data || {};
+  if (data.data?.type === "geofence_exit_prompt") {
+    event.waitUntil(openExitPrompt(data.data, event.action));
+    return;
+  }
+
   // Open the clock screen when notification is clicked
   event.waitUntil(
     clients.matchAll({ type: "window", includeUnmatched: true }).then((clientList) => {
@@ -13,6 +13,9 @@ import Help from "./pages/Help";
 import ProtectedRoute from "./components/ProtectedRoute";
 import Home from "./components/Home";
 import Timesheets from "./pages/Timesheets";
+import Kiosk from "./pages/Kiosk";
+import SiteQr from "./pages/SiteQr";
+import GeofenceCalibration from "./pages/GeofenceCalibration";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -66,6 +69,12 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            {/* Shared site tablet - authenticated by its device token, not a login */}
+            <Route path="/kiosk" element={<Kiosk />} />
+            {/* Live site QR display - a manager signs in on the page itself */}
+            <Route path="/site-qr" element={<SiteQr />} />
+            {/* Radius calibration report - a manager signs in on the page itself */}
+            <Route path="/geofence-calibration" element={<GeofenceCalibration />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
             </Routes>
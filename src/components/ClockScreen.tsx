@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -20,20 +20,53 @@ import {
   Info,
   ChevronsUpDown,
   Search,
+  CloudOff,
+  Coffee,
+  ArrowLeftRight,
+  Users,
+  QrCode,
+  MapPinOff,
 } from "lucide-react";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
+import { captureClockPhoto } from "@/lib/camera";
+import { formatJobDistance, getRecentJobIds, rankJobs, recordRecentJob, type RankedJob } from "@/lib/jobPicker";
 import { toast } from "sonner";
 import OrganizationLogo from "@/components/OrganizationLogo";
 import PWAInstallDialog from "@/components/PWAInstallDialog";
 import NotificationPanel from "@/components/NotificationPanel";
 import OvertimeConfirmationDialog from "@/components/OvertimeConfirmationDialog";
 import RAMSAcceptanceDialog from "@/components/RAMSAcceptanceDialog";
+import CrewClockInDialog, { type CrewPhotoMode } from "@/components/CrewClockInDialog";
+import SiteQrScannerDialog from "@/components/SiteQrScannerDialog";
 import { useWorker } from "@/contexts/WorkerContext";
 import { useUpdate } from "@/contexts/UpdateContext";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { NotificationService } from "@/services/notifications";
+import { OfflineClockQueue, QueuedClockAction } from "@/services/offlineClockQueue";
+import { ClockService, type CrewMemberOption } from "@/services/clockService";
+import { useOfflineClockQueue } from "@/hooks/useOfflineClockQueue";
+import { useLocationTracker } from "@/hooks/useLocationTracker";
+import { useExitPrompt } from "@/hooks/useExitPrompt";
+import { usePolicy } from "@/hooks/usePolicy";
+import { formatTrackerInterval, type TrackedFix, type TrackerMode } from "@/services/locationTracker";
+import { LocationUploadBuffer } from "@/services/locationUploadBuffer";
+import { checkClockLocation, describeClockLocationFailure, GeofenceZone, type ClockLocationResult } from "@shared/geofence";
+import { filterAssignedJobs, JOB_ASSIGNMENT_EMBED, type JobAssignment } from "@shared/jobAssignment";
+import { CLOCK_BREAK_EMBED, getBreakMinutes, getOpenBreak, type ClockBreak } from "@shared/breaks";
+import { getProofMethod, type SiteQrMode } from "@shared/siteQr";
+import {
+  formatShiftHours,
+  getEffectiveSchedule,
+  getShiftDate,
+  getUkDateString,
+  isInLastHourWindow,
+  isPastShiftEnd,
+  type OrganizationShift,
+  type ShiftOverride,
+  type WeeklyShift,
+} from "@shared/shiftTime";
 
 interface Worker {
   id: string;
@@ -41,9 +74,14 @@ interface Worker {
   email: string;
   is_active: boolean;
   organization_id?: string;
-  organizations?: { name: string; logo_url?: string };
+  organizations?: { name: string; logo_url?: string } & OrganizationShift;
+  shift_start?: string;
   shift_end?: string;
+  shift_days?: number[];
+  weekly_shifts?: WeeklyShift[];
+  shift_overrides?: ShiftOverride[];
   pwa_install_info_dismissed?: boolean;
+  can_clock_crew?: boolean; // Foremen who may clock in a crew
 }
 
 interface Job {
@@ -55,6 +93,14 @@ interface Job {
   geofence_radius: number;
   is_active: boolean;
   geofence_enabled?: boolean | string; // Handle both boolean and string from database
+  geofence_zones?: GeofenceZone[] | null; // Polygon site zones - replace the radius when set
+  safe_out_buffer_m?: number | null;
+  // Site working hours - when set they replace the worker's own shift
+  shift_start?: string | null;
+  shift_end?: string | null;
+  shift_days?: number[] | null;
+  job_assignments?: JobAssignment[] | null; // This worker's assignments only
+  qr_mode?: SiteQrMode; // Whether a site QR scan can stand in for GPS here
 }
 
 interface ClockEntry {
@@ -65,6 +111,10 @@ interface ClockEntry {
   clock_out?: string;
   jobs: { name: string };
   is_overtime?: boolean;
+  pending_sync?: boolean; // Captured offline, not yet on the server
+  clock_breaks?: ClockBreak[];
+  shift_id?: string | null; // Set once the worker has switched site during the shift
+  auto_clockout_escalated_at?: string | null; // Left open past the auto clock-out caps - can be closed off site
 }
 
 interface LocationData {
@@ -89,9 +139,14 @@ export default function ClockScreen() {
   const [worker, setWorker] = useState<Worker | null>(null);
   const [jobs, setJobs] = useState<Job[]>([]);
   const [selectedJobId, setSelectedJobId] = useState("");
+  const [recentJobIds, setRecentJobIds] = useState<string[]>([]);
+  const jobPickedManually = useRef(false);
   const [currentEntry, setCurrentEntry] = useState<ClockEntry | null>(null);
   const [jobSearchOpen, setJobSearchOpen] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [breakLoading, setBreakLoading] = useState(false);
+  const [switchSearchOpen, setSwitchSearchOpen] = useState(false);
+  const [switchingSite, setSwitchingSite] = useState(false);
   const [location, setLocation] = useState<LocationData | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
 
@@ -105,13 +160,11 @@ export default function ClockScreen() {
   const [showExpenseDialog, setShowExpenseDialog] = useState(false);
   const [completedClockEntry, setCompletedClockEntry] = useState<any>(null);
   const [showPWADialog, setShowPWADialog] = useState(false);
-  const [isTrackingLocation, setIsTrackingLocation] = useState(false);
-  const locationIntervalRef = useRef<number | null>(null);
   
   // Overtime state
   const [showOvertimeDialog, setShowOvertimeDialog] = useState(false);
   const [pendingOvertimeData, setPendingOvertimeData] = useState<{
-    photoUrl: string;
+    photoPath: string;
     location: LocationData;
     jobId: string;
   } | null>(null);
@@ -125,6 +178,27 @@ export default function ClockScreen() {
     waiverUrl: string | null;
   } | null>(null);
   const [loadingRAMS, setLoadingRAMS] = useState(false);
+  const [pendingSwitchJobId, setPendingSwitchJobId] = useState<string | null>(null); // RAMS shown for a site switch
+
+  // Crew clock-in state
+  const [showCrewDialog, setShowCrewDialog] = useState(false);
+  const [crewLoading, setCrewLoading] = useState(false);
+
+  // Site QR scanned as proof of presence - sent with the next clock action for that job
+  const [siteQr, setSiteQr] = useState<{ jobId: string; code: string } | null>(null);
+  const [showQrScanner, setShowQrScanner] = useState(false);
+  // The site being scanned for, when it isn't the active one - a site switch
+  const [qrScanJobId, setQrScanJobId] = useState<string | null>(null);
+
+  // Offline clock actions waiting to be replayed
+  const {
+    pendingCount,
+    failedCount,
+    isSyncing,
+    isOnline,
+    enqueue,
+    syncNow,
+  } = useOfflineClockQueue(contextWorker?.id, () => checkCurrentStatus());
 
   // Set worker from context
   useEffect(() => {
@@ -162,8 +236,10 @@ export default function ClockScreen() {
     init();
   }, [contextWorker, navigate]);
 
-  // Real-time jobs listener
+  // Real-time jobs listener - job edits and this worker's assignment changes
   useEffect(() => {
+    if (!worker?.id) return;
+
     const channel = supabase
       .channel("schema-db-changes")
       .on(
@@ -175,12 +251,23 @@ export default function ClockScreen() {
         },
         (payload) => {
           console.log("Job change detected:", payload);
-          // Reload jobs when any change occurs
+          // Reload jobs when any change occurs - workers hear about new ones via their assignment
+          loadJobs();
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "job_assignments",
+        },
+        (payload) => {
+          console.log("Job assignment change detected:", payload);
           loadJobs();
 
-          // Show toast notification for new jobs
-          if (payload.eventType === "INSERT" && payload.new.is_active) {
-            toast.success(`New job available: ${payload.new.name}`);
+          if (payload.eventType === "INSERT" && payload.new.worker_id === worker.id) {
+            toast.success("You've been assigned to a new job site");
           }
         },
       )
@@ -189,7 +276,7 @@ export default function ClockScreen() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [worker?.id]);
 
   // Real-time clock entries listener - sync UI when auto-clocked out
   useEffect(() => {
@@ -225,16 +312,34 @@ export default function ClockScreen() {
     };
   }, [worker?.id]);
 
+  // Active jobs, narrowed to the worker's assignments for today when they have any
   const loadJobs = async (showToast = false) => {
-    const { data, error } = await supabase.from("jobs").select("*").eq("is_active", true).order("name");
+    if (!contextWorker?.id) return;
+
+    const { data: allJobs, error } = await supabase
+      .from("jobs")
+      .select(`*, ${JOB_ASSIGNMENT_EMBED}`)
+      .eq("is_active", true)
+      .eq("job_assignments.worker_id", contextWorker.id)
+      .order("name");
 
     if (error) {
+      // Fall back to the last list we saw so workers can still clock in without signal
+      const cachedJobs = localStorage.getItem("cached_jobs");
+      if (cachedJobs) {
+        console.warn("Job loading failed, using cached jobs:", error);
+        setJobs(JSON.parse(cachedJobs));
+        return;
+      }
       toast.error("Failed to load jobs");
       console.error("Job loading error:", error);
       return;
     }
 
-    setJobs(data || []);
+    const jobRows = (allJobs || []) as unknown as Job[];
+    const data = filterAssignedJobs(jobRows, getUkDateString());
+    setJobs(data);
+    localStorage.setItem("cached_jobs", JSON.stringify(data));
     if (showToast) {
       toast.success(`${data?.length || 0} job sites loaded`);
     }
@@ -249,105 +354,80 @@ export default function ClockScreen() {
     }
   };
 
-  // Background location tracking for geofence auto-clock-out
-  const sendLocationUpdate = async (position: GeolocationPosition) => {
+  // Background location tracking for geofence auto-clock-out. Fixes are buffered and uploaded
+  // in batches - straight away once outside the fence - with the time each was taken, so
+  // track-location judges an exit on when the worker was actually there.
+  const sendLocationUpdate = (fix: TrackedFix, intervalMs: number, mode: TrackerMode) => {
     if (!currentEntry || !worker) return;
 
-    try {
-      await supabase.functions.invoke("track-location", {
-        body: {
-          worker_id: worker.id,
-          clock_entry_id: currentEntry.id,
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-          accuracy: position.coords.accuracy,
-          timestamp: new Date().toISOString(),
-        },
-      });
-    } catch (error) {
-      console.error("Error sending location update:", error);
-    }
-  };
-
-  const startLocationTracking = () => {
-    if (!currentEntry) return;
-
-    console.log("Starting background location tracking...");
-    setIsTrackingLocation(true);
-
-    // Send initial location
-    navigator.geolocation.getCurrentPosition(
-      (position) => sendLocationUpdate(position),
-      (error) => console.error("Error getting location:", error),
-      { enableHighAccuracy: true },
+    LocationUploadBuffer.add(
+      worker.id,
+      currentEntry.id,
+      {
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        accuracy: fix.accuracy,
+        speed: fix.speed,
+        sample_interval_s: Math.round(intervalMs / 1000),
+        timestamp: new Date(fix.timestamp).toISOString(),
+      },
+      mode === "outside",
     );
-
-    // Send location every 45 seconds
-    const interval = window.setInterval(() => {
-      navigator.geolocation.getCurrentPosition(
-        (position) => sendLocationUpdate(position),
-        (error) => console.error("Error getting location:", error),
-        { enableHighAccuracy: true },
-      );
-    }, 45000); // 45 seconds
-
-    locationIntervalRef.current = interval;
-  };
-
-  const stopLocationTracking = () => {
-    console.log("Stopping background location tracking...");
-    if (locationIntervalRef.current) {
-      clearInterval(locationIntervalRef.current);
-      locationIntervalRef.current = null;
-    }
-    setIsTrackingLocation(false);
   };
 
-  const checkIsInLastHourWindow = (shiftEnd: string): boolean => {
-    const now = new Date();
-    const [shiftHour, shiftMin] = shiftEnd.split(":").map(Number);
+  useEffect(() => {
+    if (worker?.id) setRecentJobIds(getRecentJobIds(worker.id));
+  }, [worker?.id]);
 
-    const shiftEndTime = new Date();
-    shiftEndTime.setHours(shiftHour, shiftMin, 0, 0);
+  // Picker order: the site we're standing on, recently used sites, then nearest first
+  const rankedJobs = useMemo(() => rankJobs(jobs, location, recentJobIds), [jobs, location, recentJobIds]);
 
-    const windowStart = new Date(shiftEndTime.getTime() - 60 * 60 * 1000); // 60 minutes before
+  // Pre-select the site whose geofence contains us, unless the worker has already chosen
+  useEffect(() => {
+    if (currentEntry || jobPickedManually.current) return;
+    const onSite = rankedJobs.find((ranked) => ranked.onSite);
+    if (onSite && onSite.job.id !== selectedJobId) {
+      console.log("📍 On site at", onSite.job.name, "- pre-selecting it");
+      setSelectedJobId(onSite.job.id);
+    }
+  }, [rankedJobs, currentEntry, selectedJobId]);
 
-    return now >= windowStart && now <= shiftEndTime;
+  // After a clock-in, let the next one pre-select from location again
+  const rememberJob = (jobId: string) => {
+    jobPickedManually.current = false;
+    if (worker) setRecentJobIds(recordRecentJob(worker.id, jobId));
   };
 
-  // Manage location tracking based on clock status and last hour window
+  // The job clocked in to, or picked - crews are clocked in to it and a site QR is scanned for it.
+  // Hours that apply right now are the site's for it, else the worker's.
+  const activeJobId = currentEntry && !currentEntry.clock_out ? currentEntry.job_id : selectedJobId;
+  const activeJob = jobs.find((job) => job.id === activeJobId) ?? null;
+  const shiftSchedule = useMemo(() => getEffectiveSchedule(worker, activeJob), [worker, activeJob]);
+  const siteHours = shiftSchedule.source === "job" ? formatShiftHours(shiftSchedule) : null;
+  // The organisation's rules, with the job's overrides
+  const policy = usePolicy(activeJobId);
+
+  // Track location always in OT, and in the last hour of a regular shift (never on a day off) -
+  // "last hour" being the policy's geofence window.
+  // Entries captured offline have no server id to track against yet.
+  const trackingEntryId =
+    currentEntry &&
+    !currentEntry.clock_out &&
+    !currentEntry.pending_sync &&
+    (currentEntry.is_overtime === true || isInLastHourWindow(shiftSchedule, currentTime, policy.geofence_window_minutes))
+      ? currentEntry.id
+      : null;
+  const trackerState = useLocationTracker(trackingEntryId, activeJob, sendLocationUpdate, policy.accuracy_pass_m);
+
+  // Send anything left from an earlier session, and the rest of a segment's fixes when tracking moves on or stops
   useEffect(() => {
-    if (currentEntry && !currentEntry.clock_out) {
-      // For OT sessions, always track location
-      const isOT = currentEntry.is_overtime === true;
-      
-      if (isOT) {
-        if (!isTrackingLocation) {
-          console.log("🔵 OT session detected - starting continuous location tracking");
-          startLocationTracking();
-        }
-      } else {
-        // For regular shifts, only track in last hour window
-        if (worker?.shift_end) {
-          const isInLastHour = checkIsInLastHourWindow(worker.shift_end);
-          
-          if (isInLastHour && !isTrackingLocation) {
-            startLocationTracking();
-          } else if (!isInLastHour && isTrackingLocation) {
-            stopLocationTracking();
-          }
-        }
-      }
-    } else if (isTrackingLocation) {
-      stopLocationTracking();
-    }
+    LocationUploadBuffer.flush();
+  }, [trackingEntryId]);
 
-    return () => {
-      if (isTrackingLocation) {
-        stopLocationTracking();
-      }
-    };
-  }, [currentEntry, worker?.shift_end, isTrackingLocation]);
+  // "Are you still on site?" while an exit waits out its grace period
+  const exitPrompt = useExitPrompt(currentEntry && !currentEntry.clock_out ? currentEntry.id : null, () =>
+    checkCurrentStatus(),
+  );
 
   const fetchExpenseTypes = async () => {
     setLoadingExpenses(true);
@@ -408,6 +488,15 @@ export default function ClockScreen() {
         return;
       }
 
+      // Actions captured offline are newer than anything on the server
+      const queuedActions = await OfflineClockQueue.getAll(workerId).catch(() => [] as QueuedClockAction[]);
+      const latestQueued = queuedActions.filter((a) => !a.failed).pop();
+      if (latestQueued) {
+        console.log("📴 Using offline queue for current status:", latestQueued.type);
+        setCurrentEntry(latestQueued.type === "clock_in" ? toPendingEntry(latestQueued) : null);
+        return;
+      }
+
       // First check how many open entries exist
       const { data: allOpenEntries, error: countError } = await supabase
         .from("clock_entries")
@@ -431,7 +520,7 @@ export default function ClockScreen() {
       // Use maybeSingle for safe handling - take most recent if multiple exist
       const { data: currentEntryData, error: entryError } = await supabase
         .from("clock_entries")
-        .select("*, jobs(name)")
+        .select(`*, jobs(name), ${CLOCK_BREAK_EMBED}`)
         .eq("worker_id", workerId)
         .is("clock_out", null)
         .order("clock_in", { ascending: false })
@@ -543,177 +632,114 @@ export default function ClockScreen() {
     });
   };
 
-  // UK approximate bounding box
-  const UK_BOUNDS = {
-    minLat: 49.9,  // Southern tip (Lizard Point area)
-    maxLat: 60.9,  // Northern tip (Shetland Islands)
-    minLng: -8.6,  // Western tip (Dingle Peninsula, Ireland border area)
-    maxLng: 1.8,   // Eastern tip (Lowestoft area)
-  };
-
-  const isWithinUK = (lat: number, lng: number): boolean => {
-    return (
-      lat >= UK_BOUNDS.minLat &&
-      lat <= UK_BOUNDS.maxLat &&
-      lng >= UK_BOUNDS.minLng &&
-      lng <= UK_BOUNDS.maxLng
-    );
-  };
-
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
-
   const capturePhoto = async (): Promise<Blob> => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: "user",
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-        },
-      });
-
-      const video = document.createElement("video");
-      video.srcObject = stream;
-      video.style.position = "fixed";
-      video.style.top = "0";
-      video.style.left = "0";
-      video.style.width = "100%";
-      video.style.height = "100%";
-      video.style.objectFit = "cover";
-      video.style.zIndex = "9999";
-      video.style.backgroundColor = "black";
-      document.body.appendChild(video);
-
-      await video.play();
-
-      // Add capture button
-      const captureBtn = document.createElement("button");
-      captureBtn.innerHTML = "📸 Take Photo";
-      captureBtn.style.position = "fixed";
-      captureBtn.style.bottom = "20px";
-      captureBtn.style.left = "50%";
-      captureBtn.style.transform = "translateX(-50%)";
-      captureBtn.style.zIndex = "10000";
-      captureBtn.style.padding = "16px 32px";
-      captureBtn.style.backgroundColor = "#3B82F6";
-      captureBtn.style.color = "white";
-      captureBtn.style.border = "none";
-      captureBtn.style.borderRadius = "24px";
-      captureBtn.style.fontSize = "18px";
-      captureBtn.style.fontWeight = "600";
-      captureBtn.style.cursor = "pointer";
-      document.body.appendChild(captureBtn);
-
-      return new Promise((resolve, reject) => {
-        captureBtn.onclick = () => {
-          try {
-            const canvas = document.createElement("canvas");
-            canvas.width = 640;
-            canvas.height = 480;
-            const ctx = canvas.getContext("2d");
-            if (ctx) {
-              ctx.drawImage(video, 0, 0, 640, 480);
-            }
-
-            canvas.toBlob(
-              (blob) => {
-                stream.getTracks().forEach((track) => track.stop());
-                document.body.removeChild(video);
-                document.body.removeChild(captureBtn);
-
-                if (blob) {
-                  resolve(blob);
-                } else {
-                  reject(new Error("Failed to capture photo"));
-                }
-              },
-              "image/jpeg",
-              0.8,
-            );
-          } catch (error) {
-            stream.getTracks().forEach((track) => track.stop());
-            document.body.removeChild(video);
-            document.body.removeChild(captureBtn);
-            reject(error);
-          }
-        };
-      });
+      return await captureClockPhoto();
     } catch (error) {
       toast.error("Camera access is required");
       throw error;
     }
   };
 
-  const uploadPhoto = async (blob: Blob): Promise<string> => {
-    const fileName = `${worker?.id}/${Date.now()}.jpg`;
-    const { data, error } = await supabase.storage.from("clock-photos").upload(fileName, blob);
+  const siteQrFor = (jobId: string) => (siteQr?.jobId === jobId ? siteQr.code : undefined);
 
-    if (error) {
-      console.error("Upload error:", error);
-      throw error;
-    }
+  // Same decision the clock functions make: GPS, or a scanned site QR where the job lets it replace GPS
+  const hasLocationProof = (job: Job, location: ClockLocationResult) =>
+    !!getProofMethod(location, !!siteQrFor(job.id), job.qr_mode);
 
-    const {
-      data: { publicUrl },
-    } = supabase.storage.from("clock-photos").getPublicUrl(fileName);
+  const openQrScanner = (job: Job | null) => {
+    setQrScanJobId(job && job.id !== activeJob?.id ? job.id : null);
+    setShowQrScanner(true);
+  };
 
-    return publicUrl;
+  const showLocationFailure = (
+    job: Job,
+    location: ClockLocationResult,
+    accuracy: number,
+    action: "clock in" | "clock out" | "switch site",
+  ) => {
+    const message = describeClockLocationFailure(location, accuracy, action);
+    if (job.qr_mode === "replace") {
+      toast.error(message, { action: { label: "Scan site QR", onClick: () => openQrScanner(job) } });
+    } else {
+      toast.error(message);
+    }
   };
 
-  // Check if current time is past shift end
-  const isPastShiftEnd = (): boolean => {
-    if (!worker?.shift_end) return false;
-    
-    const now = new Date();
-    const [hours, minutes] = worker.shift_end.split(':').map(Number);
-    const shiftEndTime = new Date();
-    shiftEndTime.setHours(hours, minutes, 0, 0);
-    
-    return now > shiftEndTime;
+  const toPendingEntry = (action: QueuedClockAction): ClockEntry => ({
+    id: action.id,
+    worker_id: action.worker_id,
+    job_id: action.job_id,
+    clock_in: action.occurred_at,
+    jobs: { name: action.job_name },
+    pending_sync: true,
+  });
+
+  // Save the clock-in on the device when there's no signal - it replays once we're back online
+  const queueOfflineClockIn = async (photoBlob: Blob, freshLocation: LocationData, job: Job) => {
+    if (!worker) return;
+
+    const queued = await enqueue({
+      type: "clock_in",
+      worker_id: worker.id,
+      job_id: job.id,
+      job_name: job.name,
+      occurred_at: new Date().toISOString(),
+      location: freshLocation,
+      photo: photoBlob,
+    });
+
+    setCurrentEntry(toPendingEntry(queued));
+    rememberJob(job.id);
+    toast.success("Clocked in offline. This will sync when you have signal.");
   };
 
-  // Get today's main shift entry (for linking OT)
-  const getTodayMainShift = async (): Promise<string | null> => {
+  // Upload the clock-in photo (returning its storage path), or queue the whole clock-in if we've lost signal.
+  // Returns null when the clock-in was queued (or can't proceed) instead.
+  const uploadClockInPhotoOrQueue = async (
+    photoBlob: Blob,
+    freshLocation: LocationData,
+    job: Job,
+  ): Promise<string | null> => {
     try {
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      const todayEnd = new Date();
-      todayEnd.setHours(23, 59, 59, 999);
-
-      const { data, error } = await (supabase as any)
-        .from('clock_entries')
-        .select('id')
-        .eq('worker_id', worker?.id)
-        .eq('is_overtime', false)
-        .gte('clock_in', todayStart.toISOString())
-        .lte('clock_in', todayEnd.toISOString())
-        .order('clock_in', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (error || !data) {
-        console.log('No main shift found for today');
+      if (!navigator.onLine) throw new TypeError("Device is offline");
+      return await ClockService.uploadPhoto(worker!.id, photoBlob);
+    } catch (uploadError) {
+      if (!OfflineClockQueue.isNetworkError(uploadError)) throw uploadError;
+
+      // Overtime needs a manager approval round-trip, so it can't be queued
+      if (isPastShiftEnd(getEffectiveSchedule(worker, job))) {
+        toast.error("Overtime requests need a signal. Please try again once you're back online.");
         return null;
       }
 
-      return data.id;
-    } catch (error) {
-      console.error('Error getting today shift:', error);
+      await queueOfflineClockIn(photoBlob, freshLocation, job);
       return null;
     }
   };
 
+  const queueOfflineClockOut = async (photoBlob: Blob, freshLocation: LocationData) => {
+    if (!worker || !currentEntry) return;
+
+    const clockOut = new Date();
+    await enqueue({
+      type: "clock_out",
+      worker_id: worker.id,
+      job_id: currentEntry.job_id,
+      job_name: currentEntry.jobs.name,
+      clock_entry_id: currentEntry.pending_sync ? undefined : currentEntry.id,
+      local_entry_id: currentEntry.pending_sync ? currentEntry.id : undefined,
+      occurred_at: clockOut.toISOString(),
+      location: freshLocation,
+      photo: photoBlob,
+    });
+
+    const hours = (clockOut.getTime() - new Date(currentEntry.clock_in).getTime()) / (1000 * 60 * 60);
+    setCurrentEntry(null);
+    setCurrentShiftExpenses([]);
+    toast.success(`Clocked out offline after ${hours.toFixed(2)} hours. This will sync when you have signal.`);
+  };
+
   // Create overtime clock entry
   const createOvertimeEntry = async () => {
     if (!pendingOvertimeData || !worker || isRequestingOvertime) return;
@@ -721,33 +747,26 @@ export default function ClockScreen() {
     setIsRequestingOvertime(true);
 
     try {
-      // Check if there's already an OT request for today
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      const todayEnd = new Date();
-      todayEnd.setHours(23, 59, 59, 999);
-
-      const { data: existingOT, error: checkError } = await (supabase as any)
-        .from("clock_entries")
-        .select('id, ot_status')
-        .eq('worker_id', worker.id)
-        .eq('is_overtime', true)
-        .gte('clock_in', todayStart.toISOString())
-        .lte('clock_in', todayEnd.toISOString())
-        .maybeSingle();
-
-      if (checkError && checkError.code !== 'PGRST116') {
-        console.error('Error checking existing OT:', checkError);
-        toast.error("Failed to verify overtime status");
-        setIsRequestingOvertime(false);
-        return;
-      }
+      // The clock-in function links the OT to the shift's main entry and records RAMS acceptance
+      const { entry, error } = await ClockService.clockIn<ClockEntry>({
+        job_id: pendingOvertimeData.jobId,
+        latitude: pendingOvertimeData.location.lat,
+        longitude: pendingOvertimeData.location.lng,
+        accuracy: pendingOvertimeData.location.accuracy,
+        photo_path: pendingOvertimeData.photoPath,
+        is_overtime: true,
+        qr_code: siteQrFor(pendingOvertimeData.jobId),
+        rams_acceptance: ramsData
+          ? { terms_and_conditions_url: ramsData.termsUrl, waiver_url: ramsData.waiverUrl }
+          : undefined,
+      });
 
-      if (existingOT) {
-        const status = existingOT.ot_status === 'pending' ? 'pending approval' :
-                      existingOT.ot_status === 'approved' ? 'already approved' : 
+      if (error?.code === 'overtime_exists') {
+        const otStatus = error.details.ot_status;
+        const status = otStatus === 'pending' ? 'pending approval' :
+                      otStatus === 'approved' ? 'already approved' :
                       'already submitted';
-        toast.error(`You already have an overtime request for today (${status})`);
+        toast.error(`You already have an overtime request for this shift (${status})`);
         setShowOvertimeDialog(false);
         setPendingOvertimeData(null);
         setIsRequestingOvertime(false);
@@ -755,54 +774,15 @@ export default function ClockScreen() {
         return;
       }
 
-      const linkedShiftId = await getTodayMainShift();
-
-      const { data, error } = await supabase
-        .from("clock_entries")
-        .insert({
-          worker_id: worker.id,
-          job_id: pendingOvertimeData.jobId,
-          clock_in: new Date().toISOString(),
-          clock_in_photo: pendingOvertimeData.photoUrl,
-          clock_in_lat: pendingOvertimeData.location.lat,
-          clock_in_lng: pendingOvertimeData.location.lng,
-          is_overtime: true,
-          ot_status: 'pending',
-          ot_requested_at: new Date().toISOString(),
-          linked_shift_id: linkedShiftId,
-        })
-        .select("*, jobs(name)")
-        .single();
-
       if (error) {
         toast.error("Failed to create overtime entry: " + error.message);
         setIsRequestingOvertime(false);
         return;
       }
 
-      // Record RAMS acceptance after successful OT clock-in
-      if (ramsData) {
-        const { error: acceptanceError } = await supabase.functions.invoke(
-          'record-rams-acceptance',
-          {
-            body: {
-              worker_id: worker.id,
-              job_id: pendingOvertimeData.jobId,
-              terms_and_conditions_url: ramsData.termsUrl,
-              waiver_url: ramsData.waiverUrl,
-            },
-          }
-        );
-
-        if (acceptanceError) {
-          console.error('⚠️ RAMS acceptance recording failed for OT:', acceptanceError);
-          // Don't fail the clock-in, just log the error
-          // Worker is already clocked in successfully
-        }
-      }
-
       // Send notification
-      const dedupeKey = `ot_request_${worker.id}_${new Date().toISOString().split('T')[0]}`;
+      const otJob = jobs.find((j) => j.id === pendingOvertimeData.jobId);
+      const dedupeKey = `ot_request_${worker.id}_${getShiftDate(getEffectiveSchedule(worker, otJob), new Date())}`;
       await NotificationService.sendDualNotification(
         worker.id,
         'Overtime Request Submitted',
@@ -811,7 +791,8 @@ export default function ClockScreen() {
         dedupeKey
       );
 
-      setCurrentEntry(data);
+      setCurrentEntry(entry);
+      rememberJob(pendingOvertimeData.jobId);
       toast.success("Overtime requested! Awaiting manager approval.");
       setShowOvertimeDialog(false);
       setPendingOvertimeData(null);
@@ -823,6 +804,51 @@ export default function ClockScreen() {
     }
   };
 
+  // Create the entry through the clock-in function, which re-checks location, RAMS and overtime
+  const submitClockIn = async (
+    photoBlob: Blob,
+    photoPath: string,
+    freshLocation: LocationData,
+    job: Job,
+    ramsAcceptance?: { terms_and_conditions_url: string | null; waiver_url: string | null },
+  ) => {
+    const { entry, error } = await ClockService.clockIn<ClockEntry>({
+      job_id: job.id,
+      latitude: freshLocation.lat,
+      longitude: freshLocation.lng,
+      accuracy: freshLocation.accuracy,
+      photo_path: photoPath,
+      rams_acceptance: ramsAcceptance,
+      qr_code: siteQrFor(job.id),
+    });
+
+    if (error?.network) {
+      await queueOfflineClockIn(photoBlob, freshLocation, job);
+      return;
+    }
+
+    if (error?.code === "invalid_site_qr") {
+      setSiteQr(null);
+    }
+
+    // Server's clock says the shift is over - offer overtime instead
+    if (error?.code === "overtime_required") {
+      setPendingOvertimeData({ photoPath, location: freshLocation, jobId: job.id });
+      setShowOvertimeDialog(true);
+      return;
+    }
+
+    if (error) {
+      toast.error("Failed to clock in: " + error.message);
+      return;
+    }
+
+    setCurrentEntry(entry);
+    setSiteQr(null);
+    rememberJob(job.id);
+    toast.success("Clocked in successfully!");
+  };
+
   const handleClockIn = async () => {
     if (!selectedJobId || !worker) {
       toast.error("Please select a job");
@@ -831,6 +857,13 @@ export default function ClockScreen() {
 
     setLoading(true);
 
+    // Safety documents can't be fetched without signal - clock in offline and sync later
+    if (!navigator.onLine) {
+      toast.info("You're offline. Your clock-in will be saved and synced later.");
+      await proceedWithClockInWithoutRAMS();
+      return;
+    }
+
     try {
       // Step 1: Fetch RAMS and Site Information documents + flag
       const { data: ramsInfo, error: ramsError } = await supabase.functions.invoke(
@@ -931,7 +964,7 @@ export default function ClockScreen() {
         return;
       }
 
-      const distance = calculateDistance(freshLocation.lat, freshLocation.lng, job.latitude, job.longitude);
+      const location = checkClockLocation(job, freshLocation.lat, freshLocation.lng);
 
       console.log("📍 Fresh location:", {
         lat: freshLocation.lat,
@@ -939,58 +972,31 @@ export default function ClockScreen() {
         accuracy: freshLocation.accuracy,
         timestamp: freshLocation.timestamp,
         age: freshLocation.timestamp ? Date.now() - freshLocation.timestamp : "unknown",
-        distance: Math.round(distance),
+        mode: location.mode,
+        distance: location.distance !== null ? Math.round(location.distance) : null,
         radius: job.geofence_radius,
+        allowed: location.allowed,
       });
 
-      // Debug: Comprehensive geofence validation logging
-      const withinUK = isWithinUK(freshLocation.lat, freshLocation.lng);
-      console.log("🔍 Geofence validation (proceedWithClockInWithoutRAMS):", {
-        jobId: job.id,
-        jobName: job.name,
-        geofenceEnabled: job.geofence_enabled,
-        geofenceEnabledType: typeof job.geofence_enabled,
-        geofenceEnabledStrictCompare: job.geofence_enabled === false,
-        geofenceEnabledLooseCompare: job.geofence_enabled == false,
-        geofenceEnabledStringCompare: job.geofence_enabled === "false",
-        userLocation: { lat: freshLocation.lat, lng: freshLocation.lng },
-        isWithinUKResult: withinUK,
-        distance: Math.round(distance),
-        geofenceRadius: job.geofence_radius,
-      });
-
-      // Validate geofence - conditional based on geofence_enabled
-      // Handle both boolean false and string "false"
-      const isGeofenceDisabled = job.geofence_enabled === false || job.geofence_enabled === "false";
-      
-      if (!isGeofenceDisabled) {
-        // Standard geofence radius check
-        if (distance > job.geofence_radius) {
-          toast.error(
-            `You are ${Math.round(distance)}m from the job site (GPS accuracy: ${Math.round(freshLocation.accuracy)}m). Please move closer to site.`,
-          );
-          setLoading(false);
-          return;
-        }
-      } else {
-        // Geofence disabled - only check if within UK
-        if (!isWithinUK(freshLocation.lat, freshLocation.lng)) {
-          toast.error(
-            "You must be located within the United Kingdom to clock in for this job.",
-          );
-          setLoading(false);
-          return;
-        }
+      // Same check the clock-in function runs - polygon zones, radius, or UK-only when the geofence is off
+      if (!hasLocationProof(job, location)) {
+        showLocationFailure(job, location, freshLocation.accuracy, "clock in");
+        setLoading(false);
+        return;
       }
 
       // Take photo
       const photoBlob = await capturePhoto();
-      const photoUrl = await uploadPhoto(photoBlob);
+      const photoPath = await uploadClockInPhotoOrQueue(photoBlob, freshLocation, job);
+      if (!photoPath) {
+        setLoading(false);
+        return;
+      }
 
-      // Check if past shift end time (overtime)
-      if (isPastShiftEnd()) {
+      // Check if past shift end time (overtime) - the site's hours win over the worker's
+      if (isPastShiftEnd(getEffectiveSchedule(worker, job))) {
         setPendingOvertimeData({
-          photoUrl,
+          photoPath,
           location: freshLocation,
           jobId: selectedJobId
         });
@@ -999,27 +1005,7 @@ export default function ClockScreen() {
         return;
       }
 
-      // Create regular clock entry with fresh location
-      const { data, error } = await supabase
-        .from("clock_entries")
-        .insert({
-          worker_id: worker.id,
-          job_id: selectedJobId,
-          clock_in: new Date().toISOString(),
-          clock_in_photo: photoUrl,
-          clock_in_lat: freshLocation.lat,
-          clock_in_lng: freshLocation.lng,
-        })
-        .select("*, jobs(name)")
-        .single();
-
-      if (error) {
-        toast.error("Failed to clock in: " + error.message);
-        return;
-      }
-
-      setCurrentEntry(data);
-      toast.success("Clocked in successfully!");
+      await submitClockIn(photoBlob, photoPath, freshLocation, job);
     } catch (error) {
       console.error("Clock in error:", error);
       toast.error("Failed to clock in");
@@ -1060,7 +1046,7 @@ export default function ClockScreen() {
         return;
       }
 
-      const distance = calculateDistance(freshLocation.lat, freshLocation.lng, job.latitude, job.longitude);
+      const location = checkClockLocation(job, freshLocation.lat, freshLocation.lng);
 
       console.log("📍 Fresh location:", {
         lat: freshLocation.lat,
@@ -1068,58 +1054,31 @@ export default function ClockScreen() {
         accuracy: freshLocation.accuracy,
         timestamp: freshLocation.timestamp,
         age: freshLocation.timestamp ? Date.now() - freshLocation.timestamp : "unknown",
-        distance: Math.round(distance),
+        mode: location.mode,
+        distance: location.distance !== null ? Math.round(location.distance) : null,
         radius: job.geofence_radius,
+        allowed: location.allowed,
       });
 
-      // Debug: Comprehensive geofence validation logging
-      const withinUK = isWithinUK(freshLocation.lat, freshLocation.lng);
-      console.log("🔍 Geofence validation (proceedWithClockIn):", {
-        jobId: job.id,
-        jobName: job.name,
-        geofenceEnabled: job.geofence_enabled,
-        geofenceEnabledType: typeof job.geofence_enabled,
-        geofenceEnabledStrictCompare: job.geofence_enabled === false,
-        geofenceEnabledLooseCompare: job.geofence_enabled == false,
-        geofenceEnabledStringCompare: job.geofence_enabled === "false",
-        userLocation: { lat: freshLocation.lat, lng: freshLocation.lng },
-        isWithinUKResult: withinUK,
-        distance: Math.round(distance),
-        geofenceRadius: job.geofence_radius,
-      });
-
-      // Validate geofence - conditional based on geofence_enabled
-      // Handle both boolean false and string "false"
-      const isGeofenceDisabled = job.geofence_enabled === false || job.geofence_enabled === "false";
-      
-      if (!isGeofenceDisabled) {
-        // Standard geofence radius check
-        if (distance > job.geofence_radius) {
-          toast.error(
-            `You are ${Math.round(distance)}m from the job site (GPS accuracy: ${Math.round(freshLocation.accuracy)}m). Please move closer to site.`,
-          );
-          setLoading(false);
-          return;
-        }
-      } else {
-        // Geofence disabled - only check if within UK
-        if (!isWithinUK(freshLocation.lat, freshLocation.lng)) {
-          toast.error(
-            "You must be located within the United Kingdom to clock in for this job.",
-          );
-          setLoading(false);
-          return;
-        }
+      // Same check the clock-in function runs - polygon zones, radius, or UK-only when the geofence is off
+      if (!hasLocationProof(job, location)) {
+        showLocationFailure(job, location, freshLocation.accuracy, "clock in");
+        setLoading(false);
+        return;
       }
 
       // Take photo
       const photoBlob = await capturePhoto();
-      const photoUrl = await uploadPhoto(photoBlob);
+      const photoPath = await uploadClockInPhotoOrQueue(photoBlob, freshLocation, job);
+      if (!photoPath) {
+        setLoading(false);
+        return;
+      }
 
-      // Check if past shift end time (overtime)
-      if (isPastShiftEnd()) {
+      // Check if past shift end time (overtime) - the site's hours win over the worker's
+      if (isPastShiftEnd(getEffectiveSchedule(worker, job))) {
         setPendingOvertimeData({
-          photoUrl,
+          photoPath,
           location: freshLocation,
           jobId: selectedJobId
         });
@@ -1128,48 +1087,10 @@ export default function ClockScreen() {
         return;
       }
 
-      // Create regular clock entry with fresh location
-      const { data, error } = await supabase
-        .from("clock_entries")
-        .insert({
-          worker_id: worker.id,
-          job_id: selectedJobId,
-          clock_in: new Date().toISOString(),
-          clock_in_photo: photoUrl,
-          clock_in_lat: freshLocation.lat,
-          clock_in_lng: freshLocation.lng,
-        })
-        .select("*, jobs(name)")
-        .single();
-
-      if (error) {
-        toast.error("Failed to clock in: " + error.message);
-        return;
-      }
-
-      // Record RAMS acceptance after successful clock-in
-      if (ramsData) {
-        const { error: acceptanceError } = await supabase.functions.invoke(
-          'record-rams-acceptance',
-          {
-            body: {
-              worker_id: worker.id,
-              job_id: selectedJobId,
-              terms_and_conditions_url: ramsData.termsUrl,
-              waiver_url: ramsData.waiverUrl,
-            },
-          }
-        );
-
-        if (acceptanceError) {
-          console.error('⚠️ RAMS acceptance recording failed:', acceptanceError);
-          // Don't fail the clock-in, just log the error
-          // Worker is already clocked in successfully
-        }
-      }
-
-      setCurrentEntry(data);
-      toast.success("Clocked in successfully!");
+      await submitClockIn(photoBlob, photoPath, freshLocation, job, {
+        terms_and_conditions_url: ramsData.termsUrl,
+        waiver_url: ramsData.waiverUrl,
+      });
     } catch (error) {
       console.error("Clock in error:", error);
       toast.error("Failed to clock in");
@@ -1204,8 +1125,7 @@ export default function ClockScreen() {
         return;
       }
 
-      // Calculate distance from job site with fresh location
-      const distance = calculateDistance(freshLocation.lat, freshLocation.lng, job.latitude, job.longitude);
+      const location = checkClockLocation(job, freshLocation.lat, freshLocation.lng);
 
       console.log("📍 Fresh location for clock-out:", {
         lat: freshLocation.lat,
@@ -1213,78 +1133,78 @@ export default function ClockScreen() {
         accuracy: freshLocation.accuracy,
         timestamp: freshLocation.timestamp,
         age: freshLocation.timestamp ? Date.now() - freshLocation.timestamp : "unknown",
-        distance: Math.round(distance),
+        mode: location.mode,
+        distance: location.distance !== null ? Math.round(location.distance) : null,
         radius: job.geofence_radius,
+        allowed: location.allowed,
       });
 
-      // Debug: Comprehensive geofence validation logging
-      const withinUK = isWithinUK(freshLocation.lat, freshLocation.lng);
-      console.log("🔍 Geofence validation (handleClockOut):", {
-        jobId: job.id,
-        jobName: job.name,
-        geofenceEnabled: job.geofence_enabled,
-        geofenceEnabledType: typeof job.geofence_enabled,
-        geofenceEnabledStrictCompare: job.geofence_enabled === false,
-        geofenceEnabledLooseCompare: job.geofence_enabled == false,
-        geofenceEnabledStringCompare: job.geofence_enabled === "false",
-        userLocation: { lat: freshLocation.lat, lng: freshLocation.lng },
-        isWithinUKResult: withinUK,
-        distance: Math.round(distance),
-        geofenceRadius: job.geofence_radius,
-      });
-
-      // Validate geofence - conditional based on geofence_enabled
-      // Handle both boolean false and string "false"
-      const isGeofenceDisabled = job.geofence_enabled === false || job.geofence_enabled === "false";
-      
-      if (!isGeofenceDisabled) {
-        // Standard geofence radius check
-        if (distance > job.geofence_radius) {
-          toast.error(
-            `You are ${Math.round(distance)}m from the job site (GPS accuracy: ${Math.round(freshLocation.accuracy)}m). Please move closer to site.`,
-          );
-          setLoading(false);
-          return;
-        }
-      } else {
-        // Geofence disabled - only check if within UK
-        if (!isWithinUK(freshLocation.lat, freshLocation.lng)) {
-          toast.error(
-            "You must be located within the United Kingdom to clock out for this job.",
-          );
-          setLoading(false);
-          return;
-        }
+      // Same check the clock-out function runs - polygon zones, radius, or UK-only when the geofence is off.
+      // An escalated shift can be closed from anywhere.
+      const offSite = !hasLocationProof(job, location);
+      if (offSite && !currentEntry.auto_clockout_escalated_at) {
+        showLocationFailure(job, location, freshLocation.accuracy, "clock out");
+        setLoading(false);
+        return;
       }
 
       // Take photo
       const photoBlob = await capturePhoto();
-      const photoUrl = await uploadPhoto(photoBlob);
 
-      // Calculate hours
-      const clockIn = new Date(currentEntry.clock_in);
-      const clockOut = new Date();
-      const hours = (clockOut.getTime() - clockIn.getTime()) / (1000 * 60 * 60);
+      // Still waiting on the clock-in to sync, or no signal - queue the clock-out behind it
+      if (currentEntry.pending_sync || !navigator.onLine) {
+        await queueOfflineClockOut(photoBlob, freshLocation);
+        setLoading(false);
+        return;
+      }
 
-      // Update clock entry with fresh location
-      const { data, error } = await supabase
-        .from("clock_entries")
-        .update({
-          clock_out: clockOut.toISOString(),
-          clock_out_photo: photoUrl,
-          clock_out_lat: freshLocation.lat,
-          clock_out_lng: freshLocation.lng,
-          total_hours: Math.round(hours * 100) / 100,
-        })
-        .eq("id", currentEntry.id)
-        .select("*, jobs(name)")
-        .single();
+      let photoPath: string;
+      try {
+        photoPath = await ClockService.uploadPhoto(worker.id, photoBlob);
+      } catch (uploadError) {
+        if (!OfflineClockQueue.isNetworkError(uploadError)) throw uploadError;
+        await queueOfflineClockOut(photoBlob, freshLocation);
+        setLoading(false);
+        return;
+      }
+
+      // The clock-out function re-checks the location and works out total_hours
+      const { entry: data, error } = await ClockService.clockOut<
+        ClockEntry & { total_hours: number; shift_total_hours?: number }
+      >({
+        clock_entry_id: currentEntry.id,
+        latitude: freshLocation.lat,
+        longitude: freshLocation.lng,
+        accuracy: freshLocation.accuracy,
+        photo_path: photoPath,
+        qr_code: siteQrFor(currentEntry.job_id),
+      });
+
+      if (error?.network) {
+        await queueOfflineClockOut(photoBlob, freshLocation);
+        setLoading(false);
+        return;
+      }
+
+      if (error?.code === "already_clocked_out") {
+        toast.warning("This shift was already clocked out");
+        checkCurrentStatus();
+        setLoading(false);
+        return;
+      }
 
       if (error) {
+        if (error.code === "invalid_site_qr") setSiteQr(null);
         toast.error("Failed to clock out: " + error.message);
+        setLoading(false);
         return;
       }
 
+      const clockIn = new Date(data.clock_in);
+      const clockOut = new Date(data.clock_out);
+      // After a site switch the expenses and message cover the whole shift, not the last site
+      const hours = data.shift_total_hours ?? data.total_hours;
+
       // Store completed entry for expense dialog
       setCompletedClockEntry({
         ...data,
@@ -1295,6 +1215,11 @@ export default function ClockScreen() {
 
       setCurrentEntry(null);
       setCurrentShiftExpenses([]);
+      setSiteQr(null);
+
+      if (offSite) {
+        toast.info("Clocked out away from site. Your manager will confirm your finish time.");
+      }
 
       // Show expense dialog if expense types available
       if (expenseTypes && expenseTypes.length > 0) {
@@ -1317,6 +1242,313 @@ export default function ClockScreen() {
     navigate("/login");
   };
 
+  // Breaks go straight to the server - they need a signal, unlike clock in/out
+  const handleBreak = async (action: "start" | "end") => {
+    if (!currentEntry || currentEntry.pending_sync) return;
+
+    setBreakLoading(true);
+    try {
+      const { entry, error } = await ClockService.clockBreak<Pick<ClockEntry, "id" | "clock_breaks">>({
+        clock_entry_id: currentEntry.id,
+        action,
+      });
+
+      if (error || !entry) {
+        toast.error(
+          error?.network
+            ? "Breaks need a signal. Please try again once you're back online."
+            : error?.message || "Failed to update break",
+        );
+        return;
+      }
+
+      setCurrentEntry((prev) => (prev && prev.id === entry.id ? { ...prev, clock_breaks: entry.clock_breaks } : prev));
+      toast.success(action === "start" ? "Break started" : "Break ended");
+    } finally {
+      setBreakLoading(false);
+    }
+  };
+
+  // Close the current segment and open one on the new site, under the same shift
+  const submitSwitchSite = async (
+    job: Job,
+    ramsAcceptance?: { terms_and_conditions_url: string | null; waiver_url: string | null },
+  ) => {
+    if (!currentEntry) return;
+
+    toast.info("Getting your live location...");
+    let freshLocation: LocationData;
+    try {
+      freshLocation = await requestFreshLocation();
+    } catch (locationError) {
+      toast.error(locationError instanceof Error ? locationError.message : "Failed to get accurate location");
+      return;
+    }
+
+    // Same check the switch-site function runs against the new site's fence, or its site QR
+    const location = checkClockLocation(job, freshLocation.lat, freshLocation.lng);
+    if (!hasLocationProof(job, location)) {
+      showLocationFailure(job, location, freshLocation.accuracy, "switch site");
+      return;
+    }
+
+    const { entry, error } = await ClockService.switchSite<ClockEntry>({
+      clock_entry_id: currentEntry.id,
+      job_id: job.id,
+      latitude: freshLocation.lat,
+      longitude: freshLocation.lng,
+      accuracy: freshLocation.accuracy,
+      rams_acceptance: ramsAcceptance,
+      qr_code: siteQrFor(job.id),
+    });
+
+    if (error?.code === "invalid_site_qr") {
+      setSiteQr(null);
+    }
+
+    if (error?.code === "already_clocked_out") {
+      toast.warning("This shift was already clocked out");
+      checkCurrentStatus();
+      return;
+    }
+
+    if (error || !entry) {
+      toast.error(
+        error?.network
+          ? "Switching site needs a signal. Please try again once you're back online."
+          : "Failed to switch site: " + (error?.message || "unknown error"),
+      );
+      return;
+    }
+
+    // Tracking restarts against the new entry, so geofence checks follow the new site
+    setCurrentEntry(entry);
+    setSiteQr(null);
+    rememberJob(job.id);
+    toast.success(`Switched to ${job.name}`);
+  };
+
+  // Site switches need a signal, and the new site's RAMS if not accepted today
+  const handleSwitchSite = async (job: Job) => {
+    if (!currentEntry || currentEntry.pending_sync || !worker) return;
+
+    if (!navigator.onLine) {
+      toast.error("Switching site needs a signal. Please try again once you're back online.");
+      return;
+    }
+
+    setSwitchingSite(true);
+    try {
+      const { data: ramsInfo, error: ramsError } = await supabase.functions.invoke("validate-rams-acceptance", {
+        body: { worker_id: worker.id, job_id: job.id },
+      });
+
+      if (ramsError) {
+        console.error("RAMS fetch error:", ramsError);
+        toast.error("Failed to load safety documents");
+        return;
+      }
+
+      if (ramsInfo?.show_rams_and_site_info !== false) {
+        const { data: acceptanceCheck } = await supabase.functions.invoke("check-rams-acceptance-today", {
+          body: { worker_id: worker.id, job_id: job.id },
+        });
+
+        if (!acceptanceCheck?.already_accepted) {
+          setPendingSwitchJobId(job.id);
+          setRamsData({
+            jobName: ramsInfo.job_name,
+            termsUrl: ramsInfo.terms_and_conditions_url,
+            waiverUrl: ramsInfo.waiver_url,
+          });
+          setShowRAMSDialog(true);
+          return;
+        }
+      }
+
+      await submitSwitchSite(job);
+    } catch (error) {
+      console.error("Switch site error:", error);
+      toast.error("Failed to switch site");
+    } finally {
+      setSwitchingSite(false);
+    }
+  };
+
+  // Proceed with the site switch after RAMS acceptance
+  const proceedWithSwitchSite = async () => {
+    const job = jobs.find((j) => j.id === pendingSwitchJobId);
+    setShowRAMSDialog(false);
+    setPendingSwitchJobId(null);
+    if (!job || !ramsData) return;
+
+    setSwitchingSite(true);
+    try {
+      await submitSwitchSite(job, {
+        terms_and_conditions_url: ramsData.termsUrl,
+        waiver_url: ramsData.waiverUrl,
+      });
+    } catch (error) {
+      console.error("Switch site error:", error);
+      toast.error("Failed to switch site");
+    } finally {
+      setSwitchingSite(false);
+    }
+  };
+
+  // A scan is kept for the next clock action on the job; while clocked in it also tells
+  // location tracking the worker is on site, whatever GPS says
+  const handleSiteQrScan = async (code: string) => {
+    setShowQrScanner(false);
+
+    // For the site being switched to - sent with the switch, not as presence on this one
+    const switchJob = qrScanJobId ? jobs.find((job) => job.id === qrScanJobId) : null;
+    setQrScanJobId(null);
+    if (switchJob) {
+      setSiteQr({ jobId: switchJob.id, code });
+      toast.success(`Site QR scanned. Switch to ${switchJob.name} again to continue.`);
+      return;
+    }
+
+    if (!activeJob) return;
+    setSiteQr({ jobId: activeJob.id, code });
+
+    if (!currentEntry || currentEntry.pending_sync) {
+      toast.success("Site QR scanned. Tap Clock In to continue.");
+      return;
+    }
+
+    const { error } = await ClockService.scanSiteQr(currentEntry.id, code);
+    if (error) {
+      if (error.code === "invalid_site_qr") setSiteQr(null);
+      toast.error(error.message);
+      return;
+    }
+    toast.success("Site QR scanned - you're confirmed on site");
+  };
+
+  // Clock in workers without a phone: one fix from the foreman, then a group photo or one each
+  const handleCrewClockIn = async (members: CrewMemberOption[], photoMode: CrewPhotoMode) => {
+    if (!worker || !activeJob || members.length === 0) return;
+
+    if (!navigator.onLine) {
+      toast.error("Crew clock-in needs a signal. Please try again once you're back online.");
+      return;
+    }
+
+    // The camera overlay can't be used behind an open dialog
+    setShowCrewDialog(false);
+    setCrewLoading(true);
+    try {
+      toast.info("Getting your live location...");
+      let freshLocation: LocationData;
+      try {
+        freshLocation = await requestFreshLocation();
+      } catch (locationError) {
+        toast.error(locationError instanceof Error ? locationError.message : "Failed to get accurate location");
+        return;
+      }
+
+      // Same check the crew-clock-in function runs, once for the whole crew
+      const location = checkClockLocation(activeJob, freshLocation.lat, freshLocation.lng);
+      if (!hasLocationProof(activeJob, location)) {
+        showLocationFailure(activeJob, location, freshLocation.accuracy, "clock in");
+        return;
+      }
+
+      let photoPath: string | undefined;
+      const memberPhotoPaths: Record<string, string> = {};
+      if (photoMode === "group") {
+        toast.info("Take a photo of the whole crew");
+        photoPath = await ClockService.uploadPhoto(worker.id, await capturePhoto(), `crew_${Date.now()}`);
+      } else {
+        for (const member of members) {
+          toast.info(`Take a photo of ${member.name}`);
+          memberPhotoPaths[member.id] = await ClockService.uploadPhoto(
+            worker.id,
+            await capturePhoto(),
+            `crew_${member.id}_${Date.now()}`,
+          );
+        }
+      }
+
+      const { entry: result, error } = await ClockService.crewClockIn({
+        job_id: activeJob.id,
+        worker_ids: members.map((member) => member.id),
+        latitude: freshLocation.lat,
+        longitude: freshLocation.lng,
+        accuracy: freshLocation.accuracy,
+        photo_path: photoPath,
+        member_photo_paths: photoMode === "individual" ? memberPhotoPaths : undefined,
+        qr_code: siteQrFor(activeJob.id),
+      });
+
+      if (error?.code === "invalid_site_qr") {
+        setSiteQr(null);
+      }
+
+      if (error || !result) {
+        toast.error(
+          error?.network
+            ? "Crew clock-in needs a signal. Please try again once you're back online."
+            : "Failed to clock in crew: " + (error?.message || "unknown error"),
+        );
+        return;
+      }
+
+      // Tell each member, so they can dispute an entry they didn't work
+      const clockedAt = new Date().toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+      for (const entry of result.entries) {
+        await NotificationService.sendDualNotification(
+          entry.worker_id,
+          "Clocked In by Your Foreman",
+          `${worker.name} clocked you in at ${activeJob.name} at ${clockedAt}. If this is wrong, please submit a Time Amendment request.`,
+          "crew_clock_in",
+          `crew_clock_in_${entry.id}`,
+        );
+      }
+
+      toast.success(`Clocked in ${result.entries.length} crew member(s) at ${activeJob.name}`);
+      if (result.skipped.length > 0) {
+        toast.warning(
+          `Not clocked in: ${result.skipped.map((s) => `${s.name || "Unknown worker"} (${s.reason})`).join(", ")}`,
+          { duration: 8000 },
+        );
+      }
+    } catch (error) {
+      console.error("Crew clock-in error:", error);
+      toast.error("Failed to clock in crew");
+    } finally {
+      setCrewLoading(false);
+    }
+  };
+
+  const openBreak = getOpenBreak(currentEntry?.clock_breaks);
+  const breakMinutesSoFar = Math.floor(getBreakMinutes(currentEntry?.clock_breaks, currentTime));
+
+  // Picker rows shared by clock-in and switch site
+  const renderJobOptions = (options: RankedJob<Job>[], checkedJobId: string, onSelect: (job: Job) => void) =>
+    options.map((ranked) => {
+      const { job } = ranked;
+      const distance = formatJobDistance(ranked);
+      return (
+        <CommandItem key={job.id} value={`${job.name} ${job.code}`} onSelect={() => onSelect(job)}>
+          <Check className={cn("mr-2 h-4 w-4", checkedJobId === job.id ? "opacity-100" : "opacity-0")} />
+          <span className="flex-1">
+            {job.name} ({job.code})
+            {ranked.recent && !ranked.onSite && <span className="ml-2 text-xs text-muted-foreground">Recent</span>}
+          </span>
+          {distance && (
+            <span
+              className={cn("ml-2 text-xs", ranked.onSite ? "font-medium text-green-600" : "text-muted-foreground")}
+            >
+              {distance}
+            </span>
+          )}
+        </CommandItem>
+      );
+    });
+
   const getElapsedTime = () => {
     if (!currentEntry) return "";
 
@@ -1379,7 +1611,7 @@ export default function ClockScreen() {
               amount: finalAmount,
               expense_type_id: expense.id,
               cost_type: "other",
-              date: new Date().toISOString().split("T")[0],
+              date: getUkDateString(),
             });
 
             if (!error) {
@@ -1531,9 +1763,23 @@ export default function ClockScreen() {
                 <h2 className="text-2xl font-heading font-bold text-green-800 mb-2">CLOCKED IN</h2>
                 <p className="text-lg font-body font-medium text-foreground">{currentEntry.jobs.name}</p>
                 <p className="text-sm font-body text-muted-foreground mt-1">
-                  Since {new Date(currentEntry.clock_in).toLocaleTimeString()}
+                  {currentEntry.shift_id ? "On this site since" : "Since"}{" "}
+                  {new Date(currentEntry.clock_in).toLocaleTimeString()}
                 </p>
+                {siteHours && (
+                  <p className="text-xs font-body text-muted-foreground mt-1">Site hours {siteHours}</p>
+                )}
                 <p className="text-lg font-heading font-bold text-green-600 mt-2">{getElapsedTime()}</p>
+                {openBreak ? (
+                  <p className="text-sm font-body font-medium text-amber-700 mt-1">
+                    On break since {new Date(openBreak.started_at).toLocaleTimeString()} ({breakMinutesSoFar} min on breaks)
+                  </p>
+                ) : breakMinutesSoFar > 0 ? (
+                  <p className="text-xs font-body text-muted-foreground mt-1">{breakMinutesSoFar} min on breaks</p>
+                ) : null}
+                {currentEntry.pending_sync && (
+                  <p className="text-xs font-body text-amber-700 mt-1">Saved on this device - waiting to sync</p>
+                )}
                 {currentShiftExpenses.length > 0 && (
                   <div className="mt-3 p-2 bg-blue-50 rounded-lg">
                     <p className="text-sm text-blue-700 font-medium">
@@ -1552,29 +1798,161 @@ export default function ClockScreen() {
           </CardContent>
         </Card>
 
-        {/* Location Status */}
-        {location && (
+        {/* Still on site? - the answer also works from the notification */}
+        {exitPrompt.prompt && (
           <Card>
-            <CardContent className="p-4">
-              <div className="flex items-center justify-center text-sm text-muted-foreground">
-                <MapPin className="w-4 h-4 mr-2 text-green-600" />
-                GPS Accuracy: {Math.round(location.accuracy)}m
+            <CardContent className="p-4 bg-red-50 border-red-200 space-y-3">
+              <div className="flex items-start gap-2">
+                <MapPinOff className="w-5 h-5 mt-0.5 text-red-600 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-red-800">Are you still on site?</p>
+                  <p className="text-xs text-red-700">
+                    Your location showed you leaving at{" "}
+                    {new Date(exitPrompt.prompt.exit_detected_at).toLocaleTimeString("en-GB", {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                    . If you don't answer, you'll be clocked out at that time in a few minutes.
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  disabled={exitPrompt.responding}
+                  onClick={() => exitPrompt.respond("still_on_site")}
+                >
+                  I'm still on site
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="flex-1"
+                  disabled={exitPrompt.responding}
+                  onClick={() => exitPrompt.respond("left")}
+                >
+                  I've left
+                </Button>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Offline Sync Status */}
+        {(pendingCount > 0 || !isOnline) && (
+          <Card>
+            <CardContent className="p-4 bg-amber-50 border-amber-200">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <CloudOff className="w-5 h-5 text-amber-600" />
+                  <div>
+                    <p className="text-sm font-medium text-amber-800">
+                      {pendingCount > 0 ? `${pendingCount} clock action(s) pending sync` : "You're offline"}
+                    </p>
+                    <p className="text-xs text-amber-700">
+                      {failedCount > 0
+                        ? `${failedCount} couldn't be synced - please submit an amendment`
+                        : isOnline
+                          ? "Syncing with the server..."
+                          : "Clock actions will be saved and synced when signal returns"}
+                    </p>
+                  </div>
+                </div>
+                {pendingCount > 0 && isOnline && (
+                  <Button variant="ghost" size="sm" onClick={syncNow} disabled={isSyncing} className="h-8 px-2">
+                    <RefreshCw className={`w-4 h-4 ${isSyncing ? "animate-spin" : ""}`} />
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Location Status */}
+        {(location || trackerState.active) && (
+          <Card>
+            <CardContent className="p-4 space-y-1">
+              {location && (
+                <div className="flex items-center justify-center text-sm text-muted-foreground">
+                  <MapPin className="w-4 h-4 mr-2 text-green-600" />
+                  GPS Accuracy: {Math.round(location.accuracy)}m
+                </div>
+              )}
+              {trackerState.active && (
+                <p className="text-xs text-center text-muted-foreground">
+                  {trackerState.error
+                    ? `Site tracking paused: ${trackerState.error}`
+                    : `Site tracking on${
+                        trackerState.intervalMs ? ` · checks every ${formatTrackerInterval(trackerState.intervalMs)}` : ""
+                      }${trackerState.batterySaver ? " · battery saver" : ""}`}
+                  {trackerState.lastSentAt &&
+                    ` · last sent ${new Date(trackerState.lastSentAt).toLocaleTimeString("en-GB", {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Actions */}
         <div className="space-y-4">
           {currentEntry ? (
-            <button
-              onClick={handleClockOut}
-              disabled={loading}
-              className="w-full py-8 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-2xl font-bold rounded-2xl shadow-lg transform transition-all duration-200 active:scale-95"
-            >
-              <LogOut className="mx-auto h-12 w-12 mb-2" />
-              {loading ? "Processing..." : "Clock Out"}
-            </button>
+            <>
+              {!currentEntry.pending_sync && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleBreak(openBreak ? "end" : "start")}
+                  disabled={breakLoading || loading}
+                  className="w-full h-14 text-lg"
+                >
+                  <Coffee className="w-5 h-5 mr-2" />
+                  {breakLoading ? "Processing..." : openBreak ? "End Break" : "Start Break"}
+                </Button>
+              )}
+              {!currentEntry.pending_sync && !currentEntry.is_overtime && (
+                <Popover open={switchSearchOpen} onOpenChange={setSwitchSearchOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      disabled={switchingSite || loading || !!openBreak}
+                      className="w-full h-14 text-lg"
+                    >
+                      <ArrowLeftRight className="w-5 h-5 mr-2" />
+                      {switchingSite ? "Switching..." : "Switch Site"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+                    <Command>
+                      <CommandInput placeholder="Search job sites..." className="h-12" />
+                      <CommandList>
+                        <CommandEmpty>No job site found.</CommandEmpty>
+                        <CommandGroup>
+                          {renderJobOptions(
+                            rankedJobs.filter((ranked) => ranked.job.id !== currentEntry.job_id),
+                            "",
+                            (job) => {
+                              setSwitchSearchOpen(false);
+                              handleSwitchSite(job);
+                            },
+                          )}
+                        </CommandGroup>
+                      </CommandList>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
+              )}
+              <button
+                onClick={handleClockOut}
+                disabled={loading}
+                className="w-full py-8 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-2xl font-bold rounded-2xl shadow-lg transform transition-all duration-200 active:scale-95"
+              >
+                <LogOut className="mx-auto h-12 w-12 mb-2" />
+                {loading ? "Processing..." : "Clock Out"}
+              </button>
+            </>
           ) : (
             <>
               <Card>
@@ -1612,31 +1990,23 @@ export default function ClockScreen() {
                         <CommandList>
                           <CommandEmpty>No job site found.</CommandEmpty>
                           <CommandGroup>
-                            {jobs.map((job) => (
-                              <CommandItem
-                                key={job.id}
-                                value={`${job.name} ${job.code}`}
-                                onSelect={() => {
-                                  setSelectedJobId(job.id);
-                                  setJobSearchOpen(false);
-                                }}
-                              >
-                                <Check
-                                  className={cn(
-                                    "mr-2 h-4 w-4",
-                                    selectedJobId === job.id ? "opacity-100" : "opacity-0"
-                                  )}
-                                />
-                                {job.name} ({job.code})
-                              </CommandItem>
-                            ))}
+                            {renderJobOptions(rankedJobs, selectedJobId, (job) => {
+                              jobPickedManually.current = true;
+                              setSelectedJobId(job.id);
+                              setJobSearchOpen(false);
+                            })}
                           </CommandGroup>
                         </CommandList>
                       </Command>
                     </PopoverContent>
                   </Popover>
+                  {siteHours && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Site hours {siteHours} - these replace your usual shift times here
+                    </p>
+                  )}
                   {jobs.length === 0 && (
-                    <p className="text-xs text-muted-foreground mt-2">No job sites available. Try refreshing.</p>
+                    <p className="text-xs text-muted-foreground mt-2">No job sites assigned to you today. Ask your manager, then refresh.</p>
                   )}
                 </CardContent>
               </Card>
@@ -1651,6 +2021,28 @@ export default function ClockScreen() {
               </button>
             </>
           )}
+          {worker?.can_clock_crew && (
+            <Button
+              variant="outline"
+              onClick={() => setShowCrewDialog(true)}
+              disabled={crewLoading || loading || !activeJob || !location}
+              className="w-full h-14 text-lg"
+            >
+              <Users className="w-5 h-5 mr-2" />
+              {crewLoading ? "Clocking In Crew..." : "Clock In Crew"}
+            </Button>
+          )}
+          {activeJob?.qr_mode && activeJob.qr_mode !== "off" && (
+            <Button
+              variant="outline"
+              onClick={() => openQrScanner(activeJob)}
+              disabled={loading}
+              className="w-full h-14 text-lg"
+            >
+              <QrCode className="w-5 h-5 mr-2" />
+              {siteQrFor(activeJob.id) ? "Site QR Scanned" : "Scan Site QR"}
+            </Button>
+          )}
         </div>
 
         {/* Expense Reminder for Clocked In Workers */}
@@ -1687,7 +2079,7 @@ export default function ClockScreen() {
                 {expenseTypes.length > 0 ? (
                   <div className="space-y-2 mb-6">
                     {expenseTypes.map((expense) => {
-                      const hoursWorked = currentEntry ? (Date.now() - new Date(currentEntry.clock_in).getTime()) / (1000 * 60 * 60) : 0;
+                      const hoursWorked = completedClockEntry?.total_hours || 0;
                       const displayAmount = expense.calculation_type === 'hourly_multiplied' 
                         ? `£${expense.amount.toFixed(2)}/hr (£${(expense.amount * hoursWorked).toFixed(2)} total)`
                         : `£${expense.amount.toFixed(2)}`;
@@ -1791,13 +2183,37 @@ export default function ClockScreen() {
           setLoading(false);
         }}
         isLoading={isRequestingOvertime}
+        maxOtHours={policy.max_ot_hours}
+      />
+
+      {/* Crew Clock-In Dialog */}
+      <CrewClockInDialog
+        open={showCrewDialog}
+        onOpenChange={setShowCrewDialog}
+        onConfirm={handleCrewClockIn}
+        jobName={activeJob?.name || ""}
+        loading={crewLoading}
+      />
+
+      {/* Site QR - proof of presence where GPS is poor */}
+      <SiteQrScannerDialog
+        open={showQrScanner}
+        onOpenChange={(open) => {
+          setShowQrScanner(open);
+          if (!open) setQrScanJobId(null);
+        }}
+        onScan={handleSiteQrScan}
+        jobName={(qrScanJobId ? jobs.find((job) => job.id === qrScanJobId) : activeJob)?.name || ""}
       />
 
       {/* RAMS Acceptance Dialog */}
       <RAMSAcceptanceDialog
         open={showRAMSDialog}
-        onOpenChange={setShowRAMSDialog}
-        onAccept={proceedWithClockIn}
+        onOpenChange={(open) => {
+          setShowRAMSDialog(open);
+          if (!open) setPendingSwitchJobId(null);
+        }}
+        onAccept={pendingSwitchJobId ? proceedWithSwitchSite : proceedWithClockIn}
         jobName={ramsData?.jobName || ""}
         termsUrl={ramsData?.termsUrl || null}
         waiverUrl={ramsData?.waiverUrl || null}
@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, Users } from "lucide-react";
+import { ClockService, type CrewMemberOption } from "@/services/clockService";
+
+export type CrewPhotoMode = "group" | "individual";
+
+interface CrewClockInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (members: CrewMemberOption[], photoMode: CrewPhotoMode) => void;
+  jobName: string;
+  loading?: boolean;
+}
+
+export default function CrewClockInDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+  jobName,
+  loading = false,
+}: CrewClockInDialogProps) {
+  const [crew, setCrew] = useState<CrewMemberOption[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [photoMode, setPhotoMode] = useState<CrewPhotoMode>("group");
+  const [loadingCrew, setLoadingCrew] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Reload the organisation each time - who's clocked in changes through the day
+  useEffect(() => {
+    if (!open) return;
+
+    setSelectedIds([]);
+    setLoadError(null);
+    setLoadingCrew(true);
+    ClockService.listCrew().then(({ entry, error }) => {
+      setCrew(entry ?? []);
+      setLoadError(error ? error.message : null);
+      setLoadingCrew(false);
+    });
+  }, [open]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((x) => x !== id)));
+  };
+
+  const selected = crew.filter((member) => selectedIds.includes(member.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Clock In Crew
+          </DialogTitle>
+          <DialogDescription>
+            Clock in workers at {jobName} using your location. Each of them will be notified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loadingCrew ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : loadError ? (
+            <p className="text-sm text-red-600">{loadError}</p>
+          ) : crew.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No other workers in your organisation.</p>
+          ) : (
+            <div className="space-y-2">
+              {crew.map((member) => (
+                <div key={member.id} className="flex items-center space-x-3">
+                  <Checkbox
+                    id={`crew-${member.id}`}
+                    checked={selectedIds.includes(member.id)}
+                    disabled={member.clocked_in}
+                    onCheckedChange={(checked) => toggle(member.id, checked === true)}
+                  />
+                  <Label htmlFor={`crew-${member.id}`} className="font-normal cursor-pointer flex-1">
+                    {member.name}
+                    {member.clocked_in && <span className="ml-2 text-xs text-muted-foreground">Clocked in</span>}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Photo</Label>
+            <RadioGroup value={photoMode} onValueChange={(v) => setPhotoMode(v as CrewPhotoMode)}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="group" id="crew-photo-group" />
+                <Label htmlFor="crew-photo-group" className="font-normal cursor-pointer">
+                  One group photo
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="individual" id="crew-photo-individual" />
+                <Label htmlFor="crew-photo-individual" className="font-normal cursor-pointer">
+                  A photo of each worker
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(selected, photoMode)} disabled={loading || selected.length === 0}>
+            {loading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Clocking In...
+              </>
+            ) : (
+              `Clock In ${selected.length || ""} ${selected.length === 1 ? "Worker" : "Workers"}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,8 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
+import { formatBreaks, type ClockBreak } from '@shared/breaks';
+import { formatTravelDistance, getPaidTravelHours, getTravelMinutes, type TravelSegment } from '@shared/travel';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -75,6 +77,34 @@ export default function ExportTimesheetDialog({
     }
   };
 
+  // Break times, plus how much was deducted from the hours
+  const describeBreaks = (entry: { clock_breaks?: ClockBreak[] | null; unpaid_break_minutes?: number | null }) => {
+    if (!entry.clock_breaks?.length) return '-';
+    const times = formatBreaks(entry.clock_breaks, (d) => format(d, 'h:mm a'));
+    const unpaid = Math.round(Number(entry.unpaid_break_minutes || 0));
+    return unpaid > 0 ? `${times} (${unpaid} min unpaid)` : times;
+  };
+
+  // Travel into an entry gets its own line, ahead of the entry. Unpaid travel is listed
+  // without hours so it isn't mistaken for paid time.
+  const buildTravelRows = (entry: { travel_segments?: TravelSegment[] | null }): string[][] =>
+    (entry.travel_segments ?? []).map((travel) => {
+      const distance = formatTravelDistance(travel.distance_m);
+      const minutes = getTravelMinutes(travel);
+      return [
+        format(new Date(travel.started_at), 'EEE, MMM d'),
+        '',
+        `Travel from ${travel.from_job?.name || 'previous site'}`,
+        format(new Date(travel.started_at), 'h:mm a'),
+        format(new Date(travel.ended_at), 'h:mm a'),
+        '-',
+        travel.is_paid ? (minutes / 60).toFixed(2) : '-',
+        travel.is_paid ? `£${hourlyRate.toFixed(2)}` : '-',
+        '-',
+        [travel.is_paid ? 'Paid travel' : 'Unpaid travel', distance].filter(Boolean).join(', '),
+      ];
+    });
+
   const generateExcel = (entries: any[], dateRangeStr: string) => {
     const wb = XLSX.utils.book_new();
     
@@ -85,7 +115,7 @@ export default function ExportTimesheetDialog({
       ['Name:', workerName],
       ['Date Range:', dateRangeStr],
       [],
-      ['Date', 'Job Site Code', 'Job Name', 'Clock In', 'Clock Out', 'Total Hours', 'Rate', 'Expenses', 'Note']
+      ['Date', 'Job Site Code', 'Job Name', 'Clock In', 'Clock Out', 'Breaks', 'Total Hours', 'Rate', 'Expenses', 'Note']
     ];
 
     let totalHours = 0;
@@ -94,7 +124,8 @@ export default function ExportTimesheetDialog({
 
     entries.forEach(entry => {
       const hours = entry.total_hours || 0;
-      const earnings = hours * hourlyRate;
+      const travelHours = getPaidTravelHours(entry.travel_segments);
+      const earnings = (hours + travelHours) * hourlyRate;
       
       // Calculate expenses for this entry and build expense details string
       const entryExpenses = entry.additional_costs?.reduce(
@@ -106,9 +137,10 @@ export default function ExportTimesheetDialog({
         return `${expenseName} (£${parseFloat(cost.amount || 0).toFixed(2)})`;
       }).join(', ') || '-';
       
-      totalHours += hours;
+      totalHours += hours + travelHours;
       totalExpenses += entryExpenses;
       totalEarnings += earnings + entryExpenses;
+      rows.push(...buildTravelRows(entry));
 
       let note = '';
       if (entry.manual_entry) note = 'Manual Entry';
@@ -121,6 +153,7 @@ export default function ExportTimesheetDialog({
         entry.jobs?.name || 'Unknown Job',
         entry.clock_in ? format(new Date(entry.clock_in), 'h:mm a') : '',
         entry.clock_out ? format(new Date(entry.clock_out), 'h:mm a') : 'In Progress',
+        describeBreaks(entry),
         hours.toFixed(2),
         `£${hourlyRate.toFixed(2)}`,
         expenseDetails,
@@ -129,9 +162,9 @@ export default function ExportTimesheetDialog({
     });
 
     rows.push([]);
-    rows.push(['', '', '', '', '', 'Total Hours:', totalHours.toFixed(2), '', '']);
-    rows.push(['', '', '', '', '', 'Total Expenses:', `£${totalExpenses.toFixed(2)}`, '', '']);
-    rows.push(['', '', '', '', '', 'Total Earnings:', `£${totalEarnings.toFixed(2)}`, '', '']);
+    rows.push(['', '', '', '', '', '', 'Total Hours:', totalHours.toFixed(2), '', '']);
+    rows.push(['', '', '', '', '', '', 'Total Expenses:', `£${totalExpenses.toFixed(2)}`, '', '']);
+    rows.push(['', '', '', '', '', '', 'Total Earnings:', `£${totalEarnings.toFixed(2)}`, '', '']);
 
     const ws = XLSX.utils.aoa_to_sheet(rows);
     
@@ -142,6 +175,7 @@ export default function ExportTimesheetDialog({
       { wch: 25 },  // Job Name
       { wch: 12 },  // Clock In
       { wch: 12 },  // Clock Out
+      { wch: 24 },  // Breaks
       { wch: 12 },  // Total Hours
       { wch: 10 },  // Rate
       { wch: 30 },  // Expenses
@@ -196,7 +230,7 @@ export default function ExportTimesheetDialog({
     doc.text(`Date Range: ${dateRangeStr}`, 14, 37);
     
     // Prepare table data
-    const tableData = entries.map(entry => {
+    const tableData = entries.flatMap(entry => {
       const hours = entry.total_hours || 0;
       const entryExpenses = entry.additional_costs?.reduce(
         (sum: number, cost: any) => sum + parseFloat(cost.amount || 0), 0
@@ -212,17 +246,18 @@ export default function ExportTimesheetDialog({
       if (entry.auto_clocked_out) note = note ? `${note}, Auto Clock-Out` : 'Auto Clock-Out';
       if (entry.notes) note = note ? `${note}, ${entry.notes}` : entry.notes;
 
-      return [
+      return [...buildTravelRows(entry), [
         entry.clock_in ? format(new Date(entry.clock_in), 'EEE, MMM d') : '',
         entry.jobs?.code || '',
         entry.jobs?.name || 'Unknown Job',
         entry.clock_in ? format(new Date(entry.clock_in), 'h:mm a') : '',
         entry.clock_out ? format(new Date(entry.clock_out), 'h:mm a') : 'In Progress',
+        describeBreaks(entry),
         hours.toFixed(2),
         `£${hourlyRate.toFixed(2)}`,
         expenseDetails,
         note
-      ];
+      ]];
     });
 
     let totalHours = 0;
@@ -235,21 +270,22 @@ export default function ExportTimesheetDialog({
         (sum: number, cost: any) => sum + parseFloat(cost.amount || 0), 0
       ) || 0;
       
-      totalHours += hours;
+      const travelHours = getPaidTravelHours(entry.travel_segments);
+      totalHours += hours + travelHours;
       totalExpenses += entryExpenses;
-      totalEarnings += (hours * hourlyRate) + entryExpenses;
+      totalEarnings += ((hours + travelHours) * hourlyRate) + entryExpenses;
     });
 
     autoTable(doc, {
-      head: [['Date', 'Job Site Code', 'Job Name', 'Clock In', 'Clock Out', 'Total Hours', 'Rate', 'Expenses', 'Note']],
+      head: [['Date', 'Job Site Code', 'Job Name', 'Clock In', 'Clock Out', 'Breaks', 'Total Hours', 'Rate', 'Expenses', 'Note']],
       body: tableData,
       startY: 45,
       styles: { fontSize: 9 },
       headStyles: { fillColor: [128, 0, 0] }, // Maroon color
       foot: [
-        ['', '', '', '', '', 'Total Hours:', totalHours.toFixed(2), '', ''],
-        ['', '', '', '', '', 'Total Expenses:', `£${totalExpenses.toFixed(2)}`, '', ''],
-        ['', '', '', '', '', 'Total Earnings:', `£${totalEarnings.toFixed(2)}`, '', '']
+        ['', '', '', '', '', '', 'Total Hours:', totalHours.toFixed(2), '', ''],
+        ['', '', '', '', '', '', 'Total Expenses:', `£${totalExpenses.toFixed(2)}`, '', ''],
+        ['', '', '', '', '', '', 'Total Earnings:', `£${totalEarnings.toFixed(2)}`, '', '']
       ],
       footStyles: { 
         fillColor: [128, 0, 0], // Maroon background
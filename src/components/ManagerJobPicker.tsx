@@ -0,0 +1,96 @@
+import { useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import ManagerSignInForm from "@/components/ManagerSignInForm";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ClockFunctionResult, ManagerJob } from "@/services/clockService";
+
+// Site set-up done on a shared or site device (pairing a kiosk, printing a site QR):
+// a manager signs in, picks a job, and is signed straight back out afterwards so their
+// session never stays on the device.
+
+interface ManagerJobPickerProps {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  loadJobs: () => Promise<ClockFunctionResult<ManagerJob[]>>;
+  onConfirm: (job: ManagerJob) => Promise<void>;
+  children?: ReactNode; // Extra fields shown with the job picker
+}
+
+export default function ManagerJobPicker({
+  title,
+  description,
+  confirmLabel,
+  loadJobs,
+  onConfirm,
+  children,
+}: ManagerJobPickerProps) {
+  const [jobs, setJobs] = useState<ManagerJob[] | null>(null);
+  const [jobId, setJobId] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSignedIn = async () => {
+    const { entry, error } = await loadJobs();
+    if (error) {
+      await supabase.auth.signOut();
+      toast.error(error.message);
+      return;
+    }
+    setJobs(entry ?? []);
+  };
+
+  const handleConfirm = async () => {
+    const job = jobs?.find((j) => j.id === jobId);
+    if (!job) return;
+
+    setLoading(true);
+    try {
+      await onConfirm(job);
+    } finally {
+      await supabase.auth.signOut();
+      setJobs(null);
+      setJobId("");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm p-6 space-y-4">
+      <div>
+        <h1 className="text-xl font-bold text-gray-900">{title}</h1>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+
+      {jobs === null ? (
+        <ManagerSignInForm onSignedIn={handleSignedIn} />
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <Label>Job</Label>
+            <Select value={jobId} onValueChange={setJobId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select the site" />
+              </SelectTrigger>
+              <SelectContent>
+                {jobs.map((job) => (
+                  <SelectItem key={job.id} value={job.id}>
+                    {job.code ? `${job.code} - ${job.name}` : job.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {children}
+          <Button className="w-full" onClick={handleConfirm} disabled={loading || !jobId}>
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
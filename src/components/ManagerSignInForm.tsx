@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+// Manager sign-in for the pages a manager opens outside the worker app (site devices, reports).
+// `onSignedIn` loads whatever the page needs; the button spins until it's done.
+
+interface ManagerSignInFormProps {
+  onSignedIn: () => Promise<void>;
+}
+
+export default function ManagerSignInForm({ onSignedIn }: ManagerSignInFormProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) {
+        toast.error("Sign in failed", { description: error.message });
+        return;
+      }
+      await onSignedIn();
+    } finally {
+      setPassword("");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSignIn} className="space-y-3">
+      <div>
+        <Label htmlFor="manager-email">Manager email</Label>
+        <Input id="manager-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+      </div>
+      <div>
+        <Label htmlFor="manager-password">Password</Label>
+        <Input
+          id="manager-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Sign In
+      </Button>
+    </form>
+  );
+}
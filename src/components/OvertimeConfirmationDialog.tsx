@@ -1,19 +1,22 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, Loader2 } from 'lucide-react';
+import { DEFAULT_POLICY } from '@shared/policy';
 
 interface OvertimeConfirmationDialogProps {
   open: boolean;
   onConfirm: () => void;
   onCancel: () => void;
   isLoading?: boolean;
+  maxOtHours?: number; // The organisation's OT cap
 }
 
 export default function OvertimeConfirmationDialog({ 
   open, 
   onConfirm, 
   onCancel,
-  isLoading = false
+  isLoading = false,
+  maxOtHours = DEFAULT_POLICY.max_ot_hours
 }: OvertimeConfirmationDialogProps) {
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
@@ -35,7 +38,7 @@ export default function OvertimeConfirmationDialog({
             <ul className="text-sm space-y-2 text-muted-foreground">
               <li className="flex gap-2">
                 <span className="text-blue-600 dark:text-blue-400">•</span>
-                <span>Maximum 3 hours of overtime per shift</span>
+                <span>Maximum {maxOtHours} hours of overtime per shift</span>
               </li>
               <li className="flex gap-2">
                 <span className="text-blue-600 dark:text-blue-400">•</span>
@@ -47,7 +50,7 @@ export default function OvertimeConfirmationDialog({
               </li>
               <li className="flex gap-2">
                 <span className="text-blue-600 dark:text-blue-400">•</span>
-                <span>For more than 3 hours, submit a Time Amendment</span>
+                <span>For more than {maxOtHours} hours, submit a Time Amendment</span>
               </li>
             </ul>
           </div>
@@ -1,18 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { User, ArrowLeft, Clock, FileText, Lock } from 'lucide-react';
+import { User, ArrowLeft, Clock, FileText, Lock, KeyRound, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import OrganizationLogo from '@/components/OrganizationLogo';
 import ChangePasswordDialog from '@/components/ChangePasswordDialog';
 import { useWorker } from '@/contexts/WorkerContext';
+import { ClockService } from '@/services/clockService';
+import { Input } from '@/components/ui/input';
 
 export default function Profile() {
   const navigate = useNavigate();
-  const { worker: contextWorker, loading: workerLoading } = useWorker();
+  const { worker: contextWorker, loading: workerLoading, refreshWorker } = useWorker();
   const [worker, setWorker] = useState<any>(null);
   const [organizationName, setOrganizationName] = useState<string>('');
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+  const [kioskPin, setKioskPin] = useState('');
+  const [savingPin, setSavingPin] = useState(false);
 
   // Set worker from context
   useEffect(() => {
@@ -22,6 +26,22 @@ export default function Profile() {
     }
   }, [contextWorker]);
 
+  // PIN for clocking on a site kiosk tablet - only its hash is stored
+  const handleSaveKioskPin = async () => {
+    setSavingPin(true);
+    const { error } = await ClockService.setKioskPin(kioskPin);
+    setSavingPin(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    setKioskPin('');
+    toast.success('Kiosk PIN saved');
+    refreshWorker();
+  };
+
   if (workerLoading) return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center">
       <div className="animate-pulse">Loading...</div>
@@ -94,6 +114,38 @@ export default function Profile() {
           </div>
         </div>
 
+        {/* Kiosk PIN */}
+        <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+          <div className="flex items-center space-x-2 mb-1">
+            <KeyRound className="h-5 w-5 text-gray-600" />
+            <h3 className="font-semibold text-gray-900">Kiosk PIN</h3>
+          </div>
+          <p className="text-sm text-gray-600 mb-3">
+            {worker?.kiosk_pin_hash
+              ? 'Your PIN is set. Enter a new one to change it.'
+              : 'Set a 4 to 8 digit PIN to clock in on a site kiosk tablet.'}
+          </p>
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              placeholder="New PIN"
+              value={kioskPin}
+              onChange={(e) => setKioskPin(e.target.value.replace(/\D/g, ''))}
+            />
+            <button
+              onClick={handleSaveKioskPin}
+              disabled={savingPin || kioskPin.length < 4}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              {savingPin && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+
         {/* Quick Actions */}
         <div className="space-y-3">
           <button
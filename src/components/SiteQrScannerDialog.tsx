@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { QrCode } from "lucide-react";
+
+// Scan the site QR code with the rear camera, or type the short code printed under it.
+// Scanning uses the browser's BarcodeDetector; where that isn't available (older iOS)
+// only the typed code is offered.
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const BarcodeDetectorApi = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 400;
+
+interface SiteQrScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (code: string) => void;
+  jobName: string;
+}
+
+export default function SiteQrScannerDialog({ open, onOpenChange, onScan, jobName }: SiteQrScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [shortCode, setShortCode] = useState("");
+  const [cameraError, setCameraError] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setShortCode("");
+    setCameraError(false);
+    if (!BarcodeDetectorApi) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | null = null;
+    let cancelled = false;
+    const detector = new BarcodeDetectorApi({ formats: ["qr_code"] });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        const codes = await detector.detect(video);
+        const found = codes.find((c) => c.rawValue.startsWith("autotime-site:"));
+        if (found && !cancelled) {
+          onScanRef.current(found.rawValue);
+          return;
+        }
+      } catch (error) {
+        console.error("QR detect error:", error);
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (s) => {
+        stream = s;
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = s;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch((error) => {
+        console.error("QR camera error:", error);
+        setCameraError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            Scan Site QR
+          </DialogTitle>
+          <DialogDescription>Scan the QR code on the site noticeboard at {jobName}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {BarcodeDetectorApi && !cameraError ? (
+            <video ref={videoRef} className="w-full aspect-square object-cover rounded-lg bg-black" muted playsInline />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {cameraError ? "The camera couldn't be opened." : "This phone can't scan QR codes in the app."} Enter the
+              code printed under the QR instead.
+            </p>
+          )}
+
+          <div>
+            <Label htmlFor="site-qr-code">Code</Label>
+            <Input
+              id="site-qr-code"
+              autoComplete="off"
+              placeholder="ABCD-1234"
+              value={shortCode}
+              onChange={(e) => setShortCode(e.target.value.toUpperCase())}
+              className="font-mono tracking-widest"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onScan(shortCode)} disabled={shortCode.replace(/[^0-9A-F]/g, "").length !== 8}>
+            Use Code
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
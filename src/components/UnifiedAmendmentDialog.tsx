@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { format, parseISO } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
+import { UK_TIMEZONE } from '@shared/shiftTime';
 import { Clock, AlertCircle } from 'lucide-react';
 import {
   Dialog,
@@ -25,8 +26,6 @@ import {
   isOvertimeRequestPayload,
 } from '@/types/amendment';
 
-const UK_TIMEZONE = 'Europe/London';
-
 // OT hours options (0.5 increments up to 3 hours)
 const OT_HOURS_OPTIONS = [0.5, 1.0, 1.5, 2.0, 2.5, 3.0];
 
@@ -311,7 +310,7 @@ export default function UnifiedAmendmentDialog({
               </div>
               
               <p className="text-xs text-muted-foreground">
-                Both times must be on the same day. Clock out must be after clock in.
+                Clock out must be after clock in. For night shifts, clock out is on the next day.
               </p>
             </div>
           )}
@@ -1,6 +1,13 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
+import {
+  ORGANIZATION_SHIFT_COLUMNS,
+  WORKER_SCHEDULE_EMBEDS,
+  type OrganizationShift,
+  type ShiftOverride,
+  type WeeklyShift,
+} from '@shared/shiftTime';
 
 interface Worker {
   id: string;
@@ -20,13 +27,17 @@ interface Worker {
   must_change_password: boolean;
   first_login_info_dismissed: boolean;
   pwa_install_info_dismissed: boolean;
+  can_clock_crew?: boolean;
+  kiosk_pin_hash?: string | null; // Only whether it is set matters to the app
   shift_start: string;
   shift_end: string;
   shift_days: number[];
-  organizations?: {
+  weekly_shifts?: WeeklyShift[];
+  shift_overrides?: ShiftOverride[];
+  organizations?: ({
     name: string;
     logo_url: string | null;
-  } | null;
+  } & OrganizationShift) | null;
 }
 
 interface WorkerContextType {
@@ -50,6 +61,9 @@ interface WorkerProviderProps {
   children: ReactNode;
 }
 
+// The kiosk tablet and the site QR print page
+const SESSIONLESS_ROUTES = ['/kiosk', '/site-qr'];
+
 export const WorkerProvider: React.FC<WorkerProviderProps> = ({ children }) => {
   const [worker, setWorker] = useState<Worker | null>(null);
   const [loading, setLoading] = useState(true);
@@ -57,6 +71,12 @@ export const WorkerProvider: React.FC<WorkerProviderProps> = ({ children }) => {
   const navigate = useNavigate();
 
   const fetchWorker = async () => {
+    // Site devices run without a worker session - and a manager signs in on them for set-up
+    if (SESSIONLESS_ROUTES.some((route) => window.location.pathname.startsWith(route))) {
+      setLoading(false);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -72,7 +92,7 @@ export const WorkerProvider: React.FC<WorkerProviderProps> = ({ children }) => {
       // Try to fetch worker with organization in one query
       let { data: workerData, error: workerError } = await supabase
         .from('workers')
-        .select('*, organizations!organization_id(name, logo_url)')
+        .select(`*, organizations!organization_id(name, logo_url, ${ORGANIZATION_SHIFT_COLUMNS}), ${WORKER_SCHEDULE_EMBEDS}`)
         .eq('email', user.email)
         .maybeSingle();
 
@@ -83,7 +103,7 @@ export const WorkerProvider: React.FC<WorkerProviderProps> = ({ children }) => {
         // Fetch worker without organization
         const { data: basicWorker, error: basicError } = await supabase
           .from('workers')
-          .select('*')
+          .select(`*, ${WORKER_SCHEDULE_EMBEDS}`)
           .eq('email', user.email)
           .maybeSingle();
 
@@ -94,7 +114,7 @@ export const WorkerProvider: React.FC<WorkerProviderProps> = ({ children }) => {
         // Fetch organization separately
         const { data: org } = await supabase
           .from('organizations')
-          .select('name, logo_url')
+          .select(`name, logo_url, ${ORGANIZATION_SHIFT_COLUMNS}`)
           .eq('id', basicWorker.organization_id)
           .maybeSingle();
 
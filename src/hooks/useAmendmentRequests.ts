@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { format, parseISO } from 'date-fns';
 import { formatInTimeZone } from 'date-fns-tz';
+import { MAX_SHIFT_HOURS, UK_TIMEZONE } from '@shared/shiftTime';
 import {
   AmendmentRequest,
   AmendmentRequestType,
@@ -10,8 +11,6 @@ import {
   OvertimeRequestPayload,
 } from '@/types/amendment';
 
-const UK_TIMEZONE = 'Europe/London';
-
 interface SubmitAmendmentParams {
   workerId: string;
   clockEntryId: string;
@@ -124,17 +123,16 @@ export function useAmendmentRequests() {
         // Validate times
         const clockInDate = new Date(newClockIn);
         const clockOutDate = new Date(newClockOut);
-        const clockInDay = format(clockInDate, 'yyyy-MM-dd');
-        const clockOutDay = format(clockOutDate, 'yyyy-MM-dd');
 
-        if (clockInDay !== clockOutDay) {
-          toast.error('Clock in and clock out must be on the same day');
+        if (clockOutDate <= clockInDate) {
+          toast.error('Clock out time must be after clock in time');
           setLoading(false);
           return false;
         }
 
-        if (clockOutDate <= clockInDate) {
-          toast.error('Clock out time must be after clock in time');
+        // Night shifts finish the next day, so only the length is limited
+        if (clockOutDate.getTime() - clockInDate.getTime() > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+          toast.error(`A shift can't be longer than ${MAX_SHIFT_HOURS} hours`);
           setLoading(false);
           return false;
         }
@@ -256,14 +254,14 @@ export function useAmendmentRequests() {
         const clockInDate = new Date(newClockIn!);
         const clockOutDate = new Date(newClockOut!);
 
-        if (format(clockInDate, 'yyyy-MM-dd') !== format(clockOutDate, 'yyyy-MM-dd')) {
-          toast.error('Clock in and clock out must be on the same day');
+        if (clockOutDate <= clockInDate) {
+          toast.error('Clock out time must be after clock in time');
           setLoading(false);
           return false;
         }
 
-        if (clockOutDate <= clockInDate) {
-          toast.error('Clock out time must be after clock in time');
+        if (clockOutDate.getTime() - clockInDate.getTime() > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+          toast.error(`A shift can't be longer than ${MAX_SHIFT_HOURS} hours`);
           setLoading(false);
           return false;
         }
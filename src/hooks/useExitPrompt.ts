@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import type { ExitPromptResponse } from '@/services/clockService';
+import { ExitPrompt, ExitPromptState, EXIT_PROMPT_MESSAGE } from '@/services/exitPrompt';
+import { LocationTracker } from '@/services/locationTracker';
+import { LocationUploadBuffer } from '@/services/locationUploadBuffer';
+
+// The still-on-site prompt for the open clock entry, and answering it - from the banner, or
+// from the notification's actions (public/sw.js posts them to an open clock screen, or opens
+// one with the answer in the URL).
+export function useExitPrompt(clockEntryId: string | null, onClockedOut?: () => void) {
+  const [prompt, setPrompt] = useState<ExitPromptState | null>(ExitPrompt.get());
+  const [responding, setResponding] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const onClockedOutRef = useRef(onClockedOut);
+  onClockedOutRef.current = onClockedOut;
+  const handledUrl = useRef(false);
+
+  useEffect(() => ExitPrompt.subscribe(setPrompt), []);
+
+  const respondTo = useCallback(async (target: ExitPromptState, response: ExitPromptResponse) => {
+    setResponding(true);
+    try {
+      const { entry: status, error } = await ExitPrompt.respond(target, response);
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      if (status === 'clocked_out') {
+        const exitTime = new Date(target.exit_detected_at).toLocaleTimeString('en-GB', {
+          hour: '2-digit',
+          minute: '2-digit',
+        });
+        toast.success(`Clocked out at ${exitTime}, when you left the site`);
+        onClockedOutRef.current?.();
+      } else if (status === 'already_clocked_out') {
+        toast.info('This shift has already been clocked out');
+        onClockedOutRef.current?.();
+      } else if (status === 'not_in_grace') {
+        toast.info("You're showing as back on site - clock out as usual when you leave");
+      } else if (!LocationTracker.getState().active) {
+        // Opened from the notification - the tracker takes a precise fix as soon as it starts
+        toast.success("Thanks - we'll check your location again in a moment");
+      } else if (await LocationTracker.requestFix()) {
+        // Send the fresh fix now - a good one inside the fence ends the grace period
+        await LocationUploadBuffer.flush();
+        toast.success("Thanks - we've checked your location again");
+      } else {
+        toast.warning("Couldn't get a fresh location fix. Turn on location, or scan the site QR code.");
+      }
+    } finally {
+      setResponding(false);
+    }
+  }, []);
+
+  // Tapped in the notification while the clock screen was open
+  useEffect(() => {
+    const handleSWMessage = (event: MessageEvent) => {
+      if (event.data?.type !== EXIT_PROMPT_MESSAGE) return;
+      const target: ExitPromptState = {
+        clock_entry_id: event.data.clock_entry_id,
+        exit_event_id: event.data.exit_event_id,
+        exit_detected_at: event.data.exit_detected_at,
+      };
+      ExitPrompt.show(target);
+      if (event.data.response) respondTo(target, event.data.response);
+    };
+
+    navigator.serviceWorker?.addEventListener('message', handleSWMessage);
+    return () => navigator.serviceWorker?.removeEventListener('message', handleSWMessage);
+  }, [respondTo]);
+
+  // ...or opened the app from it
+  useEffect(() => {
+    const entryId = searchParams.get('exit_prompt');
+    const exitEventId = searchParams.get('exit_event');
+    const exitAt = searchParams.get('exit_at');
+    if (handledUrl.current || !entryId || !exitEventId || !exitAt) return;
+    handledUrl.current = true;
+
+    const target: ExitPromptState = { clock_entry_id: entryId, exit_event_id: exitEventId, exit_detected_at: exitAt };
+    const response = searchParams.get('exit_response');
+    setSearchParams({}, { replace: true });
+    ExitPrompt.show(target);
+    if (response === 'still_on_site' || response === 'left') respondTo(target, response);
+  }, [searchParams, setSearchParams, respondTo]);
+
+  const current = prompt && prompt.clock_entry_id === clockEntryId ? prompt : null;
+
+  return {
+    prompt: current,
+    responding,
+    // Answers the prompt being shown
+    respond: (response: ExitPromptResponse) => (current ? respondTo(current, response) : Promise.resolve()),
+  };
+}
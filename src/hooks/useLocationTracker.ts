@@ -0,0 +1,35 @@
+import { useState, useEffect, useRef } from 'react';
+import { LocationTracker, LocationTrackerState, TrackedFix, TrackerMode } from '@/services/locationTracker';
+import type { GeofenceJob } from '@shared/geofence';
+
+// Runs the adaptive location tracker while `trackingKey` is set (e.g. the open clock entry id)
+// and stops it when it clears. Re-renders never restart the watch - only a new key does.
+export function useLocationTracker(
+  trackingKey: string | null,
+  job: GeofenceJob | null,
+  send: (fix: TrackedFix, intervalMs: number, mode: TrackerMode) => void,
+  accuracyPassM?: number
+): LocationTrackerState {
+  const [state, setState] = useState<LocationTrackerState>(LocationTracker.getState());
+  const sendRef = useRef(send);
+  sendRef.current = send;
+
+  useEffect(() => LocationTracker.subscribe(setState), []);
+
+  useEffect(() => {
+    if (!trackingKey) {
+      LocationTracker.stop();
+      return;
+    }
+    LocationTracker.start({
+      key: trackingKey,
+      job,
+      send: (fix, intervalMs, mode) => sendRef.current(fix, intervalMs, mode),
+      accuracyPassM,
+    });
+  }, [trackingKey, job, accuracyPassM]);
+
+  useEffect(() => () => LocationTracker.stop(), []);
+
+  return state;
+}
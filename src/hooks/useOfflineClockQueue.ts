@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import {
+  OfflineClockQueue,
+  QueuedClockAction,
+  CLOCK_QUEUE_REPLAY_MESSAGE,
+} from '@/services/offlineClockQueue';
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+// Tracks clock actions captured without signal and replays them when the connection returns
+export function useOfflineClockQueue(workerId: string | undefined, onSynced?: () => void) {
+  const [pendingActions, setPendingActions] = useState<QueuedClockAction[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  // Parked actions stay in the queue (and on the banner) until amended - only toast each once
+  const reportedFailuresRef = useRef(new Set<string>());
+
+  const refreshPending = useCallback(async () => {
+    if (!workerId) return [];
+    try {
+      const actions = await OfflineClockQueue.getAll(workerId);
+      setPendingActions(actions);
+      return actions;
+    } catch (error) {
+      console.error('Error reading offline clock queue:', error);
+      return [];
+    }
+  }, [workerId]);
+
+  const syncNow = useCallback(async () => {
+    if (!workerId || !navigator.onLine) return;
+
+    const queued = await refreshPending();
+    if (queued.length === 0) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await OfflineClockQueue.replay(workerId);
+
+      if (result.synced > 0) {
+        toast.success(`${result.synced} offline clock action(s) synced`, {
+          description: 'Your manager will check the times before they count towards your hours.',
+        });
+        onSyncedRef.current?.();
+      }
+      if (result.failed > 0) {
+        const newlyFailed = (await OfflineClockQueue.getAll(workerId)).filter(
+          (action) => action.failed && !reportedFailuresRef.current.has(action.id)
+        );
+        newlyFailed.forEach((action) => reportedFailuresRef.current.add(action.id));
+        if (newlyFailed.length > 0) {
+          toast.error(`${newlyFailed.length} offline clock action(s) could not be synced. Please submit an amendment.`);
+        }
+      }
+    } catch (error) {
+      console.error('Error replaying offline clock queue:', error);
+    } finally {
+      setIsSyncing(false);
+      await refreshPending();
+    }
+  }, [workerId, refreshPending]);
+
+  const enqueue = useCallback(async (
+    action: Omit<QueuedClockAction, 'id' | 'queued_at' | 'attempts'>
+  ) => {
+    const queued = await OfflineClockQueue.enqueue(action);
+    await refreshPending();
+    return queued;
+  }, [refreshPending]);
+
+  // Initial load + replay anything left over from a previous session
+  useEffect(() => {
+    refreshPending();
+    syncNow();
+  }, [refreshPending, syncNow]);
+
+  // Replay on reconnect, or when the service worker's background sync fires
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleSWMessage = (event: MessageEvent) => {
+      if (event.data?.type === CLOCK_QUEUE_REPLAY_MESSAGE) {
+        syncNow();
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleSWMessage);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleSWMessage);
+    };
+  }, [syncNow]);
+
+  // Requests can fail while the browser still reports itself online (e.g. captive Wi-Fi),
+  // so keep retrying while anything is queued
+  useEffect(() => {
+    if (pendingActions.length === 0) return;
+    const interval = window.setInterval(() => {
+      if (navigator.onLine) syncNow();
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingActions.length, syncNow]);
+
+  return {
+    pendingActions,
+    pendingCount: pendingActions.length,
+    failedCount: pendingActions.filter((a) => a.failed).length,
+    isSyncing,
+    isOnline,
+    enqueue,
+    syncNow,
+    refreshPending,
+  };
+}
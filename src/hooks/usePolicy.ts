@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { DEFAULT_POLICY, Policy, resolvePolicy } from '@shared/policy';
+import { ClockService } from '@/services/clockService';
+
+// The organisation's timing and geofence rules - with the job's overrides once clocked in -
+// for what the app decides on the device. The last answer per job is kept, so it still
+// applies offline; the defaults until there is one.
+const STORAGE_KEY = 'organization_policies';
+
+function readStored(): Record<string, Policy> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function getStored(key: string): Policy {
+  const stored = readStored()[key];
+  return stored ? resolvePolicy(stored) : DEFAULT_POLICY;
+}
+
+export function usePolicy(jobId: string | null = null): Policy {
+  const key = jobId ?? '';
+  const [policy, setPolicy] = useState<Policy>(() => getStored(key));
+
+  useEffect(() => {
+    let cancelled = false;
+    setPolicy(getStored(key));
+
+    ClockService.getPolicy(jobId).then(({ entry, error }) => {
+      if (cancelled) return;
+      if (error || !entry) {
+        if (error) console.warn('Could not load policy, using the last known:', error.message);
+        return;
+      }
+
+      const loaded = resolvePolicy(entry);
+      setPolicy(loaded);
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStored(), [key]: loaded }));
+      } catch {
+        // Storage full - it's only a cache
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, key]);
+
+  return policy;
+}
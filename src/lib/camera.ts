@@ -0,0 +1,78 @@
+// Full-screen front-camera capture for clock photos, shared by the clock screen and
+// the site kiosk. Resolves to a 640x480 JPEG once the worker taps the button.
+export async function captureClockPhoto(): Promise<Blob> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: {
+      facingMode: "user",
+      width: { ideal: 640 },
+      height: { ideal: 480 },
+    },
+  });
+
+  const video = document.createElement("video");
+  video.srcObject = stream;
+  video.style.position = "fixed";
+  video.style.top = "0";
+  video.style.left = "0";
+  video.style.width = "100%";
+  video.style.height = "100%";
+  video.style.objectFit = "cover";
+  video.style.zIndex = "9999";
+  video.style.backgroundColor = "black";
+  document.body.appendChild(video);
+
+  await video.play();
+
+  // Add capture button
+  const captureBtn = document.createElement("button");
+  captureBtn.innerHTML = "📸 Take Photo";
+  captureBtn.style.position = "fixed";
+  captureBtn.style.bottom = "20px";
+  captureBtn.style.left = "50%";
+  captureBtn.style.transform = "translateX(-50%)";
+  captureBtn.style.zIndex = "10000";
+  captureBtn.style.padding = "16px 32px";
+  captureBtn.style.backgroundColor = "#3B82F6";
+  captureBtn.style.color = "white";
+  captureBtn.style.border = "none";
+  captureBtn.style.borderRadius = "24px";
+  captureBtn.style.fontSize = "18px";
+  captureBtn.style.fontWeight = "600";
+  captureBtn.style.cursor = "pointer";
+  document.body.appendChild(captureBtn);
+
+  return new Promise((resolve, reject) => {
+    captureBtn.onclick = () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = 640;
+        canvas.height = 480;
+        const ctx = canvas.getContext("2d");
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, 640, 480);
+        }
+
+        canvas.toBlob(
+          (blob) => {
+            stream.getTracks().forEach((track) => track.stop());
+            document.body.removeChild(video);
+            document.body.removeChild(captureBtn);
+
+            if (blob) {
+              resolve(blob);
+            } else {
+              reject(new Error("Failed to capture photo"));
+            }
+          },
+          "image/jpeg",
+          0.8,
+        );
+      } catch (error) {
+        stream.getTracks().forEach((track) => track.stop());
+        document.body.removeChild(video);
+        document.body.removeChild(captureBtn);
+        reject(error);
+      }
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import { GeofenceJob, isGeofenceDisabled, measureGeofence } from '@shared/geofence';
+
+// Ordering for the clock-in job picker: the site the worker is standing on, then the
+// sites they used most recently, then everything else nearest first.
+
+const MAX_RECENT_JOBS = 3;
+
+export interface PickerJob extends GeofenceJob {
+  id: string;
+  name: string;
+}
+
+export interface RankedJob<T extends PickerJob> {
+  job: T;
+  distance: number | null; // Metres to the site boundary, 0 when inside; null without a fix
+  onSite: boolean;
+  recent: boolean;
+}
+
+const recentJobsKey = (workerId: string) => `recent_jobs_${workerId}`;
+
+export function getRecentJobIds(workerId: string): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(recentJobsKey(workerId)) || '[]');
+    return Array.isArray(stored) ? stored.filter((id) => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Most recent first
+export function recordRecentJob(workerId: string, jobId: string): string[] {
+  const recent = [jobId, ...getRecentJobIds(workerId).filter((id) => id !== jobId)].slice(0, MAX_RECENT_JOBS);
+  localStorage.setItem(recentJobsKey(workerId), JSON.stringify(recent));
+  return recent;
+}
+
+export function rankJobs<T extends PickerJob>(
+  jobs: T[],
+  location: { lat: number; lng: number } | null,
+  recentJobIds: string[],
+): RankedJob<T>[] {
+  const ranked = jobs.map((job) => {
+    const recent = recentJobIds.includes(job.id);
+    if (!location) return { job, distance: null, onSite: false, recent };
+
+    const measurement = measureGeofence(job, location.lat, location.lng);
+    // Circle distances are from the centre - report how far outside the fence instead
+    const distance = measurement.inside ? 0 : Math.max(0, measurement.distance - measurement.radius);
+    // A job with its geofence switched off has no "site" to be standing on
+    return { job, distance, onSite: measurement.inside && !isGeofenceDisabled(job), recent };
+  });
+
+  const rank = (r: RankedJob<T>) => (r.onSite ? 0 : r.recent ? 1 : 2);
+  return ranked.sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      (a.recent && b.recent ? recentJobIds.indexOf(a.job.id) - recentJobIds.indexOf(b.job.id) : 0) ||
+      (a.distance ?? Infinity) - (b.distance ?? Infinity) ||
+      a.job.name.localeCompare(b.job.name),
+  );
+}
+
+export function formatJobDistance(ranked: Pick<RankedJob<PickerJob>, 'distance' | 'onSite'>): string | null {
+  if (ranked.onSite) return 'On site';
+  if (ranked.distance === null) return null;
+  return ranked.distance < 1000 ? `${Math.round(ranked.distance)} m` : `${(ranked.distance / 1000).toFixed(1)} km`;
+}
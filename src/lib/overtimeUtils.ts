@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_POLICY } from '@shared/policy';
 
 export async function mergeOvertimeHours(otEntryId: string): Promise<boolean> {
   try {
@@ -71,8 +72,9 @@ export function calculateOvertimeHours(clockIn: string, clockOut: string): numbe
   return diffMs / (1000 * 60 * 60); // Convert to hours
 }
 
-export function isWithinOvertimeLimit(hours: number): boolean {
-  return hours <= 3;
+// The limit is the organisation's max_ot_hours - see usePolicy
+export function isWithinOvertimeLimit(hours: number, maxHours: number = DEFAULT_POLICY.max_ot_hours): boolean {
+  return hours <= maxHours;
 }
 
 export function formatOvertimeStatus(status: string | null): string {
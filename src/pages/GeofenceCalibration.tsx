@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ManagerSignInForm from "@/components/ManagerSignInForm";
+import { Download, Loader2, LogOut, Radar } from "lucide-react";
+import { toast } from "sonner";
+import { calibrationToCsv, MIN_CALIBRATION_FIXES, MIN_CALIBRATION_SHIFTS, type JobCalibration } from "@shared/geofenceCalibration";
+import { ClockService, type GeofenceCalibrationReport } from "@/services/clockService";
+
+// How well each job's geofence fits where workers actually are: a manager signs in, reads the
+// per-job figures and downloads them as CSV. Changing a radius is still done on the job itself.
+
+const PERIODS = [30, 60, 90];
+
+const percent = (share: number | null | undefined) => (share == null ? "-" : `${Math.round(share * 100)}%`);
+const metres = (value: number | null | undefined) => (value == null ? "-" : `${Math.round(value)} m`);
+
+function JobCard({ job }: { job: JobCalibration }) {
+  const d = job.distances;
+  const fence = job.mode === "circle" ? "Radius" : "Edge";
+  const thresholdLabel = job.mode === "circle" ? "Safe-out" : "Safe-out buffer";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h2 className="font-semibold text-gray-900">{job.job_code ? `${job.job_code} - ${job.job_name}` : job.job_name}</h2>
+          <p className="text-xs text-gray-500">
+            {job.mode === "circle" ? "Circle" : "Site zones"} · {job.shifts} shifts · {job.fixes} good fixes
+          </p>
+        </div>
+        {job.centre_misplaced && <Badge variant="destructive">Centre off</Badge>}
+        {!job.enough_data && <Badge variant="secondary">Not enough data</Badge>}
+      </div>
+
+      {d && (
+        <div className="space-y-1">
+          {/* Where in-shift fixes fell: inside the fence, in the margin before safe-out, beyond it */}
+          <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+            <div className="bg-green-500" style={{ width: `${d.inside * 100}%` }} />
+            <div className="bg-amber-400" style={{ width: `${d.margin * 100}%` }} />
+            <div className="bg-red-500" style={{ width: `${d.beyond * 100}%` }} />
+          </div>
+          <p className="text-xs text-gray-600">
+            Inside {percent(d.inside)} · margin {percent(d.margin)} · beyond safe-out {percent(d.beyond)}
+          </p>
+          <p className="text-xs text-gray-600">
+            {job.mode === "circle" ? "From centre" : "Outside edge"}: median {metres(d.p50)} · 90% {metres(d.p90)} · 95%{" "}
+            {metres(d.p95)} · 99% {metres(d.p99)} · max {metres(d.max)}
+          </p>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-700">
+        False exits: {job.exits === 0 ? "no exits" : `${job.false_exits} of ${job.exits} (${percent(job.false_exit_rate)})`}
+      </p>
+
+      <div className="grid grid-cols-3 gap-1 text-sm">
+        <span />
+        <span className="text-gray-500">Now</span>
+        <span className="text-gray-500">Suggested</span>
+        {job.mode === "circle" && (
+          <>
+            <span className="text-gray-500">{fence}</span>
+            <span>{metres(job.current_radius)}</span>
+            <span className="font-semibold">{metres(job.recommended_radius)}</span>
+          </>
+        )}
+        <span className="text-gray-500">{thresholdLabel}</span>
+        <span>{metres(job.current_threshold)}</span>
+        <span className="font-semibold">{metres(job.recommended_threshold)}</span>
+      </div>
+
+      {job.centre_misplaced && job.suggested_centre && (
+        <p className="text-sm text-red-700">
+          Fixes centre {metres(job.centre_offset_m)} from the job's pin. Move it to {job.suggested_centre.latitude},{" "}
+          {job.suggested_centre.longitude} - the suggested radius assumes the new centre.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function GeofenceCalibration() {
+  const [report, setReport] = useState<GeofenceCalibrationReport | null>(null);
+  const [days, setDays] = useState(PERIODS[0]);
+  const [loading, setLoading] = useState(false);
+
+  // Returns false when the manager couldn't be shown the report
+  const loadReport = async (period: number) => {
+    const { entry, error } = await ClockService.getGeofenceCalibration(period);
+    if (error || !entry) {
+      toast.error(error?.message ?? "Failed to load the calibration report");
+      return false;
+    }
+    setReport(entry);
+    return true;
+  };
+
+  const handleSignedIn = async () => {
+    if (!(await loadReport(days))) await supabase.auth.signOut();
+  };
+
+  const handlePeriodChange = async (value: string) => {
+    setDays(Number(value));
+    setLoading(true);
+    try {
+      await loadReport(Number(value));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!report) return;
+    const blob = new Blob([calibrationToCsv(report.jobs)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `geofence-calibration-${report.since.slice(0, 10)}-${report.days}d.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    setReport(null);
+  };
+
+  if (!report) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+        <div className="w-full bg-white rounded-2xl shadow-sm p-6 space-y-4">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Geofence calibration</h1>
+            <p className="text-sm text-gray-600">
+              How well each job's radius fits where workers actually are, from their location history. A manager
+              signs in to view it.
+            </p>
+          </div>
+          <ManagerSignInForm onSignedIn={handleSignedIn} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 space-y-4">
+      <div className="flex items-center gap-2 text-gray-900">
+        <Radar className="h-6 w-6" />
+        <h1 className="text-2xl font-bold">Geofence calibration</h1>
+      </div>
+      <p className="text-sm text-gray-600">
+        From good fixes taken on shift. Suggestions need at least {MIN_CALIBRATION_FIXES} fixes over{" "}
+        {MIN_CALIBRATION_SHIFTS} shifts.
+      </p>
+
+      <div className="flex gap-2">
+        <Select value={String(days)} onValueChange={handlePeriodChange} disabled={loading}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period} value={String(period)}>
+                Last {period} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={handleDownload} disabled={loading || report.jobs.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          CSV
+        </Button>
+        <Button variant="outline" onClick={handleSignOut} aria-label="Sign out">
+          <LogOut className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : report.jobs.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No clock-ins in this period.</p>
+      ) : (
+        report.jobs.map((job) => <JobCard key={job.job_id} job={job} />)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import ManagerJobPicker from "@/components/ManagerJobPicker";
+import { CheckCircle, Clock, CreditCard, KeyRound, Loader2, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { captureClockPhoto } from "@/lib/camera";
+import {
+  ClockService,
+  type ClockFix,
+  type KioskClockResult,
+  type KioskCredential,
+  type KioskIdentity,
+  type KioskRosterWorker,
+  type KioskStatus,
+  type ManagerJob,
+} from "@/services/clockService";
+
+// Shared tablet in a site cabin. The tablet is paired to one job by a manager and keeps
+// only its device token; workers scan a badge or pick their name and enter their PIN, and
+// every action ends back on the idle screen with the worker's details cleared.
+
+const DEVICE_TOKEN_KEY = "kiosk_device_token";
+const IDLE_RESET_MS = 30000; // Back to idle if someone walks away mid-way
+const DONE_RESET_MS = 5000; // How long the confirmation stays up
+
+type KioskStep = "idle" | "identify" | "confirm" | "working" | "done";
+type CredentialMode = "pin" | "badge";
+
+const getKioskFix = (): Promise<ClockFix> =>
+  new Promise((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }),
+      reject,
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 },
+    );
+  });
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+function KioskPairing({ onPaired }: { onPaired: (token: string) => void }) {
+  const [name, setName] = useState("");
+
+  const handlePair = async (job: ManagerJob) => {
+    const { entry, error } = await ClockService.pairKiosk(job.id, name || undefined);
+    if (error || !entry) {
+      toast.error(error?.message ?? "Failed to set up kiosk");
+      return;
+    }
+
+    toast.success(`Kiosk set up for ${entry.job.name}`);
+    onPaired(entry.device_token);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+      <ManagerJobPicker
+        title="Set up site kiosk"
+        description="A manager signs in once to pair this tablet with a job."
+        confirmLabel="Pair Tablet"
+        loadJobs={() => ClockService.listKioskJobs()}
+        onConfirm={handlePair}
+      >
+        <div>
+          <Label htmlFor="kiosk-name">Tablet name (optional)</Label>
+          <Input id="kiosk-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Main cabin" />
+        </div>
+      </ManagerJobPicker>
+    </div>
+  );
+}
+
+export default function Kiosk() {
+  const [deviceToken, setDeviceToken] = useState<string | null>(() => localStorage.getItem(DEVICE_TOKEN_KEY));
+  const [status, setStatus] = useState<KioskStatus | null>(null);
+  const [step, setStep] = useState<KioskStep>("idle");
+  const [mode, setMode] = useState<CredentialMode>("pin");
+  const [credentialValue, setCredentialValue] = useState("");
+  const [roster, setRoster] = useState<KioskRosterWorker[] | null>(null);
+  const [pickedWorker, setPickedWorker] = useState<KioskRosterWorker | null>(null);
+  const [identity, setIdentity] = useState<KioskIdentity | null>(null);
+  const [result, setResult] = useState<KioskClockResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const resetTimerRef = useRef<number | null>(null);
+
+  // Everything about the current worker goes - nothing carries over to the next person
+  const resetToIdle = useCallback(() => {
+    setStep("idle");
+    setMode("pin");
+    setCredentialValue("");
+    setRoster(null);
+    setPickedWorker(null);
+    setIdentity(null);
+    setResult(null);
+    setBusy(false);
+  }, []);
+
+  const forgetDevice = useCallback(() => {
+    localStorage.removeItem(DEVICE_TOKEN_KEY);
+    setDeviceToken(null);
+    setStatus(null);
+    resetToIdle();
+  }, [resetToIdle]);
+
+  useEffect(() => {
+    if (!deviceToken) return;
+
+    ClockService.getKioskStatus(deviceToken).then(({ entry, error }) => {
+      if (error?.code === "kiosk_not_paired") {
+        toast.error(error.message);
+        forgetDevice();
+        return;
+      }
+      setStatus(entry);
+    });
+  }, [deviceToken, forgetDevice]);
+
+  // Lock back to idle after every action, and whenever the screen is left part-way
+  useEffect(() => {
+    if (resetTimerRef.current) window.clearTimeout(resetTimerRef.current);
+    if (step === "idle" || step === "working") return;
+
+    resetTimerRef.current = window.setTimeout(resetToIdle, step === "done" ? DONE_RESET_MS : IDLE_RESET_MS);
+    return () => {
+      if (resetTimerRef.current) window.clearTimeout(resetTimerRef.current);
+    };
+  }, [step, credentialValue, pickedWorker, resetToIdle]);
+
+  const credential = (): KioskCredential =>
+    mode === "pin" ? { worker_id: pickedWorker?.id, pin: credentialValue } : { badge_code: credentialValue.trim() };
+
+  const startIdentify = async () => {
+    if (!deviceToken) return;
+
+    setStep("identify");
+    const { entry, error } = await ClockService.getKioskRoster(deviceToken);
+    if (error) toast.error(error.message);
+    setRoster(entry ?? []);
+  };
+
+  const handleIdentify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deviceToken || !credentialValue || (mode === "pin" && !pickedWorker)) return;
+
+    setBusy(true);
+    const { entry, error } = await ClockService.kioskIdentify(deviceToken, credential());
+    setBusy(false);
+
+    if (error || !entry) {
+      setCredentialValue("");
+      toast.error(error?.message ?? (mode === "pin" ? "PIN not recognised" : "Badge not recognised"));
+      if (error?.code === "clocked_in_elsewhere" || error?.code === "kiosk_locked") resetToIdle();
+      return;
+    }
+
+    setIdentity(entry);
+    setStep("confirm");
+  };
+
+  const handleClock = async () => {
+    if (!deviceToken) return;
+
+    setStep("working");
+    try {
+      const fix = await getKioskFix();
+      const photo = await blobToBase64(await captureClockPhoto());
+      const { entry, error } = await ClockService.kioskClock(deviceToken, credential(), photo, fix);
+
+      if (error || !entry) {
+        toast.error(error?.message ?? "Failed to clock");
+        resetToIdle();
+        return;
+      }
+
+      setCredentialValue("");
+      setResult(entry);
+      setStep("done");
+    } catch (error) {
+      console.error("Kiosk clock error:", error);
+      toast.error(error instanceof GeolocationPositionError ? "Location is unavailable on this tablet" : "Camera access is required");
+      resetToIdle();
+    }
+  };
+
+  const handlePaired = (token: string) => {
+    localStorage.setItem(DEVICE_TOKEN_KEY, token);
+    setDeviceToken(token);
+  };
+
+  if (!deviceToken) {
+    return <KioskPairing onPaired={handlePaired} />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <div className="bg-primary shadow-lg px-4 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-primary-foreground">{status?.job.name ?? "Site kiosk"}</h1>
+          {status && <p className="text-sm text-primary-foreground/80">{status.name}</p>}
+        </div>
+        {step === "idle" && (
+          <button
+            onClick={() => {
+              if (window.confirm("Unpair this tablet? A manager will need to set it up again.")) forgetDevice();
+            }}
+            className="h-9 w-9 flex items-center justify-center text-primary-foreground hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Unpair tablet"
+          >
+            <LogOut className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-6">
+        {step === "idle" && (
+          <button
+            onClick={startIdentify}
+            className="w-full aspect-square max-w-xs rounded-full bg-primary text-primary-foreground flex flex-col items-center justify-center gap-3 shadow-lg"
+          >
+            <Clock className="h-16 w-16" />
+            <span className="text-2xl font-bold">Tap to Clock In / Out</span>
+          </button>
+        )}
+
+        {step === "identify" && (
+          <form onSubmit={handleIdentify} className="w-full bg-white rounded-2xl shadow-sm p-6 space-y-4">
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant={mode === "pin" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => {
+                  setMode("pin");
+                  setPickedWorker(null);
+                  setCredentialValue("");
+                }}
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                PIN
+              </Button>
+              <Button
+                type="button"
+                variant={mode === "badge" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => {
+                  setMode("badge");
+                  setCredentialValue("");
+                }}
+              >
+                <CreditCard className="w-4 h-4 mr-2" />
+                Badge
+              </Button>
+            </div>
+
+            {mode === "pin" && !pickedWorker ? (
+              // Pick a name first - the PIN only has to match that worker
+              <div className="max-h-80 overflow-y-auto grid grid-cols-2 gap-2">
+                {roster === null ? (
+                  <Loader2 className="col-span-2 mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+                ) : roster.length === 0 ? (
+                  <p className="col-span-2 text-center text-gray-500 py-4">
+                    No one on this job has set a kiosk PIN. Set one in your profile, or use your badge.
+                  </p>
+                ) : (
+                  roster.map((worker) => (
+                    <Button key={worker.id} type="button" variant="outline" className="h-12" onClick={() => setPickedWorker(worker)}>
+                      {worker.name}
+                    </Button>
+                  ))
+                )}
+              </div>
+            ) : (
+              <>
+                {pickedWorker && mode === "pin" && (
+                  <p className="text-center text-gray-700">
+                    PIN for <span className="font-semibold">{pickedWorker.name}</span>{" "}
+                    <button
+                      type="button"
+                      className="text-sm text-primary underline"
+                      onClick={() => {
+                        setPickedWorker(null);
+                        setCredentialValue("");
+                      }}
+                    >
+                      Not you?
+                    </button>
+                  </p>
+                )}
+                <Input
+                  autoFocus
+                  type="password"
+                  inputMode={mode === "pin" ? "numeric" : "text"}
+                  autoComplete="off"
+                  placeholder={mode === "pin" ? "Enter your PIN" : "Scan or type your badge code"}
+                  value={credentialValue}
+                  onChange={(e) => setCredentialValue(mode === "pin" ? e.target.value.replace(/\D/g, "") : e.target.value)}
+                  className="text-center text-2xl h-14 tracking-widest"
+                />
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={resetToIdle}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={busy || !credentialValue || (mode === "pin" && !pickedWorker)}
+              >
+                {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Continue
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {step === "confirm" && identity && (
+          <div className="w-full bg-white rounded-2xl shadow-sm p-6 space-y-4 text-center">
+            <h2 className="text-2xl font-bold text-gray-900">Hi {identity.worker_name}</h2>
+            <p className="text-gray-600">
+              {identity.next_action === "clock_in"
+                ? "Take a photo to clock in."
+                : "You're clocked in here. Take a photo to clock out."}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={resetToIdle}>
+                Not me
+              </Button>
+              <Button className="flex-1" onClick={handleClock}>
+                {identity.next_action === "clock_in" ? "Clock In" : "Clock Out"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "working" && <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />}
+
+        {step === "done" && result && (
+          <div className="w-full bg-white rounded-2xl shadow-sm p-6 space-y-3 text-center">
+            <CheckCircle className="h-16 w-16 mx-auto text-green-600" />
+            <h2 className="text-2xl font-bold text-gray-900">
+              {result.action === "clock_in" ? "Clocked in" : "Clocked out"}, {result.worker_name}
+            </h2>
+            <p className="text-gray-600">
+              {new Date(result.time).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}
+              {result.total_hours !== undefined && ` · ${result.total_hours.toFixed(2)} hours`}
+            </p>
+            <Button variant="outline" onClick={resetToIdle}>
+              Done
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
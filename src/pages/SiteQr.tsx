@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import ManagerJobPicker from "@/components/ManagerJobPicker";
+import { Printer, QrCode } from "lucide-react";
+import { toast } from "sonner";
+import { ClockService, type IssuedSiteQr, type ManagerJob } from "@/services/clockService";
+
+// Site QR code for a job, meant to stay up on a screen in the cabin. Codes change daily,
+// so the page fetches the new one at midnight; a printed copy only lasts the day. The
+// short code underneath is for phones whose camera can't read it.
+
+// Fetch the next code just after the current one expires
+const REFRESH_DELAY_MS = 5000;
+
+export default function SiteQr() {
+  const [qr, setQr] = useState<IssuedSiteQr | null>(null);
+
+  const handleIssue = async (job: ManagerJob) => {
+    const { entry, error } = await ClockService.issueSiteQr(job.id);
+    if (error || !entry) {
+      toast.error(error?.message ?? "Failed to create the site QR code");
+      return;
+    }
+    setQr(entry);
+  };
+
+  useEffect(() => {
+    if (!qr) return;
+
+    const delay = Math.max(0, new Date(qr.valid_until).getTime() - Date.now()) + REFRESH_DELAY_MS;
+    const timer = window.setTimeout(async () => {
+      const { entry, error } = await ClockService.issueSiteQr(qr.job.id);
+      if (error || !entry) {
+        toast.error(error?.message ?? "Failed to load today's site QR code");
+        return;
+      }
+      setQr(entry);
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [qr]);
+
+  if (!qr) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+        <ManagerJobPicker
+          title="Show a site QR code"
+          description="Workers scan it to prove they're on site when GPS is poor. A manager signs in to show it."
+          confirmLabel="Create QR Code"
+          loadJobs={() => ClockService.listSiteQrJobs()}
+          onConfirm={handleIssue}
+        />
+      </div>
+    );
+  }
+
+  const changesAt = new Date(qr.valid_until).toLocaleString("en-GB", {
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="min-h-screen bg-white p-6 flex flex-col items-center text-center space-y-4">
+      <div className="flex items-center gap-2 text-gray-900">
+        <QrCode className="h-6 w-6" />
+        <h1 className="text-2xl font-bold">{qr.job.code ? `${qr.job.code} - ${qr.job.name}` : qr.job.name}</h1>
+      </div>
+      <p className="text-gray-600">Scan in the AutoTime app when clocking in or out</p>
+
+      {/* The SVG is generated by the site-qr function from the signed payload */}
+      <div className="w-72 h-72" dangerouslySetInnerHTML={{ __html: qr.svg }} />
+
+      <div>
+        <p className="text-sm text-gray-500">Can't scan? Enter this code</p>
+        <p className="text-3xl font-mono font-bold tracking-widest text-gray-900">{qr.short_code}</p>
+      </div>
+      <p className="text-sm text-gray-500">
+        Valid until {changesAt} - leave this page open and the new code appears by itself
+      </p>
+
+      <div className="flex gap-2 print:hidden">
+        <Button variant="outline" onClick={() => setQr(null)}>
+          Another Job
+        </Button>
+        <Button onClick={() => window.print()}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,18 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { format, startOfWeek, endOfWeek, differenceInMinutes, parseISO, addDays } from 'date-fns';
 import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
-
-const UK_TIMEZONE = 'Europe/London';
-import { Calendar, Clock, Edit2, Plus, ChevronLeft, ChevronRight, AlertCircle, DollarSign, ArrowLeft, Construction, Save, Download, FileText } from 'lucide-react';
+import { getEffectiveSchedule, getShiftDate, type JobShift, MAX_SHIFT_HOURS, UK_TIMEZONE } from '@shared/shiftTime';
+import { filterAssignedJobs, JOB_ASSIGNMENT_EMBED } from '@shared/jobAssignment';
+import { CLOCK_BREAK_EMBED, formatBreaks, getBreakMinutes } from '@shared/breaks';
+import {
+  formatTravelDistance,
+  getPaidTravelHours,
+  getTravelMinutes,
+  TRAVEL_SEGMENT_EMBED,
+  type TravelSegment,
+} from '@shared/travel';
+
+import { Calendar, Clock, Edit2, Plus, ChevronLeft, ChevronRight, AlertCircle, DollarSign, ArrowLeft, Construction, Save, Download, FileText, Car } from 'lucide-react';
 import { toast } from 'sonner';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -20,6 +29,16 @@ import { formatOvertimeStatus, getOvertimeStatusColor } from '@/lib/overtimeUtil
 import UnifiedAmendmentDialog from '@/components/UnifiedAmendmentDialog';
 import { useAmendmentRequests } from '@/hooks/useAmendmentRequests';
 import { AmendmentRequest } from '@/types/amendment';
+import { ClockService } from '@/services/clockService';
+
+// One leg of a shift - a shift split by a site switch has several, sharing shift_id
+interface SiteSegment {
+  clock_in: string;
+  clock_out: string | null;
+  total_hours?: number | null;
+  shift_id?: string | null;
+  jobs?: { name?: string } | null;
+}
 
 // Check if entry is within current calendar week (eligible for expense addition)
 const isEntryInCurrentWeek = (entryDate: string): boolean => {
@@ -99,8 +118,10 @@ export default function Timesheets() {
         .from('clock_entries')
         .select(`
           *,
-          jobs (name, code),
-          additional_costs (amount, description)
+          jobs (name, code, shift_start, shift_end, shift_days),
+          additional_costs (amount, description),
+          ${CLOCK_BREAK_EMBED},
+          ${TRAVEL_SEGMENT_EMBED}
         `)
         .eq('worker_id', contextWorker.id)
         .gte('clock_in', weekStart.toISOString())
@@ -181,17 +202,19 @@ export default function Timesheets() {
     }
   };
 
-  // Fetch jobs for manual entry
+  // Fetch jobs for manual entry - only sites the worker has been assigned to, if any
   const fetchJobs = async () => {
+    if (!contextWorker?.id) return;
     try {
       const { data, error } = await supabase
         .from('jobs')
-        .select('*')
+        .select(`*, ${JOB_ASSIGNMENT_EMBED}`)
         .eq('is_active', true)
+        .eq('job_assignments.worker_id', contextWorker.id)
         .order('name');
       
       if (error) throw error;
-      setJobs(data || []);
+      setJobs(filterAssignedJobs(data || []));
     } catch (error) {
       console.error('Error fetching jobs:', error);
     }
@@ -209,9 +232,17 @@ export default function Timesheets() {
     }
   }, [currentWeek, contextWorker?.id]);
 
-  // Group entries by day
+  // Group entries by shift date, so a night shift (and any OT after it) sits under the day it started.
+  // The site's hours decide the shift where the job sets them. Segments from a site switch
+  // follow the shift's first segment, whichever site's hours they fall under.
+  const getEntryShiftDate = (entry: { clock_in: string; jobs?: JobShift | null }) =>
+    getShiftDate(getEffectiveSchedule(contextWorker, entry.jobs), parseISO(entry.clock_in));
+  const shiftDates: Record<string, string> = {};
+  for (const entry of entries) {
+    if (entry.shift_id && entry.shift_id === entry.id) shiftDates[entry.shift_id] = getEntryShiftDate(entry);
+  }
   const entriesByDay = entries.reduce((acc, entry) => {
-    const day = format(parseISO(entry.clock_in), 'yyyy-MM-dd');
+    const day = (entry.shift_id && shiftDates[entry.shift_id]) || getEntryShiftDate(entry);
     if (!acc[day]) acc[day] = [];
     acc[day].push(entry);
     return acc;
@@ -232,7 +263,11 @@ export default function Timesheets() {
     if (entry.is_overtime && entry.ot_status !== 'approved') {
       return total;
     }
-    return total + calculateHours(entry.clock_in, entry.clock_out, entry.total_hours);
+    // ...and offline clock times a manager hasn't approved
+    if (entry.sync_status && entry.sync_status !== 'approved') {
+      return total;
+    }
+    return total + calculateHours(entry.clock_in, entry.clock_out, entry.total_hours) + getPaidTravelHours(entry.travel_segments);
   }, 0);
 
   // Calculate pay totals
@@ -252,7 +287,18 @@ export default function Timesheets() {
 
   const calculateDayHours = (dayEntries: any[]) => {
     return dayEntries.reduce((total, entry) => 
-      total + calculateHours(entry.clock_in, entry.clock_out, entry.total_hours), 0);
+      total + calculateHours(entry.clock_in, entry.clock_out, entry.total_hours) + getPaidTravelHours(entry.travel_segments), 0);
+  };
+
+  // Hours per site, for days split across jobs by a site switch
+  const calculateDayJobHours = (dayEntries: SiteSegment[]) => {
+    const byJob = new Map<string, number>();
+    if (!dayEntries.some((entry) => entry.shift_id)) return [];
+    for (const entry of dayEntries) {
+      const name = entry.jobs?.name || 'Unknown Job';
+      byJob.set(name, (byJob.get(name) ?? 0) + calculateHours(entry.clock_in, entry.clock_out, entry.total_hours));
+    }
+    return Array.from(byJob.entries());
   };
 
   const calculateDayHoursPay = (dayEntries: any[]) => {
@@ -285,20 +331,17 @@ export default function Timesheets() {
       const clockInDate = new Date(newClockIn);
       const clockOutDate = new Date(newClockOut);
       
-      // Check if dates are the same day
-      const clockInDay = format(clockInDate, 'yyyy-MM-dd');
-      const clockOutDay = format(clockOutDate, 'yyyy-MM-dd');
-      
-      if (clockInDay !== clockOutDay) {
-        toast.error('Invalid date: Clock in and clock out must be on the same day. Please ensure both times are on the same date.');
-        return;
-      }
-      
       // Check if clock out is after clock in
       if (clockOutDate <= clockInDate) {
         toast.error('Invalid hours: New clock out time must be greater than new clock in time. Please select a later clock out time.');
         return;
       }
+
+      // Night shifts finish the next day, so only the length is limited
+      if (clockOutDate.getTime() - clockInDate.getTime() > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+        toast.error(`Invalid hours: A shift can't be longer than ${MAX_SHIFT_HOURS} hours.`);
+        return;
+      }
     }
 
     try {
@@ -535,40 +578,19 @@ export default function Timesheets() {
         return;
       }
 
-      // Check for existing entries on this date
-      const { data: existingEntries, error: checkError } = await supabase
-        .from('clock_entries')
-        .select('*')
-        .eq('worker_id', worker.id)
-        .gte('clock_in', `${manualEntry.date}T00:00:00`)
-        .lte('clock_in', `${manualEntry.date}T23:59:59`);
-
-      if (checkError) throw checkError;
+      // The function checks for an existing entry on the day and works out the hours
+      const { error } = await ClockService.addManualEntry({
+        job_id: manualEntry.job_id,
+        clock_in: clockInDateTime.toISOString(),
+        clock_out: clockOutDateTime.toISOString(),
+        notes: manualEntry.notes || `Manual entry added on ${format(new Date(), 'dd/MM/yyyy')}`
+      });
 
-      if (existingEntries && existingEntries.length > 0) {
-        toast.error('You already have an entry for this date');
-        setSubmittingManual(false);
+      if (error) {
+        toast.error(error.message);
         return;
       }
 
-      // Calculate total hours
-      const totalHours = (clockOutDateTime.getTime() - clockInDateTime.getTime()) / (1000 * 60 * 60);
-
-      // Create the manual entry
-      const { error } = await supabase
-        .from('clock_entries')
-        .insert({
-          worker_id: worker.id,
-          job_id: manualEntry.job_id,
-          clock_in: clockInDateTime.toISOString(),
-          clock_out: clockOutDateTime.toISOString(),
-          total_hours: Math.round(totalHours * 100) / 100,
-          manual_entry: true,
-          notes: manualEntry.notes || `Manual entry added on ${format(new Date(), 'dd/MM/yyyy')}`
-        });
-
-      if (error) throw error;
-
       toast.success('Manual entry added successfully');
       setShowManualEntry(false);
       setManualEntry({
@@ -708,7 +730,9 @@ export default function Timesheets() {
             amount, 
             description,
             expense_types (name)
-          )
+          ),
+          ${CLOCK_BREAK_EMBED},
+          ${TRAVEL_SEGMENT_EMBED}
         `)
         .eq('worker_id', contextWorker.id)
         .gte('clock_in', startDate.toISOString())
@@ -717,8 +741,10 @@ export default function Timesheets() {
 
       if (error) throw error;
       
-      // Filter out pending and rejected OT entries
+      // Filter out pending and rejected OT entries, and offline times not yet approved
       const filteredData = (data || []).filter((entry: any) => {
+        if (entry.sync_status && entry.sync_status !== 'approved') return false;
+
         // Include if it's not an OT entry
         if (!entry.is_overtime) return true;
         
@@ -840,152 +866,199 @@ export default function Timesheets() {
                   <p className="text-sm text-gray-600">
                     {calculateDayHours(dayEntries as any[]).toFixed(2)} hours | £{calculateDayTotalPay(dayEntries as any[]).toFixed(2)}
                   </p>
+                  {(() => {
+                    const jobHours = calculateDayJobHours(dayEntries as SiteSegment[]);
+                    return jobHours.length > 1 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {jobHours.map(([name, hours]) => `${name}: ${hours.toFixed(2)} hrs`).join(' · ')}
+                      </p>
+                    );
+                  })()}
                 </div>
                 
                 <div className="divide-y">
                   {(dayEntries as any[]).map((entry: any) => (
-                    <div key={entry.id} className="p-4">
-                      <div className="flex justify-between items-start">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2">
-                            <p className="font-medium text-gray-900">
-                              {entry.jobs?.name || 'Unknown Job'}
+                    <React.Fragment key={entry.id}>
+                      <div className="p-4">
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium text-gray-900">
+                                {entry.jobs?.name || 'Unknown Job'}
+                              </p>
+                              {entry.is_overtime && (
+                                <Badge 
+                                  variant="secondary" 
+                                  className={getOvertimeStatusColor(entry.ot_status)}
+                                >
+                                  OT: {formatOvertimeStatus(entry.ot_status)}
+                                </Badge>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-600">
+                              {format(new Date(entry.clock_in), 'h:mm a')} - 
+                              {entry.clock_out 
+                                ? format(new Date(entry.clock_out), 'h:mm a')
+                                : 'In Progress'}
+                              {entry.source === 'site_switch' && (
+                                <span className="ml-2 text-xs text-gray-500">Switched site</span>
+                              )}
+                              {entry.source === 'crew' && (
+                                <span className="ml-2 text-xs text-gray-500">Clocked in by foreman</span>
+                              )}
+                              {(entry.proof_method === 'qr' || entry.clock_out_proof_method === 'qr') && (
+                                <span className="ml-2 text-xs text-gray-500">Site QR</span>
+                              )}
+                              {entry.sync_status === 'pending' && (
+                                <span className="ml-2 text-xs text-amber-600">Offline - awaiting approval</span>
+                              )}
+                              {entry.sync_status === 'rejected' && (
+                                <span className="ml-2 text-xs text-red-600">Offline times rejected</span>
+                              )}
                             </p>
-                            {entry.is_overtime && (
-                              <Badge 
-                                variant="secondary" 
-                                className={getOvertimeStatusColor(entry.ot_status)}
-                              >
-                                OT: {formatOvertimeStatus(entry.ot_status)}
-                              </Badge>
+                            {entry.clock_breaks?.length > 0 && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                Breaks: {formatBreaks(entry.clock_breaks, (d) => format(d, 'h:mm a'))}
+                                {' '}({Math.round(entry.clock_out ? Number(entry.break_minutes || 0) : getBreakMinutes(entry.clock_breaks))} min
+                                {Number(entry.unpaid_break_minutes) > 0 && `, ${Math.round(Number(entry.unpaid_break_minutes))} min unpaid`})
+                              </p>
+                            )}
+                            {entry.auto_clocked_out && entry.auto_clockout_reason && (
+                              <p className="text-xs text-orange-600 mt-1 flex items-center gap-1">
+                                <AlertCircle className="h-3 w-3" />
+                                {entry.auto_clockout_reason}
+                              </p>
+                            )}
+                            {entry.additional_costs?.length > 0 && (
+                              <p className="text-sm text-gray-500 mt-1">
+                                Expenses: £{entry.additional_costs.reduce((sum: number, cost: any) => 
+                                  sum + (cost.amount || 0), 0).toFixed(2)}
+                              </p>
                             )}
                           </div>
-                          <p className="text-sm text-gray-600">
-                            {format(new Date(entry.clock_in), 'h:mm a')} - 
-                            {entry.clock_out 
-                              ? format(new Date(entry.clock_out), 'h:mm a')
-                              : 'In Progress'}
-                          </p>
-                          {entry.auto_clocked_out && entry.auto_clockout_reason && (
-                            <p className="text-xs text-orange-600 mt-1 flex items-center gap-1">
-                              <AlertCircle className="h-3 w-3" />
-                              {entry.auto_clockout_reason}
+                          
+                          <div className="text-right">
+                            <p className="font-medium text-gray-900">
+                              {calculateEntryHours(entry)} hrs
                             </p>
-                          )}
-                          {entry.additional_costs?.length > 0 && (
-                            <p className="text-sm text-gray-500 mt-1">
-                              Expenses: £{entry.additional_costs.reduce((sum: number, cost: any) => 
-                                sum + (cost.amount || 0), 0).toFixed(2)}
+                            <p className="text-sm text-gray-600">
+                              £{calculateEntryPay(entry)}
                             </p>
-                          )}
+                            
+                            {/* Amendment Status Badge */}
+                            {getAmendmentForEntry(entry.id) && (
+                              <span className={`inline-block mt-2 px-2 py-1 text-xs rounded-full ${
+                                getAmendmentForEntry(entry.id)?.status === 'approved'
+                                  ? 'bg-green-100 text-green-800'
+                                  : getAmendmentForEntry(entry.id)?.status === 'rejected'
+                                  ? 'bg-red-100 text-red-800'
+                                  : 'bg-yellow-100 text-yellow-800'
+                              }`}>
+                                {getAmendmentForEntry(entry.id)?.status}
+                              </span>
+                            )}
+                          </div>
                         </div>
                         
-                        <div className="text-right">
-                          <p className="font-medium text-gray-900">
-                            {calculateEntryHours(entry)} hrs
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            £{calculateEntryPay(entry)}
-                          </p>
-                          
-                          {/* Amendment Status Badge */}
-                          {getAmendmentForEntry(entry.id) && (
-                            <span className={`inline-block mt-2 px-2 py-1 text-xs rounded-full ${
-                              getAmendmentForEntry(entry.id)?.status === 'approved'
-                                ? 'bg-green-100 text-green-800'
-                                : getAmendmentForEntry(entry.id)?.status === 'rejected'
-                                ? 'bg-red-100 text-red-800'
-                                : 'bg-yellow-100 text-yellow-800'
-                            }`}>
-                              {getAmendmentForEntry(entry.id)?.status}
-                            </span>
-                          )}
-                        </div>
-                      </div>
-                      
-                      {/* Rejection Reason for OT */}
-                      {entry.is_overtime && entry.ot_status === 'rejected' && entry.ot_rejection_reason && (
-                        <div className="mt-2 p-2 bg-red-50 rounded text-xs text-red-700">
-                          <strong>Rejection reason:</strong> {entry.ot_rejection_reason}
-                        </div>
-                      )}
-                      
-                      {/* Action Buttons */}
-                      <div className="mt-3 flex flex-wrap gap-2">
-                        {entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && isEntryInCurrentWeek(entry.clock_in) && (() => {
-                          // Check for new unified amendment requests
-                          const pendingUnifiedRequests = getPendingRequestsForEntry(entry.id);
-                          const hasPendingUnified = pendingUnifiedRequests.length > 0;
-                          
-                          // Also check legacy amendments
-                          const pendingAmendment = getPendingAmendmentForEntry(entry.id);
-                          const amendment = getAmendmentForEntry(entry.id);
-                          
-                          // Show unified dialog button
-                          if (hasPendingUnified) {
+                        {/* Rejection Reason for OT */}
+                        {entry.is_overtime && entry.ot_status === 'rejected' && entry.ot_rejection_reason && (
+                          <div className="mt-2 p-2 bg-red-50 rounded text-xs text-red-700">
+                            <strong>Rejection reason:</strong> {entry.ot_rejection_reason}
+                          </div>
+                        )}
+                        
+                        {/* Action Buttons */}
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && isEntryInCurrentWeek(entry.clock_in) && (() => {
+                            // Check for new unified amendment requests
+                            const pendingUnifiedRequests = getPendingRequestsForEntry(entry.id);
+                            const hasPendingUnified = pendingUnifiedRequests.length > 0;
+                            
+                            // Also check legacy amendments
+                            const pendingAmendment = getPendingAmendmentForEntry(entry.id);
+                            const amendment = getAmendmentForEntry(entry.id);
+                            
+                            // Show unified dialog button
+                            if (hasPendingUnified) {
+                              return (
+                                <button
+                                  onClick={() => {
+                                    setSelectedEntry(entry);
+                                    setShowUnifiedDialog(true);
+                                  }}
+                                  className="text-sm px-3 py-1 bg-blue-100 hover:bg-blue-200 rounded-lg text-blue-700"
+                                >
+                                  Update Request
+                                </button>
+                              );
+                            }
+                            
+                            // Legacy: Show "Update Amendment" if there's a pending legacy amendment
+                            if (pendingAmendment) {
+                              return (
+                                <button
+                                  onClick={() => openAmendmentDialog(entry)}
+                                  className="text-sm px-3 py-1 bg-blue-100 hover:bg-blue-200 rounded-lg text-blue-700"
+                                >
+                                  Update Pending Amendment
+                                </button>
+                              );
+                            }
+                            
+                            // Show new unified "Request Amendment / OT" button
                             return (
                               <button
                                 onClick={() => {
                                   setSelectedEntry(entry);
                                   setShowUnifiedDialog(true);
                                 }}
-                                className="text-sm px-3 py-1 bg-blue-100 hover:bg-blue-200 rounded-lg text-blue-700"
+                                className="text-sm px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-lg text-gray-700"
                               >
-                                Update Request
+                                Request Amendment / OT
                               </button>
                             );
-                          }
+                          })()}
                           
-                          // Legacy: Show "Update Amendment" if there's a pending legacy amendment
-                          if (pendingAmendment) {
-                            return (
-                              <button
-                                onClick={() => openAmendmentDialog(entry)}
-                                className="text-sm px-3 py-1 bg-blue-100 hover:bg-blue-200 rounded-lg text-blue-700"
-                              >
-                                Update Pending Amendment
-                              </button>
-                            );
-                          }
+                          {/* Show locked message for amendments from past weeks */}
+                          {entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && !isEntryInCurrentWeek(entry.clock_in) && (
+                            <span className="text-xs text-muted-foreground italic">
+                              Amendments locked
+                            </span>
+                          )}
                           
-                          // Show new unified "Request Amendment / OT" button
-                          return (
+                          {!entry.additional_costs?.length && entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && isEntryInCurrentWeek(entry.clock_in) && (
                             <button
-                              onClick={() => {
-                                setSelectedEntry(entry);
-                                setShowUnifiedDialog(true);
-                              }}
+                              onClick={() => openExpenseDialog(entry)}
                               className="text-sm px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-lg text-gray-700"
                             >
-                              Request Amendment / OT
+                              Add Expense
                             </button>
-                          );
-                        })()}
-                        
-                        {/* Show locked message for amendments from past weeks */}
-                        {entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && !isEntryInCurrentWeek(entry.clock_in) && (
-                          <span className="text-xs text-muted-foreground italic">
-                            Amendments locked
-                          </span>
-                        )}
-                        
-                        {!entry.additional_costs?.length && entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && isEntryInCurrentWeek(entry.clock_in) && (
-                          <button
-                            onClick={() => openExpenseDialog(entry)}
-                            className="text-sm px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-lg text-gray-700"
-                          >
-                            Add Expense
-                          </button>
-                        )}
-                        
-                        {/* Show locked message for past weeks without expenses */}
-                        {!entry.additional_costs?.length && entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && !isEntryInCurrentWeek(entry.clock_in) && (
-                          <span className="text-xs text-muted-foreground italic">
-                            Expenses locked
-                          </span>
-                        )}
+                          )}
+                          
+                          {/* Show locked message for past weeks without expenses */}
+                          {!entry.additional_costs?.length && entry.clock_out && !(entry.is_overtime && entry.ot_status === 'rejected') && !isEntryInCurrentWeek(entry.clock_in) && (
+                            <span className="text-xs text-muted-foreground italic">
+                              Expenses locked
+                            </span>
+                          )}
+                        </div>
                       </div>
-                    </div>
+                      {/* Travel that led to this entry - listed after it, as the day runs newest first */}
+                      {entry.travel_segments?.map((travel: TravelSegment) => (
+                        <div key={travel.id} className="px-4 py-2 bg-gray-50 flex justify-between items-center">
+                          <div className="flex items-center gap-2 text-sm text-gray-600">
+                            <Car className="h-4 w-4" />
+                            <span>
+                              Travel from {travel.from_job?.name || 'previous site'}
+                              {formatTravelDistance(travel.distance_m) && ` · ${formatTravelDistance(travel.distance_m)}`}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            {getTravelMinutes(travel)} min{travel.is_paid ? '' : ' (unpaid)'}
+                          </p>
+                        </div>
+                      ))}
+                    </React.Fragment>
                   ))}
                 </div>
               </div>
@@ -1022,7 +1095,7 @@ export default function Timesheets() {
               <div>
                 <label className="text-sm font-medium">New Clock In Time (UK Time)</label>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Note: Cannot select future dates. Both times must be on the same day.
+                  Note: Cannot select future dates.
                 </p>
                 <input
                   type="datetime-local"
@@ -1035,7 +1108,7 @@ export default function Timesheets() {
               <div>
                 <label className="text-sm font-medium">New Clock Out Time (UK Time)</label>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Clock out time must be greater than clock in time on the same day.
+                  Clock out time must be greater than clock in time. For night shifts, pick the next day.
                 </p>
                 <input
                   type="datetime-local"
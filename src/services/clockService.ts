@@ -0,0 +1,370 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { SiteQrMode } from '@shared/siteQr';
+import type { Policy } from '@shared/policy';
+import type { JobCalibration } from '@shared/geofenceCalibration';
+
+// Client for the app's edge functions - the only write path for clock entries
+
+export interface ClockFix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface ClockInRequest extends ClockFix {
+  job_id: string;
+  photo_path: string;
+  clocked_at?: string;
+  is_overtime?: boolean;
+  qr_code?: string; // Site QR, as proof of presence where GPS is poor
+  rams_acceptance?: {
+    terms_and_conditions_url: string | null;
+    waiver_url: string | null;
+  };
+}
+
+export interface ClockOutRequest extends ClockFix {
+  clock_entry_id: string;
+  photo_path: string;
+  clocked_at?: string;
+  qr_code?: string;
+}
+
+export interface SwitchSiteRequest extends ClockFix {
+  clock_entry_id: string;
+  job_id: string;
+  rams_acceptance?: ClockInRequest['rams_acceptance'];
+  qr_code?: string;
+}
+
+export interface ManualEntryRequest {
+  job_id: string;
+  clock_in: string;
+  clock_out: string;
+  notes?: string;
+}
+
+export interface ClockBreakRequest {
+  clock_entry_id: string;
+  action: 'start' | 'end';
+}
+
+export interface CrewClockInRequest extends ClockFix {
+  job_id: string;
+  worker_ids: string[];
+  photo_path?: string; // Group photo
+  member_photo_paths?: Record<string, string>; // Or one per member, keyed by worker id
+  qr_code?: string; // Site QR the foreman scanned, where the job lets it replace GPS
+}
+
+export interface CrewMemberOption {
+  id: string;
+  name: string;
+  clocked_in: boolean;
+}
+
+export interface CrewClockInResult {
+  crew_batch_id: string;
+  entries: { id: string; worker_id: string; job_id: string; clock_in: string }[];
+  skipped: { worker_id: string; name: string | null; code: string; reason: string }[];
+}
+
+// Jobs offered to a manager setting up a site device
+export interface ManagerJob {
+  id: string;
+  name: string;
+  code: string | null;
+  qr_mode?: SiteQrMode;
+}
+
+export interface GeofenceCalibrationReport {
+  days: number;
+  since: string;
+  jobs: JobCalibration[];
+}
+
+export interface IssuedSiteQr {
+  job: { id: string; name: string; code: string | null };
+  qr_mode: SiteQrMode;
+  svg: string;
+  short_code: string; // Typed in when the camera can't read the code
+  valid_until: string;
+}
+
+// A worker at a kiosk scans their badge, or picks their name and enters their PIN
+export interface KioskCredential {
+  worker_id?: string;
+  pin?: string;
+  badge_code?: string;
+}
+
+export interface KioskRosterWorker {
+  id: string;
+  name: string; // First name and last initial
+}
+
+export interface KioskStatus {
+  name: string;
+  job: { id: string; name: string };
+}
+
+export interface KioskPairing extends KioskStatus {
+  device_token: string;
+}
+
+export interface KioskIdentity {
+  worker_name: string; // First name only - the screen is shared
+  next_action: 'clock_in' | 'clock_out';
+}
+
+export interface KioskClockResult {
+  worker_name: string;
+  action: 'clock_in' | 'clock_out';
+  time: string;
+  total_hours?: number;
+}
+
+export interface LocationFixUpload {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: string; // When the fix was taken
+  speed?: number | null;
+  sample_interval_s?: number;
+}
+
+// Overall outcome of a batch; not_clocked_in means the fixes can't be used and are dropped
+export type LocationUploadStatus =
+  | 'not_clocked_in'
+  | 'no_fixes'
+  | 'geofence_disabled'
+  | 'clocked_out'
+  | 'rejected_fix'
+  | 'outside_window'
+  | 'no_shift_end'
+  | 'inside_fence'
+  | 'inside_fence_qr'
+  | 'exit_detected'
+  | 'exit_ongoing'
+  | 're_entered';
+
+// The exit that started the entry's current grace period
+export interface PendingExit {
+  exit_event_id: string;
+  exit_detected_at: string;
+}
+
+export interface LocationUploadResult {
+  status: LocationUploadStatus;
+  geofence_state?: 'inside' | 'grace' | 'outside_confirmed' | null;
+  pending_exit?: PendingExit | null;
+}
+
+// Answers to "Are you still on site?"
+export type ExitPromptResponse = 'still_on_site' | 'left';
+
+// recorded: still in grace, waiting on a fresh fix; clocked_out: clocked out at the exit;
+// not_in_grace / already_clocked_out: the exit had already been settled
+export type ExitPromptStatus = 'recorded' | 'clocked_out' | 'not_in_grace' | 'already_clocked_out';
+
+export interface ClockFunctionError {
+  message: string;
+  code: string; // e.g. outside_geofence, already_clocked_in, rams_required, network
+  status?: number;
+  network: boolean;
+  details: Record<string, unknown>;
+}
+
+export interface ClockFunctionResult<T> {
+  entry: T | null;
+  error: ClockFunctionError | null;
+}
+
+export class ClockService {
+
+  static async uploadPhoto(workerId: string, blob: Blob, name: string = Date.now().toString()): Promise<string> {
+    const path = `${workerId}/${name}.jpg`;
+    const { error } = await supabase.storage
+      .from('clock-photos')
+      .upload(path, blob, { upsert: true, contentType: 'image/jpeg' });
+
+    if (error) {
+      console.error('Upload error:', error);
+      throw error;
+    }
+
+    return path;
+  }
+
+  static clockIn<T = Record<string, unknown>>(request: ClockInRequest): Promise<ClockFunctionResult<T>> {
+    return this.invoke<T>('clock-in', request);
+  }
+
+  static clockOut<T = Record<string, unknown>>(request: ClockOutRequest): Promise<ClockFunctionResult<T>> {
+    return this.invoke<T>('clock-out', request);
+  }
+
+  // A complete past shift added from the timesheet
+  static addManualEntry<T = Record<string, unknown>>(request: ManualEntryRequest): Promise<ClockFunctionResult<T>> {
+    return this.invoke<T>('manual-entry', request);
+  }
+
+  // Resolves to the entry's breaks: { id, clock_breaks }
+  static clockBreak<T = Record<string, unknown>>(request: ClockBreakRequest): Promise<ClockFunctionResult<T>> {
+    return this.invoke<T>('clock-break', request);
+  }
+
+  // Resolves to the new segment; the closed one is only needed server-side
+  static switchSite<T = Record<string, unknown>>(request: SwitchSiteRequest): Promise<ClockFunctionResult<T>> {
+    return this.invoke<T>('switch-site', request);
+  }
+
+  // Workers a foreman can pick for a crew clock-in
+  static listCrew(): Promise<ClockFunctionResult<CrewMemberOption[]>> {
+    return this.invoke<CrewMemberOption[]>('crew-clock-in', { action: 'list' }, 'workers');
+  }
+
+  // Members who couldn't be clocked in come back in `skipped` rather than as an error
+  static crewClockIn(request: CrewClockInRequest): Promise<ClockFunctionResult<CrewClockInResult>> {
+    return this.invoke<CrewClockInResult>('crew-clock-in', { action: 'clock_in', ...request }, 'crew');
+  }
+
+  // Active jobs a manager can pair a kiosk to
+  static listKioskJobs(): Promise<ClockFunctionResult<ManagerJob[]>> {
+    return this.invoke<ManagerJob[]>('kiosk', { action: 'list_jobs' }, 'jobs');
+  }
+
+  // Signed in as a manager on the tablet; the token is only ever returned here
+  static pairKiosk(jobId: string, name?: string): Promise<ClockFunctionResult<KioskPairing>> {
+    return this.invoke<KioskPairing>('kiosk', { action: 'pair', job_id: jobId, name }, 'kiosk');
+  }
+
+  static getKioskStatus(deviceToken: string): Promise<ClockFunctionResult<KioskStatus>> {
+    return this.invoke<KioskStatus>('kiosk', { action: 'status', device_token: deviceToken }, 'kiosk');
+  }
+
+  // Who can pick their name at the kiosk: assigned to its job today, with a PIN set
+  static getKioskRoster(deviceToken: string): Promise<ClockFunctionResult<KioskRosterWorker[]>> {
+    return this.invoke<KioskRosterWorker[]>('kiosk', { action: 'roster', device_token: deviceToken }, 'workers');
+  }
+
+  static kioskIdentify(deviceToken: string, credential: KioskCredential): Promise<ClockFunctionResult<KioskIdentity>> {
+    return this.invoke<KioskIdentity>('kiosk', { action: 'identify', device_token: deviceToken, ...credential }, 'kiosk');
+  }
+
+  // Clocks the worker in, or out if they're already clocked in at the kiosk's job
+  static kioskClock(
+    deviceToken: string,
+    credential: KioskCredential,
+    photo: string,
+    fix: ClockFix,
+  ): Promise<ClockFunctionResult<KioskClockResult>> {
+    return this.invoke<KioskClockResult>(
+      'kiosk',
+      { action: 'clock', device_token: deviceToken, ...credential, photo, ...fix },
+      'kiosk',
+    );
+  }
+
+  static setKioskPin(pin: string): Promise<ClockFunctionResult<{ pin_set: boolean }>> {
+    return this.invoke<{ pin_set: boolean }>('kiosk', { action: 'set_pin', pin }, 'kiosk');
+  }
+
+  static listSiteQrJobs(): Promise<ClockFunctionResult<ManagerJob[]>> {
+    return this.invoke<ManagerJob[]>('site-qr', { action: 'list_jobs' }, 'jobs');
+  }
+
+  // Today's code for a job, for the cabin screen
+  static issueSiteQr(jobId: string): Promise<ClockFunctionResult<IssuedSiteQr>> {
+    return this.invoke<IssuedSiteQr>('site-qr', { action: 'issue', job_id: jobId }, 'qr');
+  }
+
+  // Presence scan while clocked in - track-location trusts it over a poor fix for a while
+  static scanSiteQr(clockEntryId: string, code: string): Promise<ClockFunctionResult<{ scanned_at: string; valid_until: string }>> {
+    return this.invoke<{ scanned_at: string; valid_until: string }>(
+      'site-qr',
+      { action: 'scan', clock_entry_id: clockEntryId, code },
+      'scan',
+    );
+  }
+
+  // Fixes for geofence auto clock-out. They are processed in the order they were taken, so a
+  // batch can cover a spell without signal
+  static uploadLocationFixes(
+    workerId: string,
+    clockEntryId: string,
+    fixes: LocationFixUpload[],
+  ): Promise<ClockFunctionResult<LocationUploadResult>> {
+    return this.invoke<LocationUploadResult>(
+      'track-location',
+      { worker_id: workerId, clock_entry_id: clockEntryId, fixes },
+      null,
+    );
+  }
+
+  // The worker's answer to the still-on-site prompt sent at a geofence exit
+  static respondToExitPrompt(
+    clockEntryId: string,
+    exitEventId: string | undefined,
+    response: ExitPromptResponse,
+  ): Promise<ClockFunctionResult<ExitPromptStatus>> {
+    return this.invoke<ExitPromptStatus>(
+      'geofence-exit-response',
+      { clock_entry_id: clockEntryId, exit_event_id: exitEventId, response },
+      'status',
+    );
+  }
+
+  // The organisation's rules, with the job's overrides if one is given
+  static getPolicy(jobId?: string | null): Promise<ClockFunctionResult<Policy>> {
+    return this.invoke<Policy>('get-policy', { job_id: jobId ?? null }, 'policy');
+  }
+
+  // Manager session: how well each job's fence fits, for every job the organisation clocked
+  // in to over the last `days` days
+  static getGeofenceCalibration(days?: number): Promise<ClockFunctionResult<GeofenceCalibrationReport>> {
+    return this.invoke<GeofenceCalibrationReport>('geofence-calibration', { days }, null);
+  }
+
+  // `resultKey` is the field of the function's response to resolve to - null for the whole response
+  private static async invoke<T>(
+    name: string,
+    body: object,
+    resultKey: string | null = 'entry',
+  ): Promise<ClockFunctionResult<T>> {
+    const { data, error } = await supabase.functions.invoke(name, { body });
+
+    if (!error) {
+      return { entry: (resultKey === null ? data : data?.[resultKey]) ?? null, error: null };
+    }
+
+    // Non-2xx: the function's JSON body says what went wrong
+    if (error instanceof FunctionsHttpError) {
+      const response = error.context as Response;
+      const payload = await response.json().catch(() => null);
+      const { error: message, code, ...details } = payload || {};
+      return {
+        entry: null,
+        error: {
+          message: message || `${name} failed`,
+          code: code || 'unknown',
+          status: response.status,
+          network: false,
+          details,
+        },
+      };
+    }
+
+    const network = error instanceof FunctionsFetchError || error instanceof FunctionsRelayError || !navigator.onLine;
+    return {
+      entry: null,
+      error: {
+        message: error.message,
+        code: network ? 'network' : 'unknown',
+        network,
+        details: {},
+      },
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  ClockService,
+  ClockFunctionResult,
+  ExitPromptResponse,
+  ExitPromptStatus,
+  PendingExit,
+} from '@/services/clockService';
+
+// "Are you still on site?" - asked while an entry waits out the grace period after a
+// geofence exit. The app learns about the exit from track-location's answer to an upload,
+// or from the prompt's notification being tapped (public/sw.js). Left unanswered, the
+// grace period runs out and the worker is auto clocked out as before.
+
+// Posted by public/sw.js when the prompt notification (or one of its actions) is tapped
+export const EXIT_PROMPT_MESSAGE = 'GEOFENCE_EXIT_PROMPT';
+
+export interface ExitPromptState extends PendingExit {
+  clock_entry_id: string;
+}
+
+export class ExitPrompt {
+
+  private static current: ExitPromptState | null = null;
+  private static answered = new Set<string>(); // exit_event_ids, so a later upload doesn't ask again
+  private static listeners = new Set<(prompt: ExitPromptState | null) => void>();
+
+  static get(): ExitPromptState | null {
+    return this.current;
+  }
+
+  static subscribe(listener: (prompt: ExitPromptState | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // The entry's exit still in its grace period after an upload, or null once it's settled
+  static update(clockEntryId: string, pendingExit: PendingExit | null) {
+    if (pendingExit) {
+      this.show({ clock_entry_id: clockEntryId, ...pendingExit });
+    } else if (this.current?.clock_entry_id === clockEntryId) {
+      this.set(null);
+    }
+  }
+
+  static show(prompt: ExitPromptState) {
+    if (this.answered.has(prompt.exit_event_id)) return;
+    if (this.current?.exit_event_id === prompt.exit_event_id) return;
+    this.set(prompt);
+  }
+
+  static async respond(
+    prompt: ExitPromptState,
+    response: ExitPromptResponse
+  ): Promise<ClockFunctionResult<ExitPromptStatus>> {
+    const result = await ClockService.respondToExitPrompt(prompt.clock_entry_id, prompt.exit_event_id, response);
+    if (!result.error) {
+      this.answered.add(prompt.exit_event_id);
+      if (this.current?.exit_event_id === prompt.exit_event_id) this.set(null);
+    }
+    return result;
+  }
+
+  private static set(prompt: ExitPromptState | null) {
+    this.current = prompt;
+    this.listeners.forEach((listener) => listener(prompt));
+  }
+}
@@ -0,0 +1,318 @@
+import {
+  calculateDistance,
+  distanceToPolygonEdge,
+  getGeofenceZones,
+  isGeofenceDisabled,
+  pointInPolygon,
+  measureGeofence,
+  ACCURACY_PASS_M,
+  type GeofenceJob,
+} from '@shared/geofence';
+
+// Background location sampling for geofence exit detection. One watchPosition runs at a
+// time; fixes are only sent to track-location as often as the worker's position calls
+// for - quickly near the fence edge or on the move, rarely when settled deep inside the
+// site or when the battery is low.
+
+// Send intervals, by how far the fix is inside the fence edge
+const EDGE_INTERVAL_MS = 30 * 1000; // Outside, or within NEAR_EDGE_M of the edge
+const MID_INTERVAL_MS = 2 * 60 * 1000; // Within FAR_EDGE_M
+const DEEP_INTERVAL_MS = 5 * 60 * 1000;
+const NEAR_EDGE_M = 50;
+const FAR_EDGE_M = 200;
+
+// Walking briskly or faster - the edge can be reached before the next slow sample
+const MOVING_SPEED_MS = 1.5;
+
+// Low battery (and not charging) stretches every interval
+const LOW_BATTERY_LEVEL = 0.2;
+const CRITICAL_BATTERY_LEVEL = 0.1;
+
+// A fix is sent at least this often, moved or not, so the audit trail has no long gaps
+const HEARTBEAT_MS = 10 * 60 * 1000;
+
+// Fixes that moved less than this (or less than half their accuracy) are dropped
+const MIN_MOVE_M = 15;
+
+export type TrackerMode = 'outside' | 'edge' | 'mid' | 'deep';
+
+export interface TrackedFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  speed: number | null; // m/s, when the device reports it
+  timestamp: number; // GPS fix time in milliseconds
+}
+
+export interface LocationTrackerState {
+  active: boolean;
+  mode: TrackerMode | null;
+  intervalMs: number | null;
+  highAccuracy: boolean;
+  batteryLevel: number | null; // 0-1, null when the Battery Status API isn't available
+  batterySaver: boolean;
+  lastSentAt: number | null;
+  sentCount: number;
+  skippedCount: number;
+  error: string | null;
+}
+
+export interface LocationTrackerOptions {
+  key: string; // Restarting with the same key is a no-op - e.g. the clock entry id
+  job: GeofenceJob | null; // Null when the job isn't loaded - sampled as if at the edge
+  send: (fix: TrackedFix, intervalMs: number, mode: TrackerMode) => void;
+  accuracyPassM?: number; // The organisation's policy - ACCURACY_PASS_M until it has loaded
+}
+
+interface BatteryManagerLike extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+const IDLE_STATE: LocationTrackerState = {
+  active: false,
+  mode: null,
+  intervalMs: null,
+  highAccuracy: false,
+  batteryLevel: null,
+  batterySaver: false,
+  lastSentAt: null,
+  sentCount: 0,
+  skippedCount: 0,
+  error: null,
+};
+
+export class LocationTracker {
+
+  private static options: LocationTrackerOptions | null = null;
+  private static watchId: number | null = null;
+  private static heartbeatTimer: number | null = null;
+  private static battery: BatteryManagerLike | null = null;
+  private static lastSent: TrackedFix | null = null;
+  private static state: LocationTrackerState = IDLE_STATE;
+  private static listeners = new Set<(state: LocationTrackerState) => void>();
+
+  static getState(): LocationTrackerState {
+    return this.state;
+  }
+
+  static subscribe(listener: (state: LocationTrackerState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static start(options: LocationTrackerOptions) {
+    if (this.options?.key === options.key) {
+      // Same entry - keep the running watch, but pick up a fresh send callback / job
+      this.options = options;
+      return;
+    }
+
+    this.stop();
+    if (!('geolocation' in navigator)) {
+      this.setState({ error: 'Location is not available on this device' });
+      return;
+    }
+
+    console.log('📍 Starting adaptive location tracking');
+    this.options = options;
+    this.setState({ ...IDLE_STATE, active: true, mode: 'edge', intervalMs: EDGE_INTERVAL_MS });
+    this.watchBattery();
+    // Start precise until the first fix says where we are
+    this.startWatch(true);
+    this.scheduleHeartbeat();
+  }
+
+  static stop() {
+    if (!this.options) return;
+
+    console.log('📍 Stopping location tracking');
+    if (this.watchId !== null) navigator.geolocation.clearWatch(this.watchId);
+    if (this.heartbeatTimer !== null) window.clearTimeout(this.heartbeatTimer);
+    this.battery?.removeEventListener('levelchange', this.handleBatteryChange);
+    this.battery?.removeEventListener('chargingchange', this.handleBatteryChange);
+    this.watchId = null;
+    this.heartbeatTimer = null;
+    this.battery = null;
+    this.options = null;
+    this.lastSent = null;
+    this.setState(IDLE_STATE);
+  }
+
+  // A fresh high-accuracy fix, sent whatever the interval - e.g. when the worker says they're
+  // still on site. False if tracking isn't running or no fix came.
+  static requestFix(): Promise<boolean> {
+    if (!this.options) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          this.handlePosition(position, true);
+          resolve(!!this.options);
+        },
+        (error) => {
+          console.error('Requested location error:', error);
+          this.setState({ error: error.message });
+          resolve(false);
+        },
+        { enableHighAccuracy: true, maximumAge: 0, timeout: 30000 }
+      );
+    });
+  }
+
+  private static setState(patch: Partial<LocationTrackerState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  private static startWatch(highAccuracy: boolean) {
+    if (this.watchId !== null) navigator.geolocation.clearWatch(this.watchId);
+    this.watchId = navigator.geolocation.watchPosition(
+      (position) => this.handlePosition(position),
+      (error) => {
+        console.error('Location tracking error:', error);
+        this.setState({ error: error.message });
+      },
+      { enableHighAccuracy: highAccuracy, maximumAge: 15000, timeout: 60000 }
+    );
+    this.setState({ highAccuracy });
+  }
+
+  // Battery Status API - Chromium only; elsewhere the tracker behaves as if on mains
+  private static async watchBattery() {
+    const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManagerLike> }).getBattery;
+    if (!getBattery) return;
+
+    try {
+      const battery = await getBattery.call(navigator);
+      if (!this.options) return;
+      this.battery = battery;
+      battery.addEventListener('levelchange', this.handleBatteryChange);
+      battery.addEventListener('chargingchange', this.handleBatteryChange);
+      this.handleBatteryChange();
+    } catch (error) {
+      console.error('Battery status unavailable:', error);
+    }
+  }
+
+  private static handleBatteryChange = () => {
+    const battery = LocationTracker.battery;
+    if (!battery) return;
+    LocationTracker.setState({
+      batteryLevel: battery.level,
+      batterySaver: !battery.charging && battery.level <= LOW_BATTERY_LEVEL,
+    });
+  };
+
+  private static getBatteryFactor(): number {
+    const battery = this.battery;
+    if (!battery || battery.charging) return 1;
+    if (battery.level <= CRITICAL_BATTERY_LEVEL) return 3;
+    if (battery.level <= LOW_BATTERY_LEVEL) return 2;
+    return 1;
+  }
+
+  private static getMode(job: GeofenceJob | null, fix: TrackedFix): TrackerMode {
+    if (!job) return 'edge';
+
+    // Nothing to detect without a fence - fixes are only kept for the audit trail
+    if (isGeofenceDisabled(job)) return 'deep';
+
+    const measurement = measureGeofence(job, fix.latitude, fix.longitude);
+    if (!measurement.inside) return 'outside';
+
+    // Metres in from the edge - measureGeofence reads 0 anywhere inside a polygon zone
+    const inset =
+      measurement.mode === 'circle'
+        ? measurement.radius - measurement.distance
+        : Math.max(
+            ...getGeofenceZones(job)
+              .filter((zone) => pointInPolygon(fix.latitude, fix.longitude, zone.points))
+              .map((zone) => distanceToPolygonEdge(fix.latitude, fix.longitude, zone.points))
+          );
+    const fuzzyInset = inset - fix.accuracy;
+    if (fuzzyInset <= NEAR_EDGE_M) return 'edge';
+    return fuzzyInset <= FAR_EDGE_M ? 'mid' : 'deep';
+  }
+
+  private static getInterval(mode: TrackerMode, fix: TrackedFix): number {
+    const moving = (fix.speed ?? 0) >= MOVING_SPEED_MS;
+    const base = moving || mode === 'outside' || mode === 'edge' ? EDGE_INTERVAL_MS : mode === 'mid' ? MID_INTERVAL_MS : DEEP_INTERVAL_MS;
+    return Math.min(base * this.getBatteryFactor(), HEARTBEAT_MS);
+  }
+
+  private static handlePosition(position: GeolocationPosition, force = false) {
+    const options = this.options;
+    if (!options) return;
+
+    const fix: TrackedFix = {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+      speed: position.coords.speed,
+      timestamp: position.timestamp,
+    };
+
+    const mode = this.getMode(options.job, fix);
+    const intervalMs = this.getInterval(mode, fix);
+    // GPS only where an exit is possible; network location is plenty deep inside the site
+    const highAccuracy = mode !== 'deep' && this.getBatteryFactor() < 3;
+    if (highAccuracy !== this.state.highAccuracy) this.startWatch(highAccuracy);
+    this.setState({ mode, intervalMs, error: null });
+
+    if (!force && !this.shouldSend(fix, intervalMs, options.accuracyPassM ?? ACCURACY_PASS_M)) {
+      this.setState({ skippedCount: this.state.skippedCount + 1 });
+      return;
+    }
+    this.sendFix(fix, intervalMs, mode);
+  }
+
+  private static shouldSend(fix: TrackedFix, intervalMs: number, accuracyPassM: number): boolean {
+    const last = this.lastSent;
+    if (!last) return true;
+
+    const elapsed = fix.timestamp - last.timestamp;
+    if (elapsed < intervalMs) return false;
+    if (elapsed >= HEARTBEAT_MS) return true;
+
+    // A fix good enough to confirm an exit is worth sending even if we haven't moved
+    if (fix.accuracy <= accuracyPassM && last.accuracy > accuracyPassM) return true;
+
+    const moved = calculateDistance(last.latitude, last.longitude, fix.latitude, fix.longitude);
+    return moved >= Math.max(MIN_MOVE_M, fix.accuracy / 2);
+  }
+
+  private static sendFix(fix: TrackedFix, intervalMs: number, mode: TrackerMode) {
+    const options = this.options;
+    if (!options) return;
+
+    this.lastSent = fix;
+    this.setState({ lastSentAt: Date.now(), sentCount: this.state.sentCount + 1 });
+    this.scheduleHeartbeat();
+    options.send(fix, intervalMs, mode);
+  }
+
+  // watchPosition goes quiet while the phone sits still, so ask for a fix when nothing has been sent for a while
+  private static scheduleHeartbeat() {
+    if (this.heartbeatTimer !== null) window.clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = window.setTimeout(() => {
+      this.heartbeatTimer = null;
+      if (!this.options) return;
+      navigator.geolocation.getCurrentPosition(
+        (position) => this.handlePosition(position, true),
+        (error) => {
+          console.error('Heartbeat location error:', error);
+          this.scheduleHeartbeat();
+        },
+        { enableHighAccuracy: this.state.highAccuracy, maximumAge: 60000, timeout: 60000 }
+      );
+    }, HEARTBEAT_MS);
+  }
+}
+
+// "30s", "2 min" - for the tracking status line
+export function formatTrackerInterval(intervalMs: number): string {
+  return intervalMs < 60 * 1000 ? `${Math.round(intervalMs / 1000)}s` : `${Math.round(intervalMs / 60000)} min`;
+}
@@ -0,0 +1,133 @@
+import { ClockService, LocationFixUpload } from '@/services/clockService';
+import { ExitPrompt } from '@/services/exitPrompt';
+
+// Location fixes waiting to go to track-location. Fixes are uploaded in batches rather
+// than one request each, and survive a spell without signal (or the app being closed) in
+// localStorage; track-location evaluates a late batch in the order the fixes were taken.
+
+const STORAGE_KEY = 'pending_location_fixes';
+
+// A batch goes when this many fixes are waiting, or when the oldest has waited this long
+const FLUSH_SIZE = 10;
+const FLUSH_DELAY_MS = 2 * 60 * 1000;
+
+// Matches track-location's per-invocation limit
+const UPLOAD_BATCH_SIZE = 500;
+
+// About a full day offline at the fastest sampling rate - beyond that the oldest are dropped
+const MAX_BUFFERED = 3000;
+
+interface BufferedFix extends LocationFixUpload {
+  worker_id: string;
+  clock_entry_id: string;
+}
+
+const fixKey = (fix: BufferedFix) => `${fix.clock_entry_id}:${fix.timestamp}`;
+
+export class LocationUploadBuffer {
+
+  private static flushTimer: number | null = null;
+  private static flushPromise: Promise<void> | null = null;
+  private static listening = false;
+
+  // `urgent` fixes (e.g. outside the fence) are uploaded straight away, taking the backlog with them
+  static add(workerId: string, clockEntryId: string, fix: LocationFixUpload, urgent = false) {
+    const fixes = this.read();
+    fixes.push({ ...fix, worker_id: workerId, clock_entry_id: clockEntryId });
+    this.write(fixes.slice(-MAX_BUFFERED));
+
+    if (urgent || fixes.length >= FLUSH_SIZE) {
+      this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  static flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.upload().finally(() => {
+        this.flushPromise = null;
+        if (this.read().length > 0) this.scheduleFlush();
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private static async upload() {
+    if (this.flushTimer !== null) {
+      window.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!navigator.onLine) return;
+
+    // One request per clock entry (and per UPLOAD_BATCH_SIZE fixes)
+    const groups = new Map<string, BufferedFix[]>();
+    for (const fix of this.read()) {
+      const key = `${fix.worker_id}:${fix.clock_entry_id}`;
+      groups.set(key, [...(groups.get(key) ?? []), fix]);
+    }
+
+    for (const group of groups.values()) {
+      for (let i = 0; i < group.length; i += UPLOAD_BATCH_SIZE) {
+        const batch = group.slice(i, i + UPLOAD_BATCH_SIZE);
+        const { entry: result, error } = await ClockService.uploadLocationFixes(
+          batch[0].worker_id,
+          batch[0].clock_entry_id,
+          batch.map(({ latitude, longitude, accuracy, timestamp, speed, sample_interval_s }) => ({
+            latitude,
+            longitude,
+            accuracy,
+            timestamp,
+            speed,
+            sample_interval_s,
+          }))
+        );
+
+        // Keep the fixes for another try if they didn't arrive; anything the server
+        // answered (even not_clocked_in, or a bad request) won't go better next time
+        if (error && (error.network || (error.status ?? 500) >= 500)) {
+          console.error('Location upload failed, keeping fixes:', error);
+          return;
+        }
+        if (result?.status === 'exit_detected') {
+          console.log('📍 Geofence exit recorded from uploaded fixes');
+        }
+        if (result) {
+          ExitPrompt.update(batch[0].clock_entry_id, result.pending_exit ?? null);
+        }
+
+        const sent = new Set(batch.map(fixKey));
+        this.write(this.read().filter((fix) => !sent.has(fixKey(fix))));
+      }
+    }
+  }
+
+  private static scheduleFlush() {
+    if (!this.listening) {
+      this.listening = true;
+      window.addEventListener('online', () => this.flush());
+    }
+    if (this.flushTimer === null) {
+      this.flushTimer = window.setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  private static read(): BufferedFix[] {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private static write(fixes: BufferedFix[]) {
+    if (fixes.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(fixes));
+    }
+  }
+}
@@ -0,0 +1,253 @@
+import { ClockService } from '@/services/clockService';
+
+const DB_NAME = 'autotime-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'clock_actions';
+
+// Background sync tag handled in public/sw.js
+export const CLOCK_QUEUE_SYNC_TAG = 'clock-queue-sync';
+export const CLOCK_QUEUE_REPLAY_MESSAGE = 'REPLAY_CLOCK_QUEUE';
+
+// After this many failed replays an action is parked so it can't block the queue
+const MAX_ATTEMPTS = 5;
+
+export type QueuedClockActionType = 'clock_in' | 'clock_out';
+
+export interface QueuedLocation {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  timestamp?: number; // GPS timestamp in milliseconds
+}
+
+export interface QueuedClockAction {
+  id: string;
+  type: QueuedClockActionType;
+  worker_id: string;
+  job_id: string;
+  job_name: string;
+  clock_entry_id?: string; // Server entry being closed (clock_out only)
+  local_entry_id?: string; // Queued clock_in being closed, if it hasn't synced yet
+  occurred_at: string; // When the worker actually clocked in/out
+  location: QueuedLocation;
+  photo: Blob;
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+  failed?: boolean;
+}
+
+export interface ClockQueueReplayResult {
+  synced: number;
+  remaining: number;
+  failed: number;
+}
+
+interface BackgroundSyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+export class OfflineClockQueue {
+
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static replayPromise: Promise<ClockQueueReplayResult> | null = null;
+
+  private static openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('worker_id', 'worker_id', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const tx = database.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  // True when the error came from the network rather than from the server rejecting the write
+  static isNetworkError(error: unknown): boolean {
+    if (!navigator.onLine) return true;
+    if (error instanceof TypeError) return true;
+    if ((error as { network?: boolean } | null)?.network) return true;
+    const message = (error as { message?: string } | null)?.message || '';
+    return /failed to fetch|failed to send a request|network|load failed|fetch failed/i.test(message);
+  }
+
+  static async enqueue(
+    action: Omit<QueuedClockAction, 'id' | 'queued_at' | 'attempts'>
+  ): Promise<QueuedClockAction> {
+    const queued: QueuedClockAction = {
+      ...action,
+      id: crypto.randomUUID(),
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+    };
+    await this.withStore('readwrite', (store) => store.put(queued));
+    await this.requestBackgroundSync();
+    return queued;
+  }
+
+  // Pending actions for a worker, oldest first
+  static async getAll(workerId: string): Promise<QueuedClockAction[]> {
+    const actions = await this.withStore<QueuedClockAction[]>('readonly', (store) =>
+      store.index('worker_id').getAll(workerId)
+    );
+    return actions.sort((a, b) =>
+      a.occurred_at === b.occurred_at
+        ? a.queued_at.localeCompare(b.queued_at)
+        : a.occurred_at.localeCompare(b.occurred_at)
+    );
+  }
+
+  private static async put(action: QueuedClockAction): Promise<void> {
+    await this.withStore('readwrite', (store) => store.put(action));
+  }
+
+  private static async remove(id: string): Promise<void> {
+    await this.withStore('readwrite', (store) => store.delete(id));
+  }
+
+  // Ask the service worker to wake us when connectivity returns (Chrome/Android only)
+  static async requestBackgroundSync(): Promise<void> {
+    try {
+      if (!('serviceWorker' in navigator)) return;
+      const reg = (await navigator.serviceWorker.getRegistration()) as BackgroundSyncRegistration | undefined;
+      await reg?.sync?.register(CLOCK_QUEUE_SYNC_TAG);
+    } catch (error) {
+      console.log('[offline-queue] Background sync unavailable:', error);
+    }
+  }
+
+  // The photo is named after the action so a retried upload overwrites rather than duplicates.
+  // clock-in/clock-out are idempotent for a given clocked_at, so a lost response is safe to retry.
+  private static async replayClockIn(action: QueuedClockAction): Promise<string> {
+    const photoPath = await ClockService.uploadPhoto(action.worker_id, action.photo, action.id);
+
+    const { entry, error } = await ClockService.clockIn<{ id: string }>({
+      job_id: action.job_id,
+      latitude: action.location.lat,
+      longitude: action.location.lng,
+      accuracy: action.location.accuracy,
+      photo_path: photoPath,
+      clocked_at: action.occurred_at,
+    });
+
+    if (error || !entry) throw error || new Error('Clock-in returned no entry');
+    return entry.id;
+  }
+
+  private static async replayClockOut(action: QueuedClockAction): Promise<void> {
+    if (!action.clock_entry_id) {
+      throw new Error('Clock-out has no synced clock-in to close');
+    }
+
+    const photoPath = await ClockService.uploadPhoto(action.worker_id, action.photo, action.id);
+
+    const { error } = await ClockService.clockOut({
+      clock_entry_id: action.clock_entry_id,
+      latitude: action.location.lat,
+      longitude: action.location.lng,
+      accuracy: action.location.accuracy,
+      photo_path: photoPath,
+      clocked_at: action.occurred_at,
+    });
+
+    // Auto clock-out or a manager already closed it - keep the server's version
+    if (error?.code === 'already_clocked_out') {
+      console.warn('[offline-queue] Entry already clocked out, dropping queued clock-out:', action.clock_entry_id);
+      return;
+    }
+
+    if (error) throw error;
+  }
+
+  // Replay queued actions in the order they happened. Stops at the first network failure
+  // so later actions never overtake earlier ones.
+  static replay(workerId: string): Promise<ClockQueueReplayResult> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.runReplay(workerId).finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  private static async runReplay(workerId: string): Promise<ClockQueueReplayResult> {
+    const actions = await this.getAll(workerId);
+    const parkedEntries = new Set<string>();
+    let synced = 0;
+
+    for (const action of actions) {
+      if (action.failed) {
+        parkedEntries.add(action.id);
+        continue;
+      }
+
+      // Clock-out depends on a clock-in that could not be replayed
+      if (action.local_entry_id && parkedEntries.has(action.local_entry_id)) {
+        continue;
+      }
+
+      try {
+        if (action.type === 'clock_in') {
+          const entryId = await this.replayClockIn(action);
+
+          // Point any queued clock-out for this shift at the real entry
+          for (const dependent of actions) {
+            if (dependent.local_entry_id === action.id) {
+              dependent.clock_entry_id = entryId;
+              dependent.local_entry_id = undefined;
+              await this.put(dependent);
+            }
+          }
+        } else {
+          await this.replayClockOut(action);
+        }
+
+        await this.remove(action.id);
+        synced++;
+        console.log(`[offline-queue] Synced ${action.type} from ${action.occurred_at}`);
+      } catch (error) {
+        const message = (error as { message?: string })?.message || String(error);
+        console.error(`[offline-queue] Failed to sync ${action.type}:`, error);
+
+        if (this.isNetworkError(error)) break;
+
+        action.attempts += 1;
+        action.last_error = message;
+        action.failed = action.attempts >= MAX_ATTEMPTS;
+        await this.put(action);
+
+        if (!action.failed) break;
+        parkedEntries.add(action.id);
+      }
+    }
+
+    const remaining = await this.getAll(workerId);
+    return {
+      synced,
+      remaining: remaining.length,
+      failed: remaining.filter((a) => a.failed).length,
+    };
+  }
+}
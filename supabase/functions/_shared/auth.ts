@@ -0,0 +1,90 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import { corsHeaders } from "./cors.ts";
+import { WORKER_SCHEDULE_COLUMNS, type WorkerSchedule } from "./shiftTime.ts";
+
+export interface AuthenticatedWorker extends WorkerSchedule {
+  id: string;
+  name: string;
+  email: string;
+  organization_id: string | null;
+}
+
+export interface AuthenticatedManager {
+  email: string;
+  organization_id: string;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Error body the app can branch on: { error, code, ...details }
+export function errorResponse(status: number, error: string, code: string, details: Record<string, unknown> = {}): Response {
+  return jsonResponse({ error, code, ...details }, status);
+}
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+// The signed-in user's email, from the request's JWT
+async function getRequestEmail(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const userClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user?.email) {
+    console.error("Auth error:", authError);
+    return null;
+  }
+
+  return user.email;
+}
+
+// Resolve the calling user's worker record. The worker is looked up from the JWT,
+// never from the request body, so one worker can't act for another.
+export async function getRequestWorker(req: Request, supabase: SupabaseClient): Promise<AuthenticatedWorker | null> {
+  const email = await getRequestEmail(req);
+  if (!email) return null;
+
+  const { data: worker, error } = await supabase
+    .from("workers")
+    .select(`id, name, email, organization_id, ${WORKER_SCHEDULE_COLUMNS}`)
+    .eq("email", email)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error || !worker) {
+    console.error("No active worker for user:", email, error);
+    return null;
+  }
+
+  return worker as AuthenticatedWorker;
+}
+
+// Resolve the calling manager, for the site set-up that happens in the app (pairing a
+// kiosk, printing a site QR code). Managers aren't workers, so they have their own lookup.
+export async function getRequestManager(req: Request, supabase: SupabaseClient): Promise<AuthenticatedManager | null> {
+  const email = await getRequestEmail(req);
+  if (!email) return null;
+
+  const { data: manager, error } = await supabase
+    .from("managers")
+    .select("email, organization_id")
+    .eq("email", email)
+    .maybeSingle();
+
+  if (error || !manager?.organization_id) {
+    console.error("No manager for user:", email, error);
+    return null;
+  }
+
+  return manager as AuthenticatedManager;
+}
@@ -0,0 +1,214 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import type { Policy } from "./policy.ts";
+import { addDays, getDayBounds, getUkDateString } from "./shiftTime.ts";
+
+// Caps on auto clock-outs per worker. Every attempt - at shift end (check-clock-status) or
+// after a geofence exit (check-grace-expiry) - is decided here and recorded in
+// auto_clockout_audit, one row per clock entry. Within the organisation's caps
+// the shift is closed as before and counted in auto_clockout_counters; past them it is left
+// open and escalated to the organisation's managers, so a manager sets the real clock-out
+// instead of the worker being paid to shift end again.
+
+export type AutoClockoutReason = "OK" | "CAP_MONTH" | "CAP_ROLLING14" | "CONSECUTIVE_BLOCK";
+export type AutoClockoutType = "geofence" | "time_based";
+
+export interface AutoClockoutDecision {
+  performed: boolean;
+  reason: AutoClockoutReason;
+  monthCount: number; // Auto clock-outs already this calendar month
+  rolling14Count: number; // ...and in the 14 days up to this shift
+}
+
+const ROLLING_DAYS = 14;
+
+export async function decideAutoClockout(
+  supabase: SupabaseClient,
+  workerId: string,
+  shiftDate: string,
+  policy: Pick<Policy, "auto_clockout_month_cap" | "auto_clockout_rolling14_cap">,
+): Promise<AutoClockoutDecision> {
+  const month = shiftDate.slice(0, 7);
+  const rollingStart = addDays(shiftDate, -(ROLLING_DAYS - 1));
+  const since = `${month}-01` < rollingStart ? `${month}-01` : rollingStart;
+
+  const { data, error } = await supabase
+    .from("auto_clockout_audit")
+    .select("shift_date")
+    .eq("worker_id", workerId)
+    .eq("performed", true)
+    .gte("shift_date", since)
+    .lt("shift_date", shiftDate);
+
+  if (error) {
+    // Caps can't be checked - close the shift as before rather than leave it open
+    console.error(`Failed to read auto clock-out history for ${workerId}:`, error);
+    return { performed: true, reason: "OK", monthCount: 0, rolling14Count: 0 };
+  }
+
+  // Shift dates, not rows - a day with a site switch can have more than one
+  const dates: string[] = [...new Set((data ?? []).map((row: { shift_date: string }) => row.shift_date))];
+  const monthCount = dates.filter((date) => date.startsWith(month)).length;
+  const rolling14Count = dates.filter((date) => date >= rollingStart).length;
+  const decision = (performed: boolean, reason: AutoClockoutReason) => ({ performed, reason, monthCount, rolling14Count });
+
+  if (monthCount >= policy.auto_clockout_month_cap) return decision(false, "CAP_MONTH");
+  if (rolling14Count >= policy.auto_clockout_rolling14_cap) return decision(false, "CAP_ROLLING14");
+
+  // Auto clocked-out on the last day they worked too - two in a row is a habit, not a slip
+  const previousDate = await getPreviousWorkday(supabase, workerId, shiftDate);
+  if (previousDate && dates.includes(previousDate)) return decision(false, "CONSECUTIVE_BLOCK");
+
+  return decision(true, "OK");
+}
+
+// Records the decision; returns false if this entry was already escalated (the crons retry
+// every minute, the manager only needs telling once). Callers skip entries with an open
+// escalation (getOpenEscalation) before deciding again.
+export async function recordAutoClockout(
+  supabase: SupabaseClient,
+  attempt: {
+    workerId: string;
+    shiftDate: string;
+    clockEntryId: string;
+    type: AutoClockoutType;
+    decision: AutoClockoutDecision;
+    notes: string;
+  },
+): Promise<boolean> {
+  const { workerId, shiftDate, clockEntryId, type, decision, notes } = attempt;
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("auto_clockout_audit")
+    .upsert(
+      {
+        worker_id: workerId,
+        shift_date: shiftDate,
+        clock_entry_id: clockEntryId,
+        auto_clockout_type: type,
+        performed: decision.performed,
+        reason: decision.reason,
+        decided_at: now,
+        notes,
+        escalated_at: decision.performed ? null : now,
+      },
+      // An escalation never replaces a decision already made for the entry
+      { onConflict: "clock_entry_id", ignoreDuplicates: !decision.performed },
+    )
+    .select("id");
+
+  if (error) {
+    console.error(`Failed to record auto clock-out decision for ${workerId}:`, error);
+    return false;
+  }
+  const recorded = (data?.length ?? 0) > 0;
+
+  // Lets the app offer an off-site clock-out for the open shift
+  if (recorded && !decision.performed) {
+    const { error: entryError } = await supabase
+      .from("clock_entries")
+      .update({ auto_clockout_escalated_at: now })
+      .eq("id", clockEntryId);
+    if (entryError) console.error(`Failed to mark ${clockEntryId} as escalated:`, entryError);
+  }
+
+  if (decision.performed) {
+    const { error: counterError } = await supabase.from("auto_clockout_counters").upsert({
+      worker_id: workerId,
+      month: shiftDate.slice(0, 7),
+      count_monthly: decision.monthCount + 1,
+      rolling14_count: decision.rolling14Count + 1,
+      last_auto_clockout_at: now,
+      last_workday_auto: shiftDate,
+      updated_at: now,
+    });
+    if (counterError) console.error(`Failed to update auto clock-out counters for ${workerId}:`, counterError);
+  }
+
+  return recorded;
+}
+
+// Why the cap stopped the clock-out, to the worker or about them
+function describeCap(decision: AutoClockoutDecision, who: "you" | "they"): string {
+  if (decision.reason === "CONSECUTIVE_BLOCK") return `${who} were also auto clocked-out on ${who === "you" ? "your" : "their"} last shift`;
+  return decision.reason === "CAP_MONTH"
+    ? `${who}'ve been auto clocked-out ${decision.monthCount} times this month`
+    : `${who}'ve been auto clocked-out ${decision.rolling14Count} times in the last ${ROLLING_DAYS} days`;
+}
+
+// Tells the worker their shift is still open and why, and puts it in the organisation's
+// manager_notifications so a manager sets the real clock-out. The audit row (escalated_at
+// set, resolved_at not) is the record; the notifications are deduped per shift.
+export async function notifyEscalation(
+  supabase: SupabaseClient,
+  workerId: string,
+  clockEntryId: string,
+  shiftDate: string,
+  decision: AutoClockoutDecision,
+): Promise<void> {
+  const { error } = await supabase.from("notifications").insert({
+    worker_id: workerId,
+    title: "Shift Not Clocked Out - Sent to Your Manager",
+    body: `Your shift on ${shiftDate} has not been clocked out automatically because ${describeCap(decision, "you")}.\n\nPlease clock out now. Your manager has been asked to confirm your finish time.`,
+    type: "auto_clockout_escalated",
+    dedupe_key: `${workerId}:${shiftDate}:auto_clockout_escalated`,
+    created_at: new Date().toISOString(),
+  });
+  if (error && error.code !== "23505") console.error(`Failed to notify ${workerId} of escalation:`, error);
+
+  const { data: worker } = await supabase
+    .from("workers")
+    .select("name, organization_id")
+    .eq("id", workerId)
+    .maybeSingle();
+  if (!worker?.organization_id) {
+    console.error(`No organisation for ${workerId} - escalation only in the audit`);
+    return;
+  }
+
+  const { error: managerError } = await supabase.from("manager_notifications").insert({
+    organization_id: worker.organization_id,
+    worker_id: workerId,
+    clock_entry_id: clockEntryId,
+    type: "auto_clockout_escalated",
+    title: `Set a clock-out for ${worker.name ?? "a worker"}`,
+    body: `${worker.name ?? "A worker"}'s shift on ${shiftDate} was not auto clocked-out because ${describeCap(decision, "they")}. Please confirm their finish time.`,
+    dedupe_key: `${workerId}:${shiftDate}:auto_clockout_escalated`,
+  });
+  if (managerError && managerError.code !== "23505") {
+    console.error(`Failed to notify managers of ${workerId}'s escalation:`, managerError);
+  }
+}
+
+// The escalation a manager still has to resolve for an entry, if any
+export async function getOpenEscalation(
+  supabase: SupabaseClient,
+  clockEntryId: string,
+): Promise<{ decided_at: string; auto_clockout_type: AutoClockoutType | null } | null> {
+  const { data, error } = await supabase
+    .from("auto_clockout_audit")
+    .select("decided_at, auto_clockout_type")
+    .eq("clock_entry_id", clockEntryId)
+    .not("escalated_at", "is", null)
+    .is("resolved_at", null)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) console.error(`Failed to read escalation for ${clockEntryId}:`, error);
+  return data ?? null;
+}
+
+// The date of the worker's last regular shift before this one
+async function getPreviousWorkday(supabase: SupabaseClient, workerId: string, shiftDate: string): Promise<string | null> {
+  const { data } = await supabase
+    .from("clock_entries")
+    .select("clock_in")
+    .eq("worker_id", workerId)
+    .eq("is_overtime", false)
+    .lt("clock_in", getDayBounds(shiftDate).start.toISOString())
+    .order("clock_in", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data ? getUkDateString(new Date(data.clock_in)) : null;
+}
@@ -0,0 +1,49 @@
+// Break maths shared by the app (live totals, timesheets, exports) and the functions
+// that close entries (clock-out, auto clock-out). Keep this file dependency-free -
+// it is imported from both Vite and Deno.
+
+export interface ClockBreak {
+  id?: string;
+  started_at: string;
+  ended_at: string | null; // Null while the break is in progress
+}
+
+export interface BreakSummary {
+  breakMinutes: number;
+  unpaidMinutes: number; // Break time beyond the paid allowance - deducted from hours
+}
+
+// Embed for a clock_entries select
+export const CLOCK_BREAK_EMBED = "clock_breaks(id, started_at, ended_at)";
+
+export function getOpenBreak(breaks: ClockBreak[] | null | undefined): ClockBreak | null {
+  return breaks?.find((b) => !b.ended_at) ?? null;
+}
+
+// Total break time; a break still in progress counts up to `until`
+export function getBreakMinutes(breaks: ClockBreak[] | null | undefined, until = new Date()): number {
+  let ms = 0;
+  for (const b of breaks ?? []) {
+    const start = new Date(b.started_at).getTime();
+    const end = b.ended_at ? new Date(b.ended_at).getTime() : until.getTime();
+    ms += Math.max(0, end - start);
+  }
+  return Math.round((ms / 60000) * 100) / 100;
+}
+
+export function summariseBreaks(
+  breaks: ClockBreak[] | null | undefined,
+  paidBreakMinutes = 0,
+  until = new Date(),
+): BreakSummary {
+  const breakMinutes = getBreakMinutes(breaks, until);
+  return { breakMinutes, unpaidMinutes: Math.max(0, breakMinutes - Math.max(0, paidBreakMinutes)) };
+}
+
+// "12:00–12:30" style list for timesheets and exports
+export function formatBreaks(breaks: ClockBreak[] | null | undefined, formatTime: (date: Date) => string): string {
+  return [...(breaks ?? [])]
+    .sort((a, b) => a.started_at.localeCompare(b.started_at))
+    .map((b) => `${formatTime(new Date(b.started_at))}–${b.ended_at ? formatTime(new Date(b.ended_at)) : "now"}`)
+    .join(", ");
+}
@@ -0,0 +1,293 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import { type BreakSummary, type ClockBreak, summariseBreaks } from "./breaks.ts";
+import { isAssignedToJob, type JobAssignment } from "./jobAssignment.ts";
+import { getUkDateString, JOB_SHIFT_COLUMNS } from "./shiftTime.ts";
+import { type SiteQrMode, verifySiteQr } from "./siteQr.ts";
+import { getJobDistance, getTravelBetween } from "./travel.ts";
+
+// Offline clock actions are replayed with their original time, held for a manager to
+// approve; anything older than this should go through an amendment instead.
+export const MAX_OFFLINE_AGE_HOURS = 24;
+export const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+export type ClockTimeResult = { ok: true; time: Date; replayed: boolean } | { ok: false; error: string };
+
+// Work out when the worker actually clocked. `clockedAt` is only sent when replaying an
+// action captured offline. The app's clock is never trusted for a live action: a time
+// within the skew of ours is a slow request and gets our time, and anything earlier is a
+// replay the caller marks for approval.
+export function resolveClockTime(clockedAt: unknown, now = new Date()): ClockTimeResult {
+  if (clockedAt === undefined || clockedAt === null) {
+    return { ok: true, time: now, replayed: false };
+  }
+
+  const time = new Date(String(clockedAt));
+  if (isNaN(time.getTime())) {
+    return { ok: false, error: "clocked_at is not a valid timestamp" };
+  }
+  if (time.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+    return { ok: false, error: "clocked_at is in the future" };
+  }
+  if (now.getTime() - time.getTime() <= MAX_CLOCK_SKEW_MS) {
+    return { ok: true, time: now, replayed: false };
+  }
+  if (now.getTime() - time.getTime() > MAX_OFFLINE_AGE_HOURS * 60 * 60 * 1000) {
+    return {
+      ok: false,
+      error: `Offline clock actions older than ${MAX_OFFLINE_AGE_HOURS} hours can't be synced. Please submit an amendment.`,
+    };
+  }
+
+  return { ok: true, time, replayed: true };
+}
+
+// Photos are uploaded by the app to clock-photos/<worker_id>/...; only accept the worker's own folder
+export function getClockPhotoUrl(supabase: SupabaseClient, workerId: string, photoPath: unknown): string | null {
+  if (typeof photoPath !== "string" || !photoPath.startsWith(`${workerId}/`) || photoPath.includes("..")) {
+    return null;
+  }
+  return supabase.storage.from("clock-photos").getPublicUrl(photoPath).data.publicUrl;
+}
+
+export function isValidFix(latitude: unknown, longitude: unknown): boolean {
+  return (
+    typeof latitude === "number" &&
+    typeof longitude === "number" &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+export function roundHours(ms: number): number {
+  return Math.round((ms / (1000 * 60 * 60)) * 100) / 100;
+}
+
+// End any break still running when the entry is closed, and total the entry's breaks
+// against the organisation's paid allowance. The allowance is per shift, so a segment
+// opened by a site switch only gets what earlier segments left of it.
+export async function closeEntryBreaks(
+  supabase: SupabaseClient,
+  entryId: string,
+  organizationId: string | null,
+  clockOut: Date,
+): Promise<BreakSummary> {
+  await supabase
+    .from("clock_breaks")
+    .update({ ended_at: clockOut.toISOString() })
+    .eq("clock_entry_id", entryId)
+    .is("ended_at", null);
+
+  const { data: breaks } = await supabase
+    .from("clock_breaks")
+    .select("started_at, ended_at")
+    .eq("clock_entry_id", entryId);
+
+  let paidBreakMinutes = 0;
+  if (organizationId && breaks?.length) {
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("paid_break_minutes")
+      .eq("id", organizationId)
+      .maybeSingle();
+    paidBreakMinutes = org?.paid_break_minutes ?? 0;
+  }
+
+  if (paidBreakMinutes > 0) {
+    const { data: entry } = await supabase.from("clock_entries").select("shift_id").eq("id", entryId).maybeSingle();
+    if (entry?.shift_id) {
+      const { data: segments } = await supabase
+        .from("clock_entries")
+        .select("break_minutes")
+        .eq("shift_id", entry.shift_id)
+        .neq("id", entryId)
+        .not("clock_out", "is", null);
+      const usedMinutes = (segments ?? []).reduce((sum, s) => sum + Number(s.break_minutes ?? 0), 0);
+      paidBreakMinutes = Math.max(0, paidBreakMinutes - usedMinutes);
+    }
+  }
+
+  return summariseBreaks(breaks as ClockBreak[] | null, paidBreakMinutes, clockOut);
+}
+
+// Job columns needed to open an entry: geofence, RAMS and site hours
+export const CLOCK_IN_JOB_COLUMNS =
+  "id, name, latitude, longitude, geofence_radius, geofence_enabled, geofence_zones, safe_out_buffer_m, " +
+  `is_active, show_rams_and_site_info, qr_mode, ${JOB_SHIFT_COLUMNS}`;
+
+export interface RamsAcceptancePayload {
+  terms_and_conditions_url: string | null;
+  waiver_url: string | null;
+}
+
+export type ClockCheckResult = { ok: true } | { ok: false; status: number; error: string; code: string };
+
+// Only assignments to active jobs count, the same as the app's job list
+export async function checkJobAssignment(
+  supabase: SupabaseClient,
+  workerId: string,
+  jobId: string,
+  time: Date,
+): Promise<ClockCheckResult> {
+  const { data: assignments, error } = await supabase
+    .from("job_assignments")
+    .select("job_id, starts_on, ends_on, jobs!inner(is_active)")
+    .eq("worker_id", workerId)
+    .eq("jobs.is_active", true);
+
+  if (error) throw error;
+
+  if (!isAssignedToJob((assignments ?? []) as JobAssignment[], jobId, getUkDateString(time))) {
+    console.log("Worker not assigned to job:", { worker_id: workerId, job_id: jobId });
+    return {
+      ok: false,
+      status: 403,
+      error: "You are not assigned to this job site. Please check with your manager.",
+      code: "job_not_assigned",
+    };
+  }
+  return { ok: true };
+}
+
+// Record RAMS the worker has just accepted in the app, or check they already did today
+export async function checkRamsAcceptance(
+  supabase: SupabaseClient,
+  workerId: string,
+  jobId: string,
+  acceptance: RamsAcceptancePayload | undefined,
+  dayStart: Date,
+  acceptedBy?: Date, // Only count an acceptance recorded before this - offline replays
+): Promise<ClockCheckResult> {
+  if (acceptance && !acceptedBy) {
+    const { error } = await supabase.from("rams_acceptances").insert({
+      worker_id: workerId,
+      job_id: jobId,
+      terms_and_conditions_url: acceptance.terms_and_conditions_url || null,
+      waiver_url: acceptance.waiver_url || null,
+      accepted_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error("RAMS acceptance insert error:", error);
+      return { ok: false, status: 500, error: "Failed to record RAMS acceptance", code: "rams_record_failed" };
+    }
+    return { ok: true };
+  }
+
+  let query = supabase
+    .from("rams_acceptances")
+    .select("id")
+    .eq("worker_id", workerId)
+    .eq("job_id", jobId)
+    .gte("accepted_at", dayStart.toISOString());
+  if (acceptedBy) query = query.lte("accepted_at", acceptedBy.toISOString());
+
+  const { data: acceptances, error } = await query.limit(1);
+
+  if (error) throw error;
+
+  if (!acceptances || acceptances.length === 0) {
+    return {
+      ok: false,
+      status: 403,
+      error: "Please accept the RAMS and site information before clocking in.",
+      code: "rams_required",
+    };
+  }
+  return { ok: true };
+}
+
+// Record the travel from the worker's previous entry to a new one, when they clocked
+// out at another job earlier the same day. Failures are logged, never thrown - travel
+// mustn't block a clock-in.
+export async function recordTravelSegment(
+  supabase: SupabaseClient,
+  workerId: string,
+  organizationId: string | null,
+  entry: { id: string; job_id: string; clock_in: string },
+  job: { latitude: number | null; longitude: number | null },
+): Promise<void> {
+  const { data: previous, error: previousError } = await supabase
+    .from("clock_entries")
+    .select("id, job_id, clock_out, jobs(latitude, longitude)")
+    .eq("worker_id", workerId)
+    .neq("id", entry.id)
+    .not("clock_out", "is", null)
+    .lte("clock_out", entry.clock_in)
+    .order("clock_out", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (previousError || !previous?.clock_out) return;
+
+  const travel = getTravelBetween(
+    { job_id: previous.job_id, time: previous.clock_out },
+    { job_id: entry.job_id, time: entry.clock_in },
+  );
+  if (!travel) return;
+
+  let isPaid = false;
+  if (organizationId) {
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("paid_travel")
+      .eq("id", organizationId)
+      .maybeSingle();
+    isPaid = org?.paid_travel ?? false;
+  }
+
+  const distance = getJobDistance(previous.jobs, job);
+  const { error } = await supabase.from("travel_segments").insert({
+    worker_id: workerId,
+    from_entry_id: previous.id,
+    to_entry_id: entry.id,
+    from_job_id: previous.job_id,
+    to_job_id: entry.job_id,
+    started_at: travel.startedAt.toISOString(),
+    ended_at: travel.endedAt.toISOString(),
+    distance_m: distance,
+    is_paid: isPaid,
+  });
+
+  if (error) {
+    console.error("Travel segment insert error:", error);
+    return;
+  }
+
+  console.log("🚐 Travel recorded:", { from_entry_id: previous.id, to_entry_id: entry.id, distance_m: distance });
+}
+
+// Check a scanned (or typed) site QR code against the job. False when the job doesn't
+// use QR, hasn't had a code issued yet, or the code is for another job or day.
+export async function checkSiteQr(
+  supabase: SupabaseClient,
+  job: { id: string; qr_mode: SiteQrMode | null },
+  code: string,
+  time: Date,
+): Promise<boolean> {
+  if (!job.qr_mode || job.qr_mode === "off") return false;
+
+  const { data: secret } = await supabase.from("job_qr_secrets").select("secret").eq("job_id", job.id).maybeSingle();
+  if (!secret) return false;
+
+  return verifySiteQr(secret.secret, job.id, code, time);
+}
+
+// Record a valid scan. Failures are logged, never thrown - the clock action has already happened.
+export async function recordQrScan(
+  supabase: SupabaseClient,
+  workerId: string,
+  jobId: string,
+  clockEntryId: string | null,
+  time: Date,
+): Promise<void> {
+  const { error } = await supabase.from("qr_scans").insert({
+    worker_id: workerId,
+    job_id: jobId,
+    clock_entry_id: clockEntryId,
+    scanned_at: time.toISOString(),
+  });
+
+  if (error) {
+    console.error("QR scan insert error:", error);
+  }
+}
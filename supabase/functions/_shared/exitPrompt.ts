@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import type { GeofenceState } from "./geofenceState.ts";
+import { getUkDateString, UK_TIMEZONE } from "./shiftTime.ts";
+
+// "Are you still on site?" - sent by track-location the moment it records an exit, so the
+// worker can answer before check-grace-expiry clocks them out. The answers are handled by
+// geofence-exit-response; the notification's actions are handled in public/sw.js.
+
+export type ExitPromptResponse = "still_on_site" | "left";
+
+export const EXIT_PROMPT_RESPONSES: ExitPromptResponse[] = ["still_on_site", "left"];
+
+export const EXIT_PROMPT_NOTIFICATION_TYPE = "geofence_exit_prompt";
+
+export async function sendExitPrompt(supabase: SupabaseClient, state: GeofenceState): Promise<void> {
+  if (!state.exit_detected_at || !state.exit_event_id) return;
+
+  const exitTime = new Date(state.exit_detected_at);
+  const exitTimeFormatted = exitTime.toLocaleTimeString("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: UK_TIMEZONE,
+  });
+  const title = "Are you still on site?";
+  const body = `Your location showed you leaving the site at ${exitTimeFormatted}. If you're still there, tap "I'm still on site". Otherwise you'll be clocked out at ${exitTimeFormatted}.`;
+
+  // In-app row - one per exit, however many batches report it
+  const { error } = await supabase.from("notifications").insert({
+    worker_id: state.worker_id,
+    title,
+    body,
+    type: EXIT_PROMPT_NOTIFICATION_TYPE,
+    dedupe_key: `${state.worker_id}:${getUkDateString(exitTime)}:${EXIT_PROMPT_NOTIFICATION_TYPE}:${state.exit_event_id}`,
+    created_at: new Date().toISOString(),
+  });
+  if (error?.code === "23505") return;
+  if (error) console.error("Failed to insert exit prompt notification:", error);
+
+  const { data: prefs } = await supabase
+    .from("notification_preferences")
+    .select("push_token")
+    .eq("worker_id", state.worker_id)
+    .maybeSingle();
+  if (!prefs?.push_token) {
+    console.log(`No push token found for worker ${state.worker_id}`);
+    return;
+  }
+
+  try {
+    const { error: pushError } = await supabase.functions.invoke("send-push-notification", {
+      body: {
+        token: prefs.push_token,
+        title,
+        body,
+        tag: `exit-prompt-${state.clock_entry_id}`,
+        require_interaction: true,
+        actions: [
+          { action: "still_on_site", title: "I'm still on site" },
+          { action: "left", title: "I've left" },
+        ],
+        data: {
+          type: EXIT_PROMPT_NOTIFICATION_TYPE,
+          clock_entry_id: state.clock_entry_id,
+          exit_event_id: state.exit_event_id,
+          exit_detected_at: state.exit_detected_at,
+        },
+      },
+    });
+    if (pushError) console.error(`Failed to send exit prompt to ${state.worker_id}:`, pushError);
+    else console.log(`✅ Exit prompt sent to worker ${state.worker_id}`);
+  } catch (err) {
+    console.error(`Error sending exit prompt to ${state.worker_id}:`, err);
+  }
+}
@@ -0,0 +1,128 @@
+// Per-clock-entry filtering of location fixes before they are used for exit decisions:
+// smooths each fix over the entry's recent history so one multipath fix can't trigger an
+// exit, rejects physically impossible jumps, and flags patterns typical of mocked
+// locations. Keep this file dependency-free - it is imported from both Vite and Deno.
+
+import { calculateDistance } from "./geofence.ts";
+
+export type SuspicionFlag =
+  | "future_timestamp" // Taken later than it was received
+  | "impossible_jump" // Implied speed from the previous fix is beyond any vehicle on site
+  | "identical_coordinates" // Real GPS jitters; mock apps repeat the same point exactly
+  | "round_accuracy"; // The same whole-number accuracy fix after fix
+
+// Fixes with these flags are kept for the record but never used to decide an exit
+export const REJECTING_FLAGS: SuspicionFlag[] = ["future_timestamp", "impossible_jump"];
+
+// Roughly motorway speed plus headroom - anything faster between fixes didn't happen
+export const MAX_PLAUSIBLE_SPEED_MS = 55;
+
+// Device clocks drift; only flag fixes stamped clearly ahead of the server
+export const FUTURE_TOLERANCE_MS = 2 * 60 * 1000;
+
+// How many previous fixes callers should pass in as history
+export const FIX_HISTORY_SIZE = 8;
+
+// Smoothing uses accepted fixes this recent, up to this many including the new one
+const SMOOTHING_WINDOW_MS = 3 * 60 * 1000;
+const SMOOTHING_MAX_FIXES = 4;
+
+// Run lengths (including the new fix) before a pattern is flagged
+const IDENTICAL_RUN = 3;
+const ROUND_ACCURACY_RUN = 5;
+
+export interface FilterFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  time: number; // When the fix was taken, in milliseconds
+}
+
+export interface HistoryFix extends FilterFix {
+  flags: SuspicionFlag[];
+}
+
+export interface FilteredFix {
+  flags: SuspicionFlag[];
+  rejected: boolean;
+  // Accuracy-weighted average of the fix and recent accepted fixes - what exit decisions use
+  smoothed: { latitude: number; longitude: number; accuracy: number; samples: number };
+}
+
+export function isRejected(flags: SuspicionFlag[] | null | undefined): boolean {
+  return !!flags?.some((flag) => REJECTING_FLAGS.includes(flag));
+}
+
+// Implied speed between two fixes, giving both the benefit of their accuracy circles
+function impliedSpeed(from: FilterFix, to: FilterFix): number {
+  const seconds = (to.time - from.time) / 1000;
+  if (seconds <= 0) return 0;
+  const gap = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) - from.accuracy - to.accuracy;
+  return Math.max(0, gap) / seconds;
+}
+
+// `history` is the entry's previous fixes, oldest first, with the flags they were given
+export function filterFix(history: HistoryFix[], fix: FilterFix, receivedAt: number): FilteredFix {
+  const flags: SuspicionFlag[] = [];
+
+  if (fix.time > receivedAt + FUTURE_TOLERANCE_MS) {
+    flags.push("future_timestamp");
+  }
+
+  // A jump from the last accepted fix - unless the previous fix made the same jump and this
+  // one agrees with it, in which case it was the old position that was wrong (or we moved)
+  const accepted = history.filter((h) => !isRejected(h.flags));
+  const lastAccepted = accepted[accepted.length - 1];
+  const previous = history[history.length - 1];
+  if (lastAccepted && impliedSpeed(lastAccepted, fix) > MAX_PLAUSIBLE_SPEED_MS) {
+    const confirmsPrevious =
+      previous.flags.includes("impossible_jump") && impliedSpeed(previous, fix) <= MAX_PLAUSIBLE_SPEED_MS;
+    if (!confirmsPrevious) flags.push("impossible_jump");
+  }
+
+  const recent = [...history.slice(-(Math.max(IDENTICAL_RUN, ROUND_ACCURACY_RUN) - 1)), fix];
+  const run = (length: number, same: (h: FilterFix) => boolean) =>
+    recent.length >= length && recent.slice(-length).every(same);
+
+  if (run(IDENTICAL_RUN, (h) => h.latitude === fix.latitude && h.longitude === fix.longitude)) {
+    flags.push("identical_coordinates");
+  }
+  if (Number.isInteger(fix.accuracy) && run(ROUND_ACCURACY_RUN, (h) => h.accuracy === fix.accuracy)) {
+    flags.push("round_accuracy");
+  }
+
+  const rejected = isRejected(flags);
+  if (rejected) {
+    return { flags, rejected, smoothed: { ...fix, samples: 1 } };
+  }
+
+  // Weight by 1/accuracy² - a tight fix counts for far more than a loose one. Fixes the new
+  // one couldn't have come from (the old side of a confirmed jump) are left out.
+  const consistent = accepted.filter(
+    (h) =>
+      h.time <= fix.time && fix.time - h.time <= SMOOTHING_WINDOW_MS && impliedSpeed(h, fix) <= MAX_PLAUSIBLE_SPEED_MS,
+  );
+  const samples = [...consistent, fix].slice(-SMOOTHING_MAX_FIXES);
+  let totalWeight = 0;
+  let latitude = 0;
+  let longitude = 0;
+  let accuracy = 0;
+  for (const sample of samples) {
+    const weight = 1 / Math.max(1, sample.accuracy) ** 2;
+    totalWeight += weight;
+    latitude += sample.latitude * weight;
+    longitude += sample.longitude * weight;
+    accuracy += sample.accuracy * weight;
+  }
+
+  return {
+    flags,
+    rejected,
+    smoothed: {
+      latitude: latitude / totalWeight,
+      longitude: longitude / totalWeight,
+      accuracy: accuracy / totalWeight,
+      samples: samples.length,
+    },
+  };
+}
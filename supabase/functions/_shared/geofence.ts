@@ -0,0 +1,241 @@
+// Geofence maths shared by the app and the edge functions (track-location,
+// check-grace-expiry, clock-in, clock-out) so there is exactly one definition
+// of "on site". Keep this file dependency-free - it is imported from both Vite and Deno.
+
+// Safe-out thresholds based on geofence radius
+export const SAFE_OUT_TABLE: Record<number, number> = {
+  50: 90,
+  100: 150,
+  200: 260,
+  300: 380,
+  400: 500,
+  500: 625,
+};
+
+// For radii not in the table
+export const DEFAULT_SAFE_OUT_FACTOR = 1.25;
+
+export const ACCURACY_PASS_M = 50;
+
+// Polygon zones: how far beyond the nearest edge counts as clearly off site
+export const DEFAULT_SAFE_OUT_BUFFER_M = 50;
+
+// UK approximate bounding box - used when a job has its geofence switched off
+export const UK_BOUNDS = {
+  minLat: 49.9, // Southern tip (Lizard Point area)
+  maxLat: 60.9, // Northern tip (Shetland Islands)
+  minLng: -8.6, // Western tip (Dingle Peninsula, Ireland border area)
+  maxLng: 1.8, // Eastern tip (Lowestoft area)
+};
+
+const EARTH_RADIUS_M = 6371e3;
+
+export type LatLng = [number, number]; // [lat, lng]
+
+// A polygon site zone. Vertices are listed in order and the ring is closed implicitly.
+export interface GeofenceZone {
+  name?: string;
+  points: LatLng[];
+}
+
+export interface GeofenceJob {
+  latitude: number;
+  longitude: number;
+  geofence_radius: number;
+  geofence_enabled?: boolean | string | null; // Handle both boolean and string from database
+  geofence_zones?: GeofenceZone[] | string | null; // When set, replaces the circle
+  safe_out_buffer_m?: number | null;
+}
+
+// The organisation's thresholds (see policy.ts); the defaults above when not given
+export interface SafeOutRules {
+  safe_out_table: Record<number, number>;
+  safe_out_factor: number;
+}
+
+export interface GeofenceMeasurement {
+  mode: "circle" | "polygon";
+  // Circle: metres from the centre. Polygon: metres outside the nearest zone edge (0 when inside).
+  distance: number;
+  // Circle radius; 0 for polygons, whose boundary is the edge itself
+  radius: number;
+  // Safe-out distance on the same scale as `distance`
+  threshold: number;
+  inside: boolean;
+  zone: string | null; // Containing zone, or the nearest one when outside
+}
+
+export interface ClockLocationResult {
+  allowed: boolean;
+  mode: GeofenceMeasurement["mode"] | "uk_only";
+  distance: number | null;
+  reason: "outside_geofence" | "outside_uk" | null; // Set when not allowed
+}
+
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_M * c; // Distance in meters
+}
+
+export function getSafeOutThreshold(radius: number, rules?: SafeOutRules): number {
+  const table = rules?.safe_out_table ?? SAFE_OUT_TABLE;
+  return table[radius] || radius * (rules?.safe_out_factor ?? DEFAULT_SAFE_OUT_FACTOR);
+}
+
+export function reliableExit(
+  distance: number,
+  accuracy: number,
+  radius: number,
+  threshold: number,
+  accuracyPassM = ACCURACY_PASS_M,
+): boolean {
+  // A) Overshoot rule: clearly beyond fence
+  if (distance >= threshold) return true;
+
+  // B) Accuracy-aware margin: good fix with smaller overshoot
+  if (accuracy <= accuracyPassM && distance >= radius + Math.max(25, accuracy / 2)) {
+    return true;
+  }
+
+  return false;
+}
+
+export function isWithinUK(lat: number, lng: number): boolean {
+  return (
+    lat >= UK_BOUNDS.minLat &&
+    lat <= UK_BOUNDS.maxLat &&
+    lng >= UK_BOUNDS.minLng &&
+    lng <= UK_BOUNDS.maxLng
+  );
+}
+
+export function isGeofenceDisabled(job: Pick<GeofenceJob, "geofence_enabled">): boolean {
+  return job.geofence_enabled === false || job.geofence_enabled === "false";
+}
+
+// Valid polygon zones for a job (JSONB may arrive as a string from some clients)
+export function getGeofenceZones(job: Pick<GeofenceJob, "geofence_zones">): GeofenceZone[] {
+  let zones = job.geofence_zones;
+  if (typeof zones === "string") {
+    try {
+      zones = JSON.parse(zones) as GeofenceZone[];
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(zones)) return [];
+
+  return zones.filter(
+    (zone) =>
+      Array.isArray(zone?.points) &&
+      zone.points.length >= 3 &&
+      zone.points.every((p) => Array.isArray(p) && isFinite(p[0]) && isFinite(p[1])),
+  );
+}
+
+// Ray casting in lat/lng space - fine at site scale, away from the poles and antimeridian
+export function pointInPolygon(lat: number, lng: number, points: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lngI] = points[i];
+    const [latJ, lngJ] = points[j];
+    const crosses = latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// Shortest distance in metres from a point to the polygon's boundary
+export function distanceToPolygonEdge(lat: number, lng: number, points: LatLng[]): number {
+  // Project onto a flat plane centred on the point (equirectangular is accurate to
+  // well under a metre over a few kilometres)
+  const metresPerDegLat = (Math.PI / 180) * EARTH_RADIUS_M;
+  const metresPerDegLng = metresPerDegLat * Math.cos((lat * Math.PI) / 180);
+  const project = ([pLat, pLng]: LatLng) => ({
+    x: (pLng - lng) * metresPerDegLng,
+    y: (pLat - lat) * metresPerDegLat,
+  });
+
+  let min = Infinity;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = project(points[j]);
+    const b = project(points[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    // Closest point on segment a-b to the origin (our point)
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+    min = Math.min(min, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return min;
+}
+
+// Where is this fix relative to the job's geofence? Polygon zones take precedence over the circle.
+export function measureGeofence(job: GeofenceJob, lat: number, lng: number, rules?: SafeOutRules): GeofenceMeasurement {
+  const zones = getGeofenceZones(job);
+
+  if (zones.length === 0) {
+    const distance = calculateDistance(lat, lng, job.latitude, job.longitude);
+    return {
+      mode: "circle",
+      distance,
+      radius: job.geofence_radius,
+      threshold: getSafeOutThreshold(job.geofence_radius, rules),
+      inside: distance <= job.geofence_radius,
+      zone: null,
+    };
+  }
+
+  const threshold = job.safe_out_buffer_m ?? DEFAULT_SAFE_OUT_BUFFER_M;
+  let nearest: { distance: number; zone: string | null } = { distance: Infinity, zone: null };
+
+  for (const [index, zone] of zones.entries()) {
+    const zoneName = zone.name || `Zone ${index + 1}`;
+    if (pointInPolygon(lat, lng, zone.points)) {
+      return { mode: "polygon", distance: 0, radius: 0, threshold, inside: true, zone: zoneName };
+    }
+    const edgeDistance = distanceToPolygonEdge(lat, lng, zone.points);
+    if (edgeDistance < nearest.distance) {
+      nearest = { distance: edgeDistance, zone: zoneName };
+    }
+  }
+
+  return { mode: "polygon", distance: nearest.distance, radius: 0, threshold, inside: false, zone: nearest.zone };
+}
+
+// Clock-in/out gate: inside the fence (any zone), or anywhere in the UK when the geofence is off
+export function checkClockLocation(job: GeofenceJob, lat: number, lng: number): ClockLocationResult {
+  if (isGeofenceDisabled(job)) {
+    return isWithinUK(lat, lng)
+      ? { allowed: true, mode: "uk_only", distance: null, reason: null }
+      : { allowed: false, mode: "uk_only", distance: null, reason: "outside_uk" };
+  }
+
+  const measurement = measureGeofence(job, lat, lng);
+  return measurement.inside
+    ? { allowed: true, mode: measurement.mode, distance: measurement.distance, reason: null }
+    : { allowed: false, mode: measurement.mode, distance: measurement.distance, reason: "outside_geofence" };
+}
+
+// Worker-facing explanation of a failed clock-in/out location check
+export function describeClockLocationFailure(
+  result: ClockLocationResult,
+  accuracy: number,
+  action: "clock in" | "clock out" | "switch site",
+): string {
+  if (result.allowed) return "";
+  if (result.reason === "outside_uk") {
+    return `You must be located within the United Kingdom to ${action} for this job.`;
+  }
+
+  const distance = Math.round(result.distance ?? 0);
+  const where = result.mode === "polygon" ? "outside the job site boundary" : "from the job site";
+  return `You are ${distance}m ${where} (GPS accuracy: ${Math.round(accuracy)}m). Please move closer to site.`;
+}
@@ -0,0 +1,291 @@
+// Per-job geofence calibration from history, for the manager report (geofence-calibration).
+// Looks at where workers' location fixes actually fall while they are on shift and how often
+// exits turned out to be false, and suggests a radius and safe-out threshold that fit - or a
+// new centre point when the fixes sit off to one side. Keep this file dependency-free - it is
+// imported from both Vite and Deno.
+
+import {
+  calculateDistance,
+  DEFAULT_SAFE_OUT_BUFFER_M,
+  type GeofenceJob,
+  getGeofenceZones,
+  getSafeOutThreshold,
+  measureGeofence,
+} from "./geofence.ts";
+import { isRejected, type SuspicionFlag } from "./fixFilter.ts";
+import type { Policy } from "./policy.ts";
+
+// Below these there isn't enough history to recommend anything
+export const MIN_CALIBRATION_FIXES = 50;
+export const MIN_CALIBRATION_SHIFTS = 3;
+
+// Never recommend a circle smaller than the smallest in the safe-out table
+export const MIN_RECOMMENDED_RADIUS_M = 50;
+export const MIN_RECOMMENDED_BUFFER_M = 25;
+
+// The centre looks misplaced when the fixes' centre is this far from it - a share of the
+// radius, but never less than the minimum
+export const CENTRE_OFFSET_SHARE = 0.25;
+export const MIN_CENTRE_OFFSET_M = 25;
+
+export interface CalibrationJob extends GeofenceJob {
+  id: string;
+  name: string;
+  code: string | null;
+}
+
+export interface CalibrationEvent {
+  id: string;
+  clock_entry_id: string;
+  event_type: "location_fix" | "exit_detected" | "exit_confirmed" | "re_entry" | "exit_prompt_response";
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: string;
+  suspicion_flags: SuspicionFlag[] | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface DistanceDistribution {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  // Shares of fixes (0-1): inside the fence, between the fence and safe-out, beyond safe-out
+  inside: number;
+  margin: number;
+  beyond: number;
+}
+
+export interface JobCalibration {
+  job_id: string;
+  job_name: string;
+  job_code: string | null;
+  mode: "circle" | "polygon";
+  current_radius: number | null; // Null for polygon zones
+  current_threshold: number; // Safe-out distance (circle) or buffer beyond the edge (polygon)
+  shifts: number;
+  fixes: number; // Good in-shift fixes the distribution is built from
+  distances: DistanceDistribution | null; // Metres from the centre (circle) or outside the nearest edge (polygon)
+  exits: number;
+  false_exits: number; // Re-entered, or the worker answered that they were still on site
+  false_exit_rate: number | null;
+  enough_data: boolean;
+  recommended_radius: number | null;
+  recommended_threshold: number | null;
+  // Circle jobs only: where the fixes actually centre
+  centre_offset_m: number | null;
+  centre_misplaced: boolean;
+  suggested_centre: { latitude: number; longitude: number } | null;
+}
+
+interface EntryOutcome {
+  exits: number;
+  falseExits: number;
+  fixes: CalibrationEvent[];
+}
+
+const ceilTo10 = (metres: number) => Math.ceil(metres / 10) * 10;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// Walks one clock entry's events in order. An exit is false if the worker came back inside
+// or said they were still on site; fixes after a real exit are the worker leaving, so they
+// don't count as in-shift.
+function readEntry(events: CalibrationEvent[], accuracyPassM: number): EntryOutcome {
+  const ordered = [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const exitOutcomes = new Map<string, boolean>(); // Exit event id -> false exit
+  let openExit: string | null = null;
+
+  for (const event of ordered) {
+    if (event.event_type === "exit_detected") {
+      openExit = event.id;
+      exitOutcomes.set(event.id, false);
+    } else if (event.event_type === "re_entry" && openExit) {
+      exitOutcomes.set(openExit, true);
+      openExit = null;
+    } else if (event.event_type === "exit_prompt_response" && event.metadata?.response === "still_on_site") {
+      const exitId = typeof event.metadata.exit_event_id === "string" ? event.metadata.exit_event_id : openExit;
+      if (exitId && exitOutcomes.has(exitId)) exitOutcomes.set(exitId, true);
+    }
+  }
+
+  const realExit = ordered.find((event) => event.event_type === "exit_detected" && !exitOutcomes.get(event.id));
+  const fixes = ordered.filter(
+    (event) =>
+      event.event_type === "location_fix" &&
+      (!realExit || event.timestamp < realExit.timestamp) &&
+      Number(event.accuracy) <= accuracyPassM &&
+      !isRejected(event.suspicion_flags),
+  );
+
+  return {
+    exits: exitOutcomes.size,
+    falseExits: [...exitOutcomes.values()].filter(Boolean).length,
+    fixes,
+  };
+}
+
+function describeDistances(distances: number[], fence: number, threshold: number): DistanceDistribution | null {
+  if (distances.length === 0) return null;
+  const sorted = [...distances].sort((a, b) => a - b);
+  const share = (count: number) => Math.round((count / sorted.length) * 1000) / 1000;
+  const inside = sorted.filter((d) => d <= fence).length;
+  const beyond = sorted.filter((d) => d >= threshold).length;
+
+  return {
+    p50: round1(percentile(sorted, 50)),
+    p90: round1(percentile(sorted, 90)),
+    p95: round1(percentile(sorted, 95)),
+    p99: round1(percentile(sorted, 99)),
+    max: round1(sorted[sorted.length - 1]),
+    inside: share(inside),
+    margin: share(sorted.length - inside - beyond),
+    beyond: share(beyond),
+  };
+}
+
+// `events` are all of the job's geofence events over the period, from any of its clock entries
+export function calibrateJob(
+  job: CalibrationJob,
+  events: CalibrationEvent[],
+  policy: Pick<Policy, "accuracy_pass_m" | "safe_out_table" | "safe_out_factor">,
+): JobCalibration {
+  const byEntry = new Map<string, CalibrationEvent[]>();
+  for (const event of events) {
+    byEntry.set(event.clock_entry_id, [...(byEntry.get(event.clock_entry_id) ?? []), event]);
+  }
+
+  const outcomes = [...byEntry.values()].map((entryEvents) => readEntry(entryEvents, policy.accuracy_pass_m));
+  const fixes = outcomes.flatMap((outcome) => outcome.fixes);
+  const exits = outcomes.reduce((sum, outcome) => sum + outcome.exits, 0);
+  const falseExits = outcomes.reduce((sum, outcome) => sum + outcome.falseExits, 0);
+  const shifts = outcomes.filter((outcome) => outcome.fixes.length > 0).length;
+  const enoughData = fixes.length >= MIN_CALIBRATION_FIXES && shifts >= MIN_CALIBRATION_SHIFTS;
+
+  const base = {
+    job_id: job.id,
+    job_name: job.name,
+    job_code: job.code,
+    shifts,
+    fixes: fixes.length,
+    exits,
+    false_exits: falseExits,
+    false_exit_rate: exits > 0 ? Math.round((falseExits / exits) * 1000) / 1000 : null,
+    enough_data: enoughData,
+  };
+
+  if (getGeofenceZones(job).length > 0) {
+    const buffer = job.safe_out_buffer_m ?? DEFAULT_SAFE_OUT_BUFFER_M;
+    const distances = fixes.map((fix) => measureGeofence(job, Number(fix.latitude), Number(fix.longitude), policy).distance);
+    const distribution = describeDistances(distances, 0, buffer);
+    return {
+      ...base,
+      mode: "polygon",
+      current_radius: null,
+      current_threshold: buffer,
+      distances: distribution,
+      recommended_radius: null,
+      recommended_threshold:
+        enoughData && distribution ? Math.max(MIN_RECOMMENDED_BUFFER_M, ceilTo10(distribution.p99)) : null,
+      centre_offset_m: null,
+      centre_misplaced: false,
+      suggested_centre: null,
+    };
+  }
+
+  const radius = job.geofence_radius;
+  const threshold = getSafeOutThreshold(radius, policy);
+  const distanceFrom = (latitude: number, longitude: number) =>
+    fixes.map((fix) => calculateDistance(Number(fix.latitude), Number(fix.longitude), latitude, longitude));
+  const distribution = describeDistances(distanceFrom(job.latitude, job.longitude), radius, threshold);
+
+  // Fixes cluster around the middle of where people actually work; a site this small is flat
+  // enough for a plain average of the coordinates
+  let centreOffset: number | null = null;
+  let centre: { latitude: number; longitude: number } | null = null;
+  if (fixes.length > 0) {
+    centre = {
+      latitude: fixes.reduce((sum, fix) => sum + Number(fix.latitude), 0) / fixes.length,
+      longitude: fixes.reduce((sum, fix) => sum + Number(fix.longitude), 0) / fixes.length,
+    };
+    centreOffset = round1(calculateDistance(centre.latitude, centre.longitude, job.latitude, job.longitude));
+  }
+  const misplaced =
+    enoughData && centreOffset !== null && centreOffset >= Math.max(MIN_CENTRE_OFFSET_M, radius * CENTRE_OFFSET_SHARE);
+
+  // A misplaced centre inflates every distance, so size the circle around the suggested one
+  let recommendedRadius: number | null = null;
+  let recommendedThreshold: number | null = null;
+  if (enoughData && distribution && centre) {
+    const fitted = misplaced
+      ? describeDistances(distanceFrom(centre.latitude, centre.longitude), radius, threshold)!
+      : distribution;
+    recommendedRadius = Math.max(MIN_RECOMMENDED_RADIUS_M, ceilTo10(fitted.p95));
+    recommendedThreshold = Math.max(getSafeOutThreshold(recommendedRadius, policy), ceilTo10(fitted.p99));
+  }
+
+  return {
+    ...base,
+    mode: "circle",
+    current_radius: radius,
+    current_threshold: threshold,
+    distances: distribution,
+    recommended_radius: recommendedRadius,
+    recommended_threshold: recommendedThreshold,
+    centre_offset_m: centreOffset,
+    centre_misplaced: misplaced,
+    suggested_centre:
+      misplaced && centre
+        ? { latitude: Math.round(centre.latitude * 1e6) / 1e6, longitude: Math.round(centre.longitude * 1e6) / 1e6 }
+        : null,
+  };
+}
+
+const CSV_COLUMNS: [string, (row: JobCalibration) => string | number | boolean | null | undefined][] = [
+  ["job_code", (row) => row.job_code],
+  ["job_name", (row) => row.job_name],
+  ["mode", (row) => row.mode],
+  ["shifts", (row) => row.shifts],
+  ["fixes", (row) => row.fixes],
+  ["p50_m", (row) => row.distances?.p50],
+  ["p90_m", (row) => row.distances?.p90],
+  ["p95_m", (row) => row.distances?.p95],
+  ["p99_m", (row) => row.distances?.p99],
+  ["max_m", (row) => row.distances?.max],
+  ["share_inside", (row) => row.distances?.inside],
+  ["share_margin", (row) => row.distances?.margin],
+  ["share_beyond", (row) => row.distances?.beyond],
+  ["exits", (row) => row.exits],
+  ["false_exits", (row) => row.false_exits],
+  ["false_exit_rate", (row) => row.false_exit_rate],
+  ["current_radius_m", (row) => row.current_radius],
+  ["recommended_radius_m", (row) => row.recommended_radius],
+  ["current_threshold_m", (row) => row.current_threshold],
+  ["recommended_threshold_m", (row) => row.recommended_threshold],
+  ["centre_offset_m", (row) => row.centre_offset_m],
+  ["centre_misplaced", (row) => row.centre_misplaced],
+  ["suggested_latitude", (row) => row.suggested_centre?.latitude],
+  ["suggested_longitude", (row) => row.suggested_centre?.longitude],
+  ["enough_data", (row) => row.enough_data],
+];
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function calibrationToCsv(rows: JobCalibration[]): string {
+  const lines = [
+    CSV_COLUMNS.map(([header]) => header).join(","),
+    ...rows.map((row) => CSV_COLUMNS.map(([, value]) => csvCell(value(row))).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,68 @@
+// The exit / grace / re-entry decision for one location fix, shared by track-location and
+// the replay simulator (supabase/scripts/geofence-replay) so a replay decides exactly as
+// the live function would. Keep this file dependency-free - it is imported from both Vite
+// and Deno.
+
+import { reliableExit } from "./geofence.ts";
+import type { Policy } from "./policy.ts";
+import { getCurrentShiftInstance, type ShiftInstance, type WorkerSchedule } from "./shiftTime.ts";
+
+export type FixStatus =
+  | "clocked_out"
+  | "rejected_fix"
+  | "outside_window"
+  | "no_shift_end"
+  | "inside_fence"
+  | "inside_fence_qr"
+  | "exit_detected"
+  | "exit_ongoing"
+  | "re_entered";
+
+export interface FixWindow {
+  status: "outside_window" | "no_shift_end" | null; // null: exits count at this fix
+  shift: ShiftInstance | null;
+  windowStart: Date | null;
+}
+
+// Regular shifts only check the geofence in the policy's window before the shift ends - as
+// it was when the fix was taken. Overtime is always checked.
+export function getFixWindow(
+  schedule: WorkerSchedule | null,
+  isOvertime: boolean,
+  fixTime: Date,
+  policy: Pick<Policy, "geofence_window_minutes">,
+): FixWindow {
+  if (isOvertime) return { status: null, shift: null, windowStart: null };
+
+  const shift = getCurrentShiftInstance(schedule, fixTime);
+  const windowStart = shift && new Date(shift.end.getTime() - policy.geofence_window_minutes * 60 * 1000);
+  if (!shift || !windowStart) return { status: "no_shift_end", shift, windowStart };
+  if (fixTime < windowStart || fixTime > shift.end) return { status: "outside_window", shift, windowStart };
+  return { status: null, shift, windowStart };
+}
+
+export interface FixMeasurement {
+  inside: boolean;
+  distance: number;
+  radius: number;
+  threshold: number;
+  accuracy: number; // Of the smoothed position
+  qrPresent: boolean; // A site QR scan recent enough to vouch for the worker
+}
+
+// What the fix does to an entry that is `current`. exit_detected moves it to grace and
+// re_entered back to inside; everything else leaves it where it was.
+export function decideFix(
+  current: "inside" | "grace",
+  fix: FixMeasurement,
+  policy: Pick<Policy, "accuracy_pass_m">,
+): "inside_fence" | "inside_fence_qr" | "exit_detected" | "exit_ongoing" | "re_entered" {
+  if (current === "grace") {
+    // grace -> inside takes a good fix actually inside the fence, not just a doubtful exit.
+    // A recent site QR scan beats a poor fix - GPS drifts badly inside steel-framed buildings.
+    return fix.qrPresent || (fix.inside && fix.accuracy <= policy.accuracy_pass_m) ? "re_entered" : "exit_ongoing";
+  }
+
+  if (!reliableExit(fix.distance, fix.accuracy, fix.radius, fix.threshold, policy.accuracy_pass_m)) return "inside_fence";
+  return fix.qrPresent ? "inside_fence_qr" : "exit_detected";
+}
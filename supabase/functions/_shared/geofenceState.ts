@@ -0,0 +1,99 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+
+// Persistent geofence state per clock entry (geofence_states). track-location moves an
+// entry between inside and grace as fixes arrive; check-grace-expiry and the overtime
+// checks act once the grace period (the organisation's exit_grace_minutes, see policy.ts)
+// has run out and mark it outside_confirmed.
+
+export type GeofenceStateName = "inside" | "grace" | "outside_confirmed";
+
+export interface GeofenceState {
+  clock_entry_id: string;
+  worker_id: string;
+  state: GeofenceStateName;
+  state_changed_at: string;
+  last_fix_at: string | null;
+  exit_detected_at: string | null;
+  exit_event_id: string | null;
+  re_entered_at: string | null;
+  confirmed_at: string | null;
+  exit_count: number;
+}
+
+export function newGeofenceState(clockEntryId: string, workerId: string, time: Date): GeofenceState {
+  return {
+    clock_entry_id: clockEntryId,
+    worker_id: workerId,
+    state: "inside",
+    state_changed_at: time.toISOString(),
+    last_fix_at: null,
+    exit_detected_at: null,
+    exit_event_id: null,
+    re_entered_at: null,
+    confirmed_at: null,
+    exit_count: 0,
+  };
+}
+
+export async function getGeofenceState(supabase: SupabaseClient, clockEntryId: string): Promise<GeofenceState | null> {
+  const { data, error } = await supabase
+    .from("geofence_states")
+    .select("*")
+    .eq("clock_entry_id", clockEntryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as GeofenceState | null;
+}
+
+// Only written if the stored state is still `expected` (null: no row yet), so a batch of
+// fixes can't undo a confirmation made while it was being processed
+export async function saveGeofenceState(
+  supabase: SupabaseClient,
+  state: GeofenceState,
+  expected: GeofenceStateName | null,
+): Promise<boolean> {
+  const row = { ...state, updated_at: new Date().toISOString() };
+
+  if (expected === null) {
+    const { error } = await supabase.from("geofence_states").insert(row);
+    if (error?.code === "23505") return false;
+    if (error) throw error;
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from("geofence_states")
+    .update(row)
+    .eq("clock_entry_id", state.clock_entry_id)
+    .eq("state", expected)
+    .select("clock_entry_id");
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+// When the entry's current grace period started, or null when it isn't in one
+export async function getPendingExitTime(supabase: SupabaseClient, clockEntryId: string): Promise<Date | null> {
+  const state = await getGeofenceState(supabase, clockEntryId);
+  return state?.state === "grace" && state.exit_detected_at ? new Date(state.exit_detected_at) : null;
+}
+
+// grace -> outside_confirmed, once the entry has been auto clocked out. False if the
+// entry had already left grace (re-entered, or another run got there first).
+export async function confirmGeofenceExit(supabase: SupabaseClient, clockEntryId: string, time: Date): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("geofence_states")
+    .update({
+      state: "outside_confirmed",
+      state_changed_at: time.toISOString(),
+      confirmed_at: time.toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("clock_entry_id", clockEntryId)
+    .eq("state", "grace")
+    .select("clock_entry_id");
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
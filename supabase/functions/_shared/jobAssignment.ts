@@ -0,0 +1,33 @@
+// Worker-to-job assignments, shared by the app (job lists) and clock-in (enforcement).
+// Keep this file dependency-free - it is imported from both Vite and Deno.
+
+export interface JobAssignment {
+  job_id?: string;
+  worker_id?: string;
+  starts_on: string | null; // YYYY-MM-DD, inclusive
+  ends_on: string | null; // YYYY-MM-DD, inclusive
+}
+
+// Embed for a jobs select - filter it to one worker with .eq("job_assignments.worker_id", id)
+export const JOB_ASSIGNMENT_EMBED = "job_assignments(worker_id, starts_on, ends_on)";
+
+export function isAssignmentActive(assignment: JobAssignment, dateStr: string): boolean {
+  return (!assignment.starts_on || assignment.starts_on <= dateStr) && (!assignment.ends_on || assignment.ends_on >= dateStr);
+}
+
+// Can a worker with these assignments clock in to this job on this UK date? Workers
+// with no assignments can't clock in anywhere.
+export function isAssignedToJob(assignments: JobAssignment[], jobId: string, dateStr: string): boolean {
+  return assignments.some((a) => a.job_id === jobId && isAssignmentActive(a, dateStr));
+}
+
+// Jobs (each with the worker's own assignments embedded) the worker may pick. Without
+// a date any assignment counts - for entering hours on past days.
+export function filterAssignedJobs<T extends { job_assignments?: JobAssignment[] | null }>(
+  jobs: T[],
+  dateStr?: string,
+): T[] {
+  return jobs.filter((job) =>
+    job.job_assignments?.some((a) => !dateStr || isAssignmentActive(a, dateStr)),
+  );
+}
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import { closeEntryBreaks, roundHours } from "./clockEntry.ts";
+import { confirmGeofenceExit, getPendingExitTime } from "./geofenceState.ts";
+import type { Policy } from "./policy.ts";
+import { loadPolicy } from "./policyStore.ts";
+import { getUkDateString, UK_TIMEZONE } from "./shiftTime.ts";
+
+// The one engine that auto clocks out overtime sessions. Both crons run it -
+// check-ot-autoclockout and check-clock-status - so it has to be safe to run twice at
+// once: an entry is only closed while it is still open, and only the run that closed it
+// sends the notification.
+//
+// An OT session ends at the first of:
+//   LEFT_SITE        - a geofence exit (geofence_states, kept by track-location) whose grace
+//                      has run out; clocked out at the exit
+//   OT_LIMIT_REACHED - the organisation's max_ot_hours; clocked out at clock-in + the cap,
+//                      however late the cron gets to it
+
+export type OvertimeClockoutReason = "LEFT_SITE" | "OT_LIMIT_REACHED";
+
+interface OpenOvertimeEntry {
+  id: string;
+  worker_id: string;
+  job_id: string;
+  clock_in: string;
+  workers: { organization_id: string | null } | null;
+}
+
+interface OvertimeClockout {
+  reason: OvertimeClockoutReason;
+  clockOut: Date;
+  message: string;
+}
+
+// clock_entries.auto_clockout_type only allows 'geofence' and 'time_based'
+const CLOCKOUT_TYPES: Record<OvertimeClockoutReason, "geofence" | "time_based"> = {
+  LEFT_SITE: "geofence",
+  OT_LIMIT_REACHED: "time_based",
+};
+
+export async function superviseOvertime(
+  supabase: SupabaseClient,
+  policies = new Map<string, Promise<Policy>>(),
+  now = new Date(),
+): Promise<{ checked: number; clockedOut: number }> {
+  const { data, error } = await supabase
+    .from("clock_entries")
+    .select("id, worker_id, job_id, clock_in, workers(organization_id)")
+    .eq("is_overtime", true)
+    .is("clock_out", null);
+
+  if (error) throw error;
+
+  const entries = (data ?? []) as unknown as OpenOvertimeEntry[];
+  let clockedOut = 0;
+
+  for (const entry of entries) {
+    try {
+      const policy = await loadPolicy(supabase, entry.workers?.organization_id, entry.job_id, policies);
+      const clockout = await getOvertimeClockout(supabase, entry, policy, now);
+      if (clockout && (await closeOvertimeEntry(supabase, entry, clockout, policy))) clockedOut++;
+    } catch (err) {
+      console.error(`❌ Error supervising OT ${entry.id}:`, err);
+    }
+  }
+
+  console.log(`✅ OT supervision: ${entries.length} open, ${clockedOut} auto clocked-out`);
+  return { checked: entries.length, clockedOut };
+}
+
+async function getOvertimeClockout(
+  supabase: SupabaseClient,
+  entry: OpenOvertimeEntry,
+  policy: Policy,
+  now: Date,
+): Promise<OvertimeClockout | null> {
+  const clockIn = new Date(entry.clock_in);
+  const limitTime = new Date(clockIn.getTime() + policy.max_ot_hours * 60 * 60 * 1000);
+
+  const exitTime = await getPendingExitTime(supabase, entry.id);
+  if (exitTime) {
+    const minutesSinceExit = (now.getTime() - exitTime.getTime()) / 60000;
+    console.log(`🧭 OT ${entry.id}: exit ${minutesSinceExit.toFixed(1)} min ago (grace: ${policy.exit_grace_minutes} min)`);
+
+    // Left before the cap - paid to the exit, not to the cap
+    if (minutesSinceExit >= policy.exit_grace_minutes && exitTime < limitTime) {
+      const exitTimeFormatted = exitTime.toLocaleTimeString("en-GB", {
+        hour: "2-digit",
+        minute: "2-digit",
+        timeZone: UK_TIMEZONE,
+      });
+      return { reason: "LEFT_SITE", clockOut: exitTime, message: `Left job site at ${exitTimeFormatted} during overtime` };
+    }
+  }
+
+  if (now >= limitTime) {
+    return {
+      reason: "OT_LIMIT_REACHED",
+      clockOut: limitTime,
+      message: `Maximum ${policy.max_ot_hours}-hour overtime limit reached. If you worked longer, please request a time amendment.`,
+    };
+  }
+
+  return null;
+}
+
+// False if another run got there first. Breaks are only closed once this run has won the
+// entry, then the totals are filled in.
+async function closeOvertimeEntry(
+  supabase: SupabaseClient,
+  entry: OpenOvertimeEntry,
+  clockout: OvertimeClockout,
+  policy: Policy,
+): Promise<boolean> {
+  const { reason, clockOut, message } = clockout;
+  console.log(`⏱️ Clocking out OT ${entry.id} at ${clockOut.toISOString()} — ${reason}`);
+
+  const { data: closed, error } = await supabase
+    .from("clock_entries")
+    .update({
+      clock_out: clockOut.toISOString(),
+      auto_clocked_out: true,
+      auto_clockout_type: CLOCKOUT_TYPES[reason],
+      auto_clockout_reason: message,
+      source: "system_auto",
+      photo_required: false,
+      notes: `Auto clocked-out OT (${reason}): ${message}`,
+    })
+    .eq("id", entry.id)
+    .is("clock_out", null)
+    .select("id");
+
+  if (error) {
+    console.error(`❌ Update failed for OT ${entry.id}:`, error);
+    return false;
+  }
+  if (!closed?.length) {
+    console.log(`⏭️ OT ${entry.id} was already clocked out`);
+    return false;
+  }
+
+  const breaks = await closeEntryBreaks(supabase, entry.id, entry.workers?.organization_id ?? null, clockOut);
+  const workedMs = clockOut.getTime() - new Date(entry.clock_in).getTime() - breaks.unpaidMinutes * 60 * 1000;
+  const totalHours = Math.min(policy.max_ot_hours, Math.max(0, roundHours(workedMs)));
+
+  const { error: totalsError } = await supabase
+    .from("clock_entries")
+    .update({
+      total_hours: totalHours,
+      break_minutes: breaks.breakMinutes,
+      unpaid_break_minutes: breaks.unpaidMinutes,
+    })
+    .eq("id", entry.id);
+
+  if (totalsError) {
+    console.error(`❌ Totals update failed for OT ${entry.id}:`, totalsError);
+  } else {
+    console.log(`✅ OT ${entry.id} closed with ${totalHours} h`);
+  }
+
+  // A geofence state in grace is now a confirmed exit
+  await confirmGeofenceExit(supabase, entry.id, clockOut);
+  await notifyOvertimeClockout(supabase, entry, clockout);
+  return true;
+}
+
+async function notifyOvertimeClockout(supabase: SupabaseClient, entry: OpenOvertimeEntry, clockout: OvertimeClockout) {
+  const title = clockout.reason === "LEFT_SITE"
+    ? "Auto Clocked-Out - Left Site During OT"
+    : "Auto Clocked-Out - OT Limit Reached";
+  const body = `You were automatically clocked out from your overtime. Reason: ${clockout.message}`;
+
+  // One per OT session
+  const { error } = await supabase.from("notifications").insert({
+    worker_id: entry.worker_id,
+    title,
+    body,
+    type: "ot_auto_clockout",
+    dedupe_key: `${entry.worker_id}:${getUkDateString(new Date(entry.clock_in))}:ot_auto_clockout:${entry.id}`,
+    created_at: new Date().toISOString(),
+  });
+  if (error?.code === "23505") return;
+  if (error) console.error(`Failed to insert OT auto clock-out notification for ${entry.worker_id}:`, error);
+
+  const { data: prefs } = await supabase
+    .from("notification_preferences")
+    .select("push_token")
+    .eq("worker_id", entry.worker_id)
+    .maybeSingle();
+  if (!prefs?.push_token) {
+    console.log(`No push token found for worker ${entry.worker_id}`);
+    return;
+  }
+
+  try {
+    const { error: pushError } = await supabase.functions.invoke("send-push-notification", {
+      body: { token: prefs.push_token, title, body },
+    });
+    if (pushError) console.error(`Failed to send push notification to ${entry.worker_id}:`, pushError);
+    else console.log(`✅ Push notification sent to worker ${entry.worker_id}: ${title}`);
+  } catch (err) {
+    console.error(`Error sending push notification to ${entry.worker_id}:`, err);
+  }
+}
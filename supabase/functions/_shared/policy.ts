@@ -0,0 +1,128 @@
+// Timing and geofence rules that differ between organisations (contractually different
+// grace periods and overtime caps). Stored in organization_policies: one row per
+// organisation, and optionally one per job that overrides it. Any value left null falls
+// through to the organisation's row, then to the defaults here. Keep this file
+// dependency-free - it is imported from both Vite and Deno.
+
+import { ACCURACY_PASS_M, DEFAULT_SAFE_OUT_FACTOR, SAFE_OUT_TABLE } from "./geofence.ts";
+import { LAST_HOUR_WINDOW_MINUTES } from "./shiftTime.ts";
+
+export interface Policy {
+  exit_grace_minutes: number; // After a geofence exit, before the worker is auto clocked out
+  geofence_window_minutes: number; // Exits only count this close to the end of a regular shift
+  accuracy_pass_m: number; // A fix at least this accurate can confirm an exit (or a return)
+  safe_out_table: Record<number, number>; // Circle radius -> distance from the centre that is clearly off site
+  safe_out_factor: number; // Radius multiplier for radii not in the table
+  max_ot_hours: number; // Overtime sessions are auto clocked out (and capped) at this
+  clock_in_reminder_offsets: number[]; // Minutes from shift start (negative: before)
+  clock_out_reminder_offsets: number[]; // Minutes after shift end
+  auto_clockout_month_cap: number; // Auto clock-outs a worker can have in a calendar month before a manager decides
+  auto_clockout_rolling14_cap: number; // ...and in any 14 days
+}
+
+export type PolicyOverrides = { [K in keyof Policy]?: Policy[K] | null };
+
+export const POLICY_COLUMNS =
+  "exit_grace_minutes, geofence_window_minutes, accuracy_pass_m, safe_out_table, safe_out_factor, " +
+  "max_ot_hours, clock_in_reminder_offsets, clock_out_reminder_offsets, auto_clockout_month_cap, " +
+  "auto_clockout_rolling14_cap";
+
+export const DEFAULT_POLICY: Policy = {
+  exit_grace_minutes: 5, // 4-minute grace plus a minute for a late fix to arrive
+  geofence_window_minutes: LAST_HOUR_WINDOW_MINUTES,
+  accuracy_pass_m: ACCURACY_PASS_M,
+  safe_out_table: SAFE_OUT_TABLE,
+  safe_out_factor: DEFAULT_SAFE_OUT_FACTOR,
+  max_ot_hours: 3,
+  clock_in_reminder_offsets: [-5, 0, 15],
+  clock_out_reminder_offsets: [0, 15],
+  auto_clockout_month_cap: 3,
+  auto_clockout_rolling14_cap: 2,
+};
+
+// Allowed ranges - the same bounds are CHECK constraints on organization_policies
+export const POLICY_LIMITS = {
+  exit_grace_minutes: { min: 1, max: 60 },
+  geofence_window_minutes: { min: 15, max: 240 },
+  accuracy_pass_m: { min: 10, max: 200 },
+  safe_out_factor: { min: 1.05, max: 3 },
+  max_ot_hours: { min: 0.5, max: 12 },
+  clock_in_reminder_offsets: { min: -120, max: 120 },
+  clock_out_reminder_offsets: { min: 0, max: 120 },
+  auto_clockout_month_cap: { min: 0, max: 31 },
+  auto_clockout_rolling14_cap: { min: 0, max: 14 },
+};
+
+const MAX_REMINDERS = 5;
+
+const inRange = (value: unknown, { min, max }: { min: number; max: number }): value is number =>
+  typeof value === "number" && isFinite(value) && value >= min && value <= max;
+
+// Keeps the values that are within range; the rest are reported and ignored
+export function validatePolicy(overrides: PolicyOverrides): { values: Partial<Policy>; errors: string[] } {
+  const values: Partial<Policy> = {};
+  const errors: string[] = [];
+  const reject = (field: keyof Policy, why: string) => errors.push(`${field}: ${why}`);
+
+  for (const field of [
+    "exit_grace_minutes",
+    "geofence_window_minutes",
+    "accuracy_pass_m",
+    "safe_out_factor",
+    "max_ot_hours",
+    "auto_clockout_month_cap",
+    "auto_clockout_rolling14_cap",
+  ] as const) {
+    const value = overrides[field];
+    if (value === null || value === undefined) continue;
+    const limits = POLICY_LIMITS[field];
+    // NUMERIC columns arrive as strings from some clients
+    const number = typeof value === "string" ? Number(value) : value;
+    if (inRange(number, limits)) values[field] = number;
+    else reject(field, `must be between ${limits.min} and ${limits.max}`);
+  }
+
+  for (const field of ["clock_in_reminder_offsets", "clock_out_reminder_offsets"] as const) {
+    const offsets = overrides[field];
+    if (offsets === null || offsets === undefined) continue;
+    const limits = POLICY_LIMITS[field];
+    if (
+      Array.isArray(offsets) &&
+      offsets.length <= MAX_REMINDERS &&
+      offsets.every((offset) => Number.isInteger(offset) && inRange(offset, limits))
+    ) {
+      values[field] = [...new Set(offsets)].sort((a, b) => a - b);
+    } else {
+      reject(field, `must be up to ${MAX_REMINDERS} whole minutes between ${limits.min} and ${limits.max}`);
+    }
+  }
+
+  const table = overrides.safe_out_table;
+  if (table !== null && table !== undefined) {
+    const entries = typeof table === "object" && !Array.isArray(table) ? Object.entries(table) : null;
+    // Each threshold has to be beyond its radius, or everyone on site would be "off site"
+    if (entries && entries.every(([radius, threshold]) => Number(radius) > 0 && Number(threshold) > Number(radius))) {
+      values.safe_out_table = Object.fromEntries(entries.map(([radius, threshold]) => [Number(radius), Number(threshold)]));
+    } else {
+      reject("safe_out_table", "each radius must map to a larger threshold");
+    }
+  }
+
+  return { values, errors };
+}
+
+// The defaults, overridden by each layer in turn - organisation row, then job row
+export function resolvePolicy(...layers: (PolicyOverrides | null | undefined)[]): Policy {
+  let policy = DEFAULT_POLICY;
+  for (const layer of layers) {
+    if (!layer) continue;
+    const { values, errors } = validatePolicy(layer);
+    if (errors.length > 0) console.warn("Ignoring invalid policy values:", errors);
+    policy = { ...policy, ...values };
+  }
+  return policy;
+}
+
+export function getExitGraceMs(policy: Pick<Policy, "exit_grace_minutes">): number {
+  return policy.exit_grace_minutes * 60 * 1000;
+}
@@ -0,0 +1,43 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import { DEFAULT_POLICY, type Policy, POLICY_COLUMNS, type PolicyOverrides, resolvePolicy } from "./policy.ts";
+
+// The policy in force for an organisation's job: the job's row over the organisation's row
+// over the defaults. Crons checking many entries pass a `cache` so each organisation/job
+// pair is only read once per run.
+export function loadPolicy(
+  supabase: SupabaseClient,
+  organizationId: string | null | undefined,
+  jobId: string | null | undefined,
+  cache?: Map<string, Promise<Policy>>,
+): Promise<Policy> {
+  if (!organizationId) return Promise.resolve(DEFAULT_POLICY);
+
+  const key = `${organizationId}:${jobId ?? ""}`;
+  const cached = cache?.get(key);
+  if (cached) return cached;
+
+  const loading = fetchPolicy(supabase, organizationId, jobId ?? null);
+  cache?.set(key, loading);
+  return loading;
+}
+
+// The organisation's row and the job's row are read separately - the job id comes from
+// request payloads, so it never goes into a filter string
+async function fetchPolicy(supabase: SupabaseClient, organizationId: string, jobId: string | null): Promise<Policy> {
+  const selectPolicy = () =>
+    supabase.from("organization_policies").select(POLICY_COLUMNS).eq("organization_id", organizationId);
+
+  const [orgResult, jobResult] = await Promise.all([
+    selectPolicy().is("job_id", null).maybeSingle(),
+    jobId ? selectPolicy().eq("job_id", jobId).maybeSingle() : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  const error = orgResult.error ?? jobResult.error;
+  if (error) {
+    // Rules still have to run - the defaults are what applied before policies existed
+    console.error("Failed to load policy, using defaults:", error);
+    return DEFAULT_POLICY;
+  }
+
+  return resolvePolicy(orgResult.data as PolicyOverrides | null, jobResult.data as PolicyOverrides | null);
+}
@@ -0,0 +1,380 @@
+// Shift time helpers shared by the app and the edge functions. Shift times are stored
+// as wall-clock strings and always mean UK local time, so everything here works in
+// Europe/London regardless of the device or server timezone. Keep this file
+// dependency-free - it is imported from both Vite and Deno.
+
+export const UK_TIMEZONE = "Europe/London";
+
+// Geofence auto clock-out only applies in the hour before a regular shift ends
+export const LAST_HOUR_WINDOW_MINUTES = 60;
+
+export interface ZonedParts {
+  dateStr: string; // YYYY-MM-DD
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface ShiftTime {
+  hour: number;
+  minute: number;
+}
+
+// Accepts HH:MM, HH:MM:SS or h[:mm] AM/PM
+export function parseShiftTime(time: string | null | undefined): ShiftTime | null {
+  if (!time) return null;
+  const s = time.trim().toLowerCase();
+
+  // 24h format: HH:MM or HH:MM:SS
+  let m = s.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (m) {
+    const hour = parseInt(m[1], 10);
+    const minute = parseInt(m[2], 10);
+    if (hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59) return { hour, minute };
+    return null;
+  }
+
+  // 12h format: h[:mm] AM/PM
+  m = s.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)$/);
+  if (m) {
+    let hour = parseInt(m[1], 10);
+    const minute = m[2] ? parseInt(m[2], 10) : 0;
+    if (hour < 1 || hour > 12 || minute < 0 || minute > 59) return null;
+    const meridiem = m[3];
+    if (meridiem === "pm" && hour !== 12) hour += 12;
+    if (meridiem === "am" && hour === 12) hour = 0;
+    return { hour, minute };
+  }
+
+  return null;
+}
+
+export function getZonedParts(date: Date, timeZone = UK_TIMEZONE): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    dateStr: `${get("year")}-${get("month")}-${get("day")}`,
+    hour: parseInt(get("hour"), 10),
+    minute: parseInt(get("minute"), 10),
+    second: parseInt(get("second"), 10),
+    dayOfWeek: WEEKDAYS.indexOf(get("weekday")),
+  };
+}
+
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const [year, month, day] = p.dateStr.split("-").map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Convert a wall-clock time on a given date in `timeZone` to the real instant
+export function zonedTimeToUtc(dateStr: string, hour: number, minute: number, timeZone = UK_TIMEZONE): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute, 0);
+
+  // Second pass settles times either side of a DST change
+  const offset = timeZoneOffsetMs(new Date(guess), timeZone);
+  const corrected = timeZoneOffsetMs(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
+
+// Start (inclusive) and end (exclusive) of a UK calendar day as instants
+export function getDayBounds(dateStr: string, timeZone = UK_TIMEZONE): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(dateStr, 0, 0, timeZone),
+    end: zonedTimeToUtc(addDays(dateStr, 1), 0, 0, timeZone),
+  };
+}
+
+// Calendar arithmetic on a YYYY-MM-DD string
+export function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split("T")[0];
+}
+
+// Minutes since midnight, or null if the shift time can't be parsed
+export function shiftTimeToMinutes(time: string | null | undefined): number | null {
+  const parsed = parseShiftTime(time);
+  return parsed ? parsed.hour * 60 + parsed.minute : null;
+}
+
+// Normalised HH:MM for display and logging
+export function formatShiftTime(time: string | null | undefined): string | null {
+  const parsed = parseShiftTime(time);
+  if (!parsed) return null;
+  return `${String(parsed.hour).padStart(2, "0")}:${String(parsed.minute).padStart(2, "0")}`;
+}
+
+// "08:00–17:00", or null unless both ends parse
+export function formatShiftHours(shift: ShiftTimes | null | undefined): string | null {
+  const start = formatShiftTime(shift?.shift_start);
+  const end = formatShiftTime(shift?.shift_end);
+  return start && end ? `${start}–${end}` : null;
+}
+
+// The UK calendar date (YYYY-MM-DD) an instant falls on
+export function getUkDateString(date = new Date()): string {
+  return getZonedParts(date).dateStr;
+}
+
+// Minutes since UK midnight for an instant
+export function getUkMinuteOfDay(date = new Date()): number {
+  const parts = getZonedParts(date);
+  return parts.hour * 60 + parts.minute;
+}
+
+// Start and end of the UK day containing `now`
+export function getUkDayBounds(now = new Date()): { start: Date; end: Date } {
+  return getDayBounds(getUkDateString(now));
+}
+
+// A shift time on a given UK date as an instant, or null if the shift time can't be parsed
+export function getShiftTimeOnDate(time: string | null | undefined, dateStr: string): Date | null {
+  const parsed = parseShiftTime(time);
+  if (!parsed) return null;
+  return zonedTimeToUtc(dateStr, parsed.hour, parsed.minute);
+}
+
+// ---------- Shift instances ----------
+// A shift runs from shift_start on its shift date to shift_end, which is on the next
+// day when it is not after shift_start (e.g. 22:00-06:00). Everything that asks "when
+// does this shift end" goes through the instance so night shifts behave like day shifts.
+
+export interface ShiftTimes {
+  shift_start?: string | null;
+  shift_end?: string | null;
+}
+
+// worker_shift_schedules row: the usual hours for one weekday
+export interface WeeklyShift {
+  day_of_week: number; // 0 = Sunday
+  shift_start: string;
+  shift_end: string;
+}
+
+// worker_shift_overrides row: different hours (or a day off) on one date
+export interface ShiftOverride {
+  shift_date: string; // YYYY-MM-DD
+  shift_start: string | null;
+  shift_end: string | null;
+  is_day_off: boolean;
+}
+
+// jobs.shift_start/shift_end/shift_days: a site's working hours. Null unless the site
+// restricts them, in which case they apply to everyone clocked in there.
+export interface JobShift extends ShiftTimes {
+  shift_days?: (number | string)[] | null;
+}
+
+// organizations.default_shift_*: hours for workers who have none of their own
+export interface OrganizationShift {
+  default_shift_start?: string | null;
+  default_shift_end?: string | null;
+  default_shift_days?: (number | string)[] | null;
+}
+
+// Everything needed to work out a worker's hours on any date. shift_start/shift_end/
+// shift_days on the worker remain the default pattern until weekly rows are added.
+export interface WorkerSchedule extends ShiftTimes {
+  shift_days?: (number | string)[] | null;
+  weekly_shifts?: WeeklyShift[] | null;
+  shift_overrides?: ShiftOverride[] | null;
+  organizations?: OrganizationShift | null;
+}
+
+export type ShiftSource = "job" | "worker" | "organization";
+
+// The schedule that actually applies, and whose it is
+export interface EffectiveSchedule extends WorkerSchedule {
+  source: ShiftSource;
+}
+
+export const JOB_SHIFT_COLUMNS = "shift_start, shift_end, shift_days";
+
+export const ORGANIZATION_SHIFT_COLUMNS = "default_shift_start, default_shift_end, default_shift_days";
+
+// Schedule tables embedded in a workers select; append to '*' on the client
+export const WORKER_SCHEDULE_EMBEDS =
+  "weekly_shifts:worker_shift_schedules(day_of_week, shift_start, shift_end), " +
+  "shift_overrides:worker_shift_overrides(shift_date, shift_start, shift_end, is_day_off)";
+
+// Worker columns + embeds so the select result is a WorkerSchedule
+export const WORKER_SCHEDULE_COLUMNS =
+  `shift_start, shift_end, shift_days, organizations!organization_id(${ORGANIZATION_SHIFT_COLUMNS}), ` +
+  WORKER_SCHEDULE_EMBEDS;
+
+export interface ResolvedShift {
+  shift_start: string | null;
+  shift_end: string;
+  source: "override" | "weekly" | "default";
+  // Whether the worker is rostered on - the default pattern only applies on shift_days
+  // for reminders, but still decides overtime and auto clock-out on other days.
+  scheduled: boolean;
+}
+
+export interface ShiftInstance {
+  shiftDate: string; // UK date the shift starts on
+  shiftStart: string | null;
+  shiftEnd: string;
+  start: Date;
+  end: Date;
+  overnight: boolean;
+}
+
+// How early before shift_start a clock-in still belongs to the upcoming shift
+export const EARLY_START_MINUTES = 120;
+
+// Longest a single entry may run - shifts can cross midnight, but not last for days
+export const MAX_SHIFT_HOURS = 24;
+
+export function getDayOfWeek(dateStr: string): number {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// The hours a worker is due to work on a UK date: a dated override wins, then the
+// weekly schedule, then the worker's single default shift. Null means a day off.
+export function resolveShiftForDate(schedule: WorkerSchedule | null | undefined, dateStr: string): ResolvedShift | null {
+  if (!schedule) return null;
+
+  const override = schedule.shift_overrides?.find((o) => o.shift_date === dateStr);
+  if (override) {
+    if (override.is_day_off || !override.shift_end) return null;
+    return { shift_start: override.shift_start, shift_end: override.shift_end, source: "override", scheduled: true };
+  }
+
+  const dayOfWeek = getDayOfWeek(dateStr);
+  if (schedule.weekly_shifts && schedule.weekly_shifts.length > 0) {
+    const weekly = schedule.weekly_shifts.find((w) => Number(w.day_of_week) === dayOfWeek);
+    if (!weekly) return null;
+    return { shift_start: weekly.shift_start, shift_end: weekly.shift_end, source: "weekly", scheduled: true };
+  }
+
+  if (!schedule.shift_end) return null;
+  const scheduled = !!schedule.shift_days?.some((d) => Number(d) === dayOfWeek);
+  return { shift_start: schedule.shift_start ?? null, shift_end: schedule.shift_end, source: "default", scheduled };
+}
+
+function hasShiftHours(shift: ShiftTimes): boolean {
+  return !!parseShiftTime(shift.shift_start) && !!parseShiftTime(shift.shift_end);
+}
+
+// Whose hours apply: the job's when the site sets them, then the worker's own
+// (weekly rows, overrides or defaults), then the organisation default. A worker's
+// days off still stand on a job schedule; their other overrides don't.
+export function getEffectiveSchedule(
+  worker: WorkerSchedule | null | undefined,
+  job?: JobShift | null,
+): EffectiveSchedule {
+  if (job && hasShiftHours(job)) {
+    return {
+      source: "job",
+      shift_start: job.shift_start,
+      shift_end: job.shift_end,
+      shift_days: job.shift_days ?? null,
+      shift_overrides: worker?.shift_overrides?.filter((o) => o.is_day_off) ?? null,
+    };
+  }
+
+  const hasOwnHours =
+    !!worker?.weekly_shifts?.length || !!worker?.shift_overrides?.length || !!parseShiftTime(worker?.shift_end);
+  const organization = worker?.organizations;
+  if (!hasOwnHours && organization && parseShiftTime(organization.default_shift_end)) {
+    return {
+      source: "organization",
+      shift_start: organization.default_shift_start,
+      shift_end: organization.default_shift_end,
+      shift_days: organization.default_shift_days ?? null,
+    };
+  }
+
+  return { ...worker, source: "worker" };
+}
+
+export function isOvernightShift(shift: ShiftTimes): boolean {
+  const start = shiftTimeToMinutes(shift.shift_start);
+  const end = shiftTimeToMinutes(shift.shift_end);
+  return start !== null && end !== null && end <= start;
+}
+
+// The shift starting on a given UK date, or null on a day off. Without a usable
+// shift_start the shift is taken to run from midnight, which is how same-day shifts
+// have always behaved.
+export function getShiftInstance(schedule: WorkerSchedule | null | undefined, shiftDate: string): ShiftInstance | null {
+  const shift = resolveShiftForDate(schedule, shiftDate);
+  if (!shift) return null;
+
+  const overnight = isOvernightShift(shift);
+  const end = getShiftTimeOnDate(shift.shift_end, overnight ? addDays(shiftDate, 1) : shiftDate);
+  if (!end) return null;
+
+  const start = getShiftTimeOnDate(shift.shift_start, shiftDate) ?? getDayBounds(shiftDate).start;
+  return { shiftDate, shiftStart: shift.shift_start, shiftEnd: shift.shift_end, start, end, overnight };
+}
+
+// The shift `now` belongs to: today's, unless yesterday's was an overnight shift and
+// today's isn't yet within EARLY_START_MINUTES of starting (or there is none). After a
+// day shift we stay on today's, so a 17:00 finish is never confused with the previous day's.
+export function getCurrentShiftInstance(schedule: WorkerSchedule | null | undefined, now = new Date()): ShiftInstance | null {
+  const todayStr = getUkDateString(now);
+  const today = getShiftInstance(schedule, todayStr);
+  if (today && now.getTime() >= today.start.getTime() - EARLY_START_MINUTES * 60 * 1000) return today;
+
+  const yesterday = getShiftInstance(schedule, addDays(todayStr, -1));
+  if (yesterday?.overnight) return yesterday;
+  return today;
+}
+
+// Entries that belong to a shift instance: from the early-start allowance until the
+// next instance would begin. Covers the main shift plus any OT after it.
+export function getShiftInstanceBounds(instance: ShiftInstance): { start: Date; end: Date } {
+  const start = new Date(instance.start.getTime() - EARLY_START_MINUTES * 60 * 1000);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+// Shift date an entry clocked in at `clockIn` belongs to, for grouping and reporting
+export function getShiftDate(schedule: WorkerSchedule | null | undefined, clockIn: Date): string {
+  return getCurrentShiftInstance(schedule, clockIn)?.shiftDate ?? getUkDateString(clockIn);
+}
+
+export function isPastShiftEnd(schedule: WorkerSchedule | null | undefined, now = new Date()): boolean {
+  const instance = getCurrentShiftInstance(schedule, now);
+  return !!instance && now > instance.end;
+}
+
+// The last hour of the current shift, [shift end - 60 min, shift end]. Used by the app to
+// decide when to track and by track-location to decide when an exit counts.
+export function getLastHourWindow(
+  schedule: WorkerSchedule | null | undefined,
+  now = new Date(),
+  windowMinutes = LAST_HOUR_WINDOW_MINUTES,
+): { start: Date; end: Date } | null {
+  const instance = getCurrentShiftInstance(schedule, now);
+  if (!instance) return null;
+  return { start: new Date(instance.end.getTime() - windowMinutes * 60 * 1000), end: instance.end };
+}
+
+export function isInLastHourWindow(
+  schedule: WorkerSchedule | null | undefined,
+  now = new Date(),
+  windowMinutes = LAST_HOUR_WINDOW_MINUTES,
+): boolean {
+  const window = getLastHourWindow(schedule, now, windowMinutes);
+  return !!window && now >= window.start && now <= window.end;
+}
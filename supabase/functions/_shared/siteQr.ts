@@ -0,0 +1,93 @@
+// Site QR codes - an alternative proof of presence where GPS is poor (steel-framed
+// buildings, basements). Each job has a secret; the code is an HMAC of the job and the
+// current day, so a photo of the code shared off site stops working the next day - and
+// replacing GPS still needs a fix near the site. Keep this file dependency-free - it is
+// imported from both Vite and Deno.
+
+// off: QR isn't used. supplement: GPS must still pass, a scan is recorded alongside.
+// replace: a valid scan stands in for a failed GPS check, if the fix is within QR_NEAR_SITE_M.
+export type SiteQrMode = "off" | "supplement" | "replace";
+
+export type ProofMethod = "gps" | "qr" | "gps_qr";
+
+// Codes change at midnight (UTC); yesterday's is still accepted for a few minutes after,
+// for a worker who read it just before
+export const QR_OVERLAP_MINUTES = 10;
+
+// Indoors GPS is poor, not wrong by miles - a QR scan only stands in for a fix this close
+export const QR_NEAR_SITE_M = 2000;
+
+// A scan this recent counts as being inside the fence for location tracking
+export const QR_PRESENCE_MINUTES = 30;
+
+const QR_PREFIX = "autotime-site";
+const SHORT_CODE_LENGTH = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since 1 Jan 1970 (UTC)
+export function getQrPeriod(time: Date): number {
+  return Math.floor(time.getTime() / DAY_MS);
+}
+
+export function getQrPeriodEnd(period: number): Date {
+  return new Date((period + 1) * DAY_MS);
+}
+
+async function sign(secret: string, jobId: string, period: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${jobId}:${period}`));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// The QR payload, and a short code printed under it for when the camera can't read it
+export async function buildSiteQr(
+  secret: string,
+  jobId: string,
+  time: Date,
+): Promise<{ payload: string; shortCode: string; validUntil: Date }> {
+  const period = getQrPeriod(time);
+  const signature = await sign(secret, jobId, period);
+  const short = signature.slice(0, SHORT_CODE_LENGTH).toUpperCase();
+  return {
+    payload: `${QR_PREFIX}:${jobId}:${period}:${signature}`,
+    shortCode: `${short.slice(0, 4)}-${short.slice(4)}`,
+    validUntil: getQrPeriodEnd(period),
+  };
+}
+
+// Accepts a scanned payload or a typed short code, for today or, just after midnight, yesterday
+export async function verifySiteQr(secret: string, jobId: string, code: string, time: Date): Promise<boolean> {
+  const current = getQrPeriod(time);
+  const inOverlap = time.getTime() - getQrPeriodEnd(current - 1).getTime() <= QR_OVERLAP_MINUTES * 60 * 1000;
+  const periods = inOverlap ? [current, current - 1] : [current];
+  const trimmed = code.trim();
+
+  if (trimmed.startsWith(`${QR_PREFIX}:`)) {
+    const [, codeJobId, codePeriod, signature] = trimmed.split(":");
+    const period = Number(codePeriod);
+    if (codeJobId !== jobId || !periods.includes(period)) return false;
+    return signature === (await sign(secret, jobId, period));
+  }
+
+  const short = trimmed.replace(/[^0-9a-f]/gi, "").toLowerCase();
+  if (short.length !== SHORT_CODE_LENGTH) return false;
+  for (const period of periods) {
+    if ((await sign(secret, jobId, period)).startsWith(short)) return true;
+  }
+  return false;
+}
+
+// How the worker proved they were on site, or null when they didn't. `location` is the
+// clock location check - its distance is from the centre, or outside the nearest zone.
+export function getProofMethod(
+  location: { allowed: boolean; distance: number | null },
+  qrValid: boolean,
+  mode: SiteQrMode | null | undefined,
+): ProofMethod | null {
+  if (location.allowed) return qrValid ? "gps_qr" : "gps";
+  const nearSite = location.distance !== null && location.distance <= QR_NEAR_SITE_M;
+  return qrValid && mode === "replace" && nearSite ? "qr" : null;
+}
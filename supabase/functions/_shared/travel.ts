@@ -0,0 +1,72 @@
+// Travel between job sites within a working day: the gap between clocking out at one
+// job and clocking in at the next. Shared by clock-in (recording) and the app
+// (timesheets, exports). Keep this file free of npm/esm imports - it is imported from
+// both Vite and Deno.
+import { calculateDistance } from "./geofence.ts";
+import { getUkDateString } from "./shiftTime.ts";
+
+// A longer gap isn't travel - the worker went home or stopped for the day in between
+export const MAX_TRAVEL_GAP_MINUTES = 180;
+
+export interface TravelSegment {
+  id?: string;
+  from_job_id: string;
+  to_job_id: string;
+  started_at: string; // Clock-out at the previous job
+  ended_at: string; // Clock-in at the next job
+  distance_m: number | null; // Straight line between the jobs' coordinates
+  is_paid: boolean;
+  from_job?: { name: string; code?: string | null } | null;
+}
+
+// Embed for a clock_entries select: the travel that led to each entry
+export const TRAVEL_SEGMENT_EMBED =
+  "travel_segments!travel_segments_to_entry_id_fkey(id, from_job_id, to_job_id, started_at, ended_at, distance_m, is_paid, from_job:jobs!travel_segments_from_job_id_fkey(name, code))";
+
+interface SegmentEnd {
+  job_id: string;
+  time: string;
+}
+
+interface JobPoint {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// The travel between two consecutive entries, or null when they don't qualify: a
+// different job, the same UK day, and a gap of at most MAX_TRAVEL_GAP_MINUTES
+export function getTravelBetween(
+  from: SegmentEnd,
+  to: SegmentEnd,
+): { startedAt: Date; endedAt: Date } | null {
+  if (from.job_id === to.job_id) return null;
+
+  const startedAt = new Date(from.time);
+  const endedAt = new Date(to.time);
+  const gapMinutes = (endedAt.getTime() - startedAt.getTime()) / 60000;
+  if (gapMinutes <= 0 || gapMinutes > MAX_TRAVEL_GAP_MINUTES) return null;
+  if (getUkDateString(startedAt) !== getUkDateString(endedAt)) return null;
+
+  return { startedAt, endedAt };
+}
+
+export function getJobDistance(from: JobPoint | null | undefined, to: JobPoint | null | undefined): number | null {
+  if (from?.latitude == null || from.longitude == null || to?.latitude == null || to.longitude == null) {
+    return null;
+  }
+  return Math.round(calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude));
+}
+
+export function getTravelMinutes(segment: Pick<TravelSegment, "started_at" | "ended_at">): number {
+  return Math.max(0, Math.round((new Date(segment.ended_at).getTime() - new Date(segment.started_at).getTime()) / 60000));
+}
+
+// Hours that count towards pay - unpaid travel is shown but not paid
+export function getPaidTravelHours(segments: TravelSegment[] | null | undefined): number {
+  return (segments ?? []).reduce((sum, s) => sum + (s.is_paid ? getTravelMinutes(s) / 60 : 0), 0);
+}
+
+export function formatTravelDistance(distanceM: number | null): string | null {
+  if (distanceM === null) return null;
+  return distanceM < 1000 ? `${distanceM} m` : `${(distanceM / 1000).toFixed(1)} km`;
+}
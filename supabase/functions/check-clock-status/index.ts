@@ -1,49 +1,50 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// Utility: current time in Europe/London (handles DST)
-function nowInTz(tz: string = "Europe/London") {
-  const now = new Date();
-  const formatter = new Intl.DateTimeFormat("en-GB", {
-    timeZone: tz,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-    weekday: "short",
-  });
-  const parts = formatter.formatToParts(now);
-  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
-  const day = get("day");
-  const month = get("month");
-  const year = get("year");
-  const weekdayName = get("weekday");
-  const map: Record<string, number> = {
-    Sun: 0,
-    Mon: 1,
-    Tue: 2,
-    Wed: 3,
-    Thu: 4,
-    Fri: 5,
-    Sat: 6,
-  };
-  return {
-    dateStr: `${year}-${month}-${day}`,
-    timeHHmm: `${get("hour")}:${get("minute")}`,
-    dayOfWeek: map[weekdayName] || 0,
-  };
-}
-
-interface Worker {
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getCurrentShiftInstance,
+  getDayBounds,
+  getEffectiveSchedule,
+  getShiftInstanceBounds,
+  getZonedParts,
+  JOB_SHIFT_COLUMNS,
+  type JobShift,
+  resolveShiftForDate,
+  type ShiftInstance,
+  shiftTimeToMinutes,
+  WORKER_SCHEDULE_COLUMNS,
+  type WorkerSchedule,
+} from "../_shared/shiftTime.ts";
+import { closeEntryBreaks } from "../_shared/clockEntry.ts";
+import type { Policy } from "../_shared/policy.ts";
+import { loadPolicy } from "../_shared/policyStore.ts";
+import {
+  decideAutoClockout,
+  getOpenEscalation,
+  notifyEscalation,
+  recordAutoClockout,
+} from "../_shared/autoClockout.ts";
+import { superviseOvertime } from "../_shared/overtimeSupervision.ts";
+
+const WORKER_COLUMNS = `id,name,email,organization_id,${WORKER_SCHEDULE_COLUMNS}`;
+
+interface Worker extends WorkerSchedule {
   id: string;
   name: string;
   email: string;
   organization_id: string;
+}
+
+// A worker rostered on today, with today's effective hours in shift_start/shift_end
+interface RosteredWorker extends Worker {
   shift_start: string;
   shift_end: string;
-  shift_days: (number | string)[];
+}
+
+// A worker together with the shift instance a check applies to. Night shifts end on
+// the day after they start, so the instance - not today's date - decides which entry
+// to look at and which date notifications are logged against.
+interface ShiftWorker extends Worker {
+  shift: ShiftInstance;
 }
 
 interface ClockEntry {
@@ -74,43 +75,55 @@ serve(async (req) => {
   try {
     const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
 
-    const { dateStr, timeHHmm, dayOfWeek } = nowInTz("Europe/London");
+    // All shift maths is in UK time (handles DST)
+    const now = new Date();
+    const { dateStr, hour, minute, dayOfWeek } = getZonedParts(now);
+    const timeHHmm = `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
     const siteDate = new Date(`${dateStr}T00:00:00Z`);
 
     let actions = 0;
+    let autoClockouts = { clockedOut: 0, escalated: 0 };
+    // Reminder times, the OT cap and the exit grace are per organisation/job - read each once per run
+    const policies = new Map<string, Promise<Policy>>();
 
     console.log(`📅 Running checks for ${dateStr} (day ${dayOfWeek}), time ${timeHHmm}`);
 
     // 1️⃣ Clock-IN reminders: Only for workers with scheduled shifts (including weekend shifts)
-    const clockInWorkers = await getWorkersForClockInReminder(supabase, timeHHmm, dayOfWeek);
+    const clockInWorkers = await getWorkersForClockInReminder(supabase, timeHHmm, dateStr, policies);
     if (clockInWorkers.length) {
       console.log(`📢 Sending clock-in reminders to ${clockInWorkers.length} workers`);
-      actions += await handleClockInReminders(supabase, timeHHmm, siteDate, clockInWorkers);
+      actions += await handleClockInReminders(supabase, timeHHmm, siteDate, clockInWorkers, policies);
     }
 
     // 2️⃣ Clock-OUT reminders: For ANY worker currently clocked in
-    const clockOutWorkers = await getWorkersForClockOutReminder(supabase, timeHHmm, dayOfWeek, siteDate);
+    const clockOutWorkers = await getWorkersForClockOutReminder(supabase, now, policies);
     if (clockOutWorkers.length) {
       console.log(`📢 Sending clock-out reminders to ${clockOutWorkers.length} workers`);
-      actions += await handleClockOutReminders(supabase, timeHHmm, siteDate, clockOutWorkers);
+      actions += await handleClockOutReminders(supabase, now, clockOutWorkers, policies);
     }
 
     // 3️⃣ Auto-clockout: For ANY worker clocked in 30+ min past shift end
-    const autoClockoutWorkers = await getWorkersForAutoClockout(supabase, timeHHmm, dayOfWeek, siteDate);
+    const autoClockoutWorkers = await getWorkersForAutoClockout(supabase, now);
     if (autoClockoutWorkers.length) {
       console.log(`⏱️ Auto-clocking out ${autoClockoutWorkers.length} workers`);
-      actions += await handleAutoClockOut(supabase, timeHHmm, siteDate, autoClockoutWorkers);
+      const result = await handleAutoClockOut(supabase, autoClockoutWorkers, policies);
+      console.log(`⏱️ Shift end: ${result.clockedOut} auto clocked-out, ${result.escalated} escalated to managers`);
+      autoClockouts = result;
+      actions += result.clockedOut + result.escalated;
     }
 
-    // 4️⃣ ALWAYS check active OT entries for 3-hour limit or geofence exits (even on weekends)
+    // 4️⃣ ALWAYS check active OT entries for the OT limit or geofence exits (even on weekends) -
+    //    the same engine check-ot-autoclockout runs
     console.log(`🔵 Checking active OT sessions...`);
-    const otActions = await checkActiveOvertimeSessions(supabase, siteDate);
+    const { clockedOut: otActions } = await superviseOvertime(supabase, policies, now);
     actions += otActions;
 
     return new Response(
       JSON.stringify({
         message: "Check completed",
         actionsPerformed: actions,
+        autoClockedOut: autoClockouts.clockedOut + otActions,
+        escalated: autoClockouts.escalated,
         timestamp: new Date().toISOString(),
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
@@ -129,115 +142,116 @@ serve(async (req) => {
 
 // ---------- Worker Query Helpers ----------
 
-async function getWorkersForClockInReminder(supabase: any, t: string, d: number) {
-  const [h, m] = t.split(":").map(Number);
-  const cur = h * 60 + m;
+async function getWorkersForClockInReminder(
+  supabase: any,
+  t: string,
+  dateStr: string,
+  policies: Map<string, Promise<Policy>>,
+) {
+  const cur = shiftTimeToMinutes(t)!;
   const { data: w } = await supabase
     .from("workers")
-    .select("id,name,email,organization_id,shift_start,shift_end,shift_days")
+    .select(WORKER_COLUMNS)
     .eq("is_active", true);
   
   console.log(`🔍 Clock-in check: Fetched ${w?.length || 0} active workers`);
   
   if (!w) return [];
   
-  // Filter for workers with today as a shift day - handle both string and number types
-  const todayWorkers = w.filter((x: Worker) => {
-    const hasDay = x.shift_days?.includes(d) || x.shift_days?.includes(String(d));
-    if (x.shift_days) {
-      console.log(`🔍 Worker ${x.name}: shift_days=${JSON.stringify(x.shift_days)}, checking day=${d}, match=${hasDay}`);
-    }
-    return hasDay;
-  });
-  console.log(`📅 Workers with today (day ${d}) as shift day: ${todayWorkers.length}`);
+  // Workers rostered on today - dated override, weekly schedule, or shift_days for the default
+  // pattern. Not yet on site, so there are no job hours: the worker's own, else the organisation's.
+  const todayWorkers: RosteredWorker[] = [];
+  for (const x of w as Worker[]) {
+    const schedule = getEffectiveSchedule(x);
+    const shift = resolveShiftForDate(schedule, dateStr);
+    console.log(`🔍 Worker ${x.name}: ${shift ? `${schedule.source} ${shift.source} ${shift.shift_start}-${shift.shift_end}, scheduled=${shift.scheduled}` : "day off"}`);
+    if (!shift?.scheduled || !shift.shift_start) continue;
+    todayWorkers.push({ ...x, shift_start: shift.shift_start, shift_end: shift.shift_end });
+  }
+  console.log(`📅 Workers rostered on ${dateStr}: ${todayWorkers.length}`);
   
-  // Filter for workers within notification windows
-  const eligible = todayWorkers.filter((x: Worker) => {
-    if (!x.shift_start) return false;
-    const [sh, sm] = x.shift_start.split(":").map(Number);
-    const sMin = sh * 60 + sm;
+  // Filter for workers within notification windows - minutes from shift_start set by the
+  // organisation's policy (by default -5, 0 and +15)
+  const eligible: RosteredWorker[] = [];
+  for (const x of todayWorkers) {
+    const sMin = shiftTimeToMinutes(x.shift_start);
+    if (sMin === null) continue;
     const diff = cur - sMin;
     
-    // Use 2-minute windows to account for cron drift
-    // -5 min window: -6 to -4
-    // 0 min window: -1 to +1
-    // +15 min window: +14 to +16
-    const in5MinWindow = diff >= -6 && diff <= -4;
-    const inStartWindow = diff >= -1 && diff <= 1;
-    const in15MinWindow = diff >= 14 && diff <= 16;
-    
-    if (in5MinWindow || inStartWindow || in15MinWindow) {
+    // Use 2-minute windows to account for cron drift, e.g. -6 to -4 for the -5 min reminder
+    const { clock_in_reminder_offsets } = await loadPolicy(supabase, x.organization_id, null, policies);
+    if (clock_in_reminder_offsets.some((offset) => Math.abs(diff - offset) <= 1)) {
       console.log(`✅ Worker ${x.name} (${x.id.slice(0,8)}...) eligible: shift_start=${x.shift_start}, diff=${diff} min`);
-      return true;
+      eligible.push(x);
     }
-    return false;
-  });
+  }
   
   console.log(`📢 Workers within notification windows: ${eligible.length}`);
-  console.log(`⏰ Current time: ${t}, checking windows: [-6 to -4], [-1 to +1], [+14 to +16] minutes from shift_start`);
+  console.log(`⏰ Current time: ${t}, checking ±1 minute windows around each reminder offset from shift_start`);
   
   return eligible;
 }
 
-async function getWorkersForClockOutReminder(supabase: any, t: string, d: number, date: Date) {
-  const [h, m] = t.split(":").map(Number);
-  const cur = h * 60 + m;
-  
+async function getWorkersForClockOutReminder(supabase: any, now: Date, policies: Map<string, Promise<Policy>>) {
   // Get ALL active workers
   const { data: workers } = await supabase
     .from("workers")
-    .select("id,name,email,organization_id,shift_start,shift_end,shift_days")
+    .select(WORKER_COLUMNS)
     .eq("is_active", true);
   if (!workers) return [];
 
-  const eligible: Worker[] = [];
+  const openJobs = await getOpenEntryJobs(supabase);
+  const eligible: ShiftWorker[] = [];
 
   for (const worker of workers) {
-    if (!worker.shift_end) continue;
+    if (!openJobs.has(worker.id)) continue; // Not clocked in
+
+    // The site's hours win over the worker's
+    const shift = getCurrentShiftInstance(getEffectiveSchedule(worker, openJobs.get(worker.id)), now);
+    if (!shift) continue;
 
-    // Check if worker is currently clocked in TODAY
-    const entry = await getTodayEntry(supabase, worker.id, date);
+    // Check if worker is currently clocked in for this shift
+    const entry = await getLatestEntry(supabase, worker.id, getShiftInstanceBounds(shift));
     if (!entry || entry.clock_out) continue; // Not clocked in
 
-    const [eh, em] = worker.shift_end.split(":").map(Number);
-    const eMin = eh * 60 + em;
-    const diff = cur - eMin;
+    const diff = minutesSince(shift.end, now);
 
-    // Send reminder at shift end (0 min) or 15 min after
-    if (diff === 0 || diff === 15) {
-      eligible.push(worker);
+    // Send reminder at the policy's offsets - by default at shift end (0 min) and 15 min after
+    const { clock_out_reminder_offsets } = await loadPolicy(supabase, worker.organization_id, entry.job_id, policies);
+    if (clock_out_reminder_offsets.includes(diff)) {
+      eligible.push({ ...worker, shift });
     }
   }
 
   return eligible;
 }
 
-async function getWorkersForAutoClockout(supabase: any, t: string, d: number, date: Date) {
-  const [h, m] = t.split(":").map(Number);
-  const cur = h * 60 + m;
-  
+async function getWorkersForAutoClockout(supabase: any, now: Date) {
   // Get ALL active workers
   const { data: workers } = await supabase
     .from("workers")
-    .select("id,name,email,organization_id,shift_start,shift_end,shift_days")
+    .select(WORKER_COLUMNS)
     .eq("is_active", true);
   if (!workers) return [];
 
-  const eligible: Worker[] = [];
+  const openJobs = await getOpenEntryJobs(supabase);
+  const eligible: ShiftWorker[] = [];
 
   for (const worker of workers) {
-    if (!worker.shift_end) continue;
+    if (!openJobs.has(worker.id)) continue; // Not clocked in
 
-    // Check if worker is currently clocked in TODAY
-    const entry = await getTodayEntry(supabase, worker.id, date);
-    if (!entry || entry.clock_out) continue; // Not clocked in
+    // The site's hours win over the worker's
+    const shift = getCurrentShiftInstance(getEffectiveSchedule(worker, openJobs.get(worker.id)), now);
+    if (!shift) continue;
 
-    const [eh, em] = worker.shift_end.split(":").map(Number);
-    const end = eh * 60 + em;
+    // Check if worker is currently clocked in for this shift
+    const entry = await getLatestEntry(supabase, worker.id, getShiftInstanceBounds(shift));
+    if (!entry || entry.clock_out) continue; // Not clocked in
 
     // Auto-clockout window: 0-10 min after shift end
-    if (cur >= end && cur <= end + 10) {
-      eligible.push(worker);
+    const diff = minutesSince(shift.end, now);
+    if (diff >= 0 && diff <= 10) {
+      eligible.push({ ...worker, shift });
     }
   }
 
@@ -246,7 +260,13 @@ async function getWorkersForAutoClockout(supabase: any, t: string, d: number, da
 
 // ---------- Reminder Handlers ----------
 
-async function handleClockInReminders(supabase: any, t: string, date: Date, workers: Worker[]) {
+async function handleClockInReminders(
+  supabase: any,
+  t: string,
+  date: Date,
+  workers: RosteredWorker[],
+  policies: Map<string, Promise<Policy>>,
+) {
   let sent = 0;
   console.log(`📨 Processing clock-in reminders for ${workers.length} workers...`);
   
@@ -264,7 +284,7 @@ async function handleClockInReminders(supabase: any, t: string, date: Date, work
     }
     
     // Check if worker is currently clocked in (active entry)
-    const entry = await getTodayEntry(supabase, w.id, date);
+    const entry = await getLatestEntry(supabase, w.id, getDayBounds(date.toISOString().split("T")[0]));
     if (entry && !entry.clock_out) {
       console.log(`⏭️  Skipping - worker currently clocked in (active entry: ${entry.id.slice(0,8)}...)`);
       continue;
@@ -274,7 +294,8 @@ async function handleClockInReminders(supabase: any, t: string, date: Date, work
     }
     
     // Send notification
-    const title = getClockInTitle(t, w.shift_start);
+    const { clock_in_reminder_offsets } = await loadPolicy(supabase, w.organization_id, null, policies);
+    const title = getClockInTitle(t, w.shift_start, clock_in_reminder_offsets);
     const body = `Shift starts at ${w.shift_start}. Please clock in.`;
     console.log(`📤 Sending notification: "${title}" - "${body}"`);
     
@@ -288,15 +309,21 @@ async function handleClockInReminders(supabase: any, t: string, date: Date, work
   return sent;
 }
 
-async function handleClockOutReminders(supabase: any, t: string, date: Date, workers: Worker[]) {
+async function handleClockOutReminders(
+  supabase: any,
+  now: Date,
+  workers: ShiftWorker[],
+  policies: Map<string, Promise<Policy>>,
+) {
   let sent = 0;
   for (const w of workers) {
+    const date = shiftSiteDate(w.shift);
     // Use consistent notification type for all reminders of the same shift (removes time component)
-    const notif = `clock_out_shift${w.shift_end.replace(":", "")}`;
+    const notif = `clock_out_shift${w.shift.shiftEnd.replace(":", "")}`;
     if (await checkNotificationSent(supabase, w.id, notif, date)) continue;
 
-    const stillClocked = await isWorkerStillClockedIn(supabase, w.id, date);
-    if (!stillClocked) continue;
+    const entry = await getLatestEntry(supabase, w.id, getShiftInstanceBounds(w.shift));
+    if (!entry || entry.clock_out) continue;
 
     const { data: activeOT } = await supabase
       .from("clock_entries")
@@ -307,8 +334,9 @@ async function handleClockOutReminders(supabase: any, t: string, date: Date, wor
       .maybeSingle();
     if (activeOT) continue;
 
-    const title = getClockOutTitle(t, w.shift_end);
-    const body = `Shift ended at ${w.shift_end}. Please clock out.`;
+    const { clock_out_reminder_offsets } = await loadPolicy(supabase, w.organization_id, entry.job_id, policies);
+    const title = getClockOutTitle(minutesSince(w.shift.end, now), clock_out_reminder_offsets);
+    const body = `Shift ended at ${w.shift.shiftEnd}. Please clock out.`;
     await sendNotification(supabase, w.id, title, body, notif, date);
     await logNotification(supabase, w.id, notif, date);
     sent++;
@@ -318,50 +346,103 @@ async function handleClockOutReminders(supabase: any, t: string, date: Date, wor
 
 // ---------- Auto Clockout ----------
 
-async function handleAutoClockOut(supabase: any, t: string, date: Date, workers: Worker[]) {
-  let performed = 0;
+async function handleAutoClockOut(
+  supabase: any,
+  workers: ShiftWorker[],
+  policies: Map<string, Promise<Policy>>,
+): Promise<{ clockedOut: number; escalated: number }> {
+  let clockedOut = 0;
+  let escalatedCount = 0;
   for (const w of workers) {
-    const latestEntry = await getTodayEntry(supabase, w.id, date);
+    const date = shiftSiteDate(w.shift);
+    const latestEntry = await getLatestEntry(supabase, w.id, getShiftInstanceBounds(w.shift));
     if (!latestEntry || latestEntry.clock_out) continue;
 
+    // In overtime - the OT supervision below decides when that ends
     const activeOT = await getActiveOTEntries(supabase, w.id);
+    if (activeOT) continue;
 
-    if (activeOT) {
-      const handled = await handleOTAutoClockOut(supabase, date, t, w, activeOT);
-      if (handled) performed++;
-      continue;
-    }
-
-    const [eh, em] = w.shift_end.split(":").map(Number);
-    const clockOut = new Date(date);
-    const totalMin = eh * 60 + em;
-    clockOut.setHours(Math.floor(totalMin / 60), totalMin % 60, 0, 0);
+    // End of the shift instance in UK time - the next morning for night shifts
+    const clockOut = w.shift.end;
 
     const isBase = await isBaseShiftEntry(supabase, latestEntry.id);
     if (!isBase) continue;
 
-    const clockIn = new Date(latestEntry.clock_in);
-    const totalHrs = Math.max(0, (clockOut.getTime() - clockIn.getTime()) / 3.6e6);
+    // Already escalated - open until the worker or a manager closes it
+    if (await getOpenEscalation(supabase, latestEntry.id)) continue;
+
+    // Past the organisation's caps the shift stays open for a manager to close
+    const policy = await loadPolicy(supabase, w.organization_id, latestEntry.job_id, policies);
+    const decision = await decideAutoClockout(supabase, w.id, w.shift.shiftDate, policy);
+    if (!decision.performed) {
+      const escalated = await recordAutoClockout(supabase, {
+        workerId: w.id,
+        shiftDate: w.shift.shiftDate,
+        clockEntryId: latestEntry.id,
+        type: "time_based",
+        decision,
+        notes: `Not auto clocked-out at shift end ${w.shift.shiftEnd} - escalated (${decision.reason})`,
+      });
+      if (escalated) {
+        console.log(`🚩 ${w.name}: auto clock-out escalated to manager (${decision.reason})`);
+        await notifyEscalation(supabase, w.id, latestEntry.id, w.shift.shiftDate, decision);
+        escalatedCount++;
+      }
+      continue;
+    }
 
-    await supabase
+    // Claim the entry first - a worker clocking out in the same minute keeps their own times
+    const { data: closed, error: updateError } = await supabase
       .from("clock_entries")
       .update({
         clock_out: clockOut.toISOString(),
         auto_clocked_out: true,
         auto_clockout_type: "time_based",
+        notes: `Auto clocked-out at shift end ${w.shift.shiftEnd}`,
+      })
+      .eq("id", latestEntry.id)
+      .is("clock_out", null)
+      .select("id")
+      .maybeSingle();
+    if (updateError) {
+      console.error(`❌ Auto clock-out failed for ${w.name}:`, updateError);
+      continue;
+    }
+    if (!closed) {
+      console.log(`⏭️ ${w.name} clocked out before the auto clock-out`);
+      continue;
+    }
+
+    const clockIn = new Date(latestEntry.clock_in);
+    const breaks = await closeEntryBreaks(supabase, latestEntry.id, w.organization_id, clockOut);
+    const totalHrs = Math.max(0, (clockOut.getTime() - clockIn.getTime()) / 3.6e6 - breaks.unpaidMinutes / 60);
+    const { error: totalsError } = await supabase
+      .from("clock_entries")
+      .update({
         total_hours: totalHrs,
-        notes: `Auto clocked-out at shift end ${w.shift_end}`,
+        break_minutes: breaks.breakMinutes,
+        unpaid_break_minutes: breaks.unpaidMinutes,
       })
       .eq("id", latestEntry.id);
-    performed++;
+    if (totalsError) console.error(`❌ Totals update failed for ${w.name}:`, totalsError);
+
+    clockedOut++;
+    await recordAutoClockout(supabase, {
+      workerId: w.id,
+      shiftDate: w.shift.shiftDate,
+      clockEntryId: latestEntry.id,
+      type: "time_based",
+      decision,
+      notes: `Auto clocked-out at shift end ${w.shift.shiftEnd}`,
+    });
 
     const title = "Auto Clocked-Out - No Clock-Out Detected";
-    const body = `You were automatically clocked out at ${w.shift_end}.\nIf incorrect, please submit a Time Amendment request.`;
+    const body = `You were automatically clocked out at ${w.shift.shiftEnd}.\nIf incorrect, please submit a Time Amendment request.`;
     await sendNotification(supabase, w.id, title, body, "auto_clockout_time", date);
     await logNotification(supabase, w.id, "auto_clockout_time", date);
     await sendPushNotification(supabase, w.id, title, body);
   }
-  return performed;
+  return { clockedOut, escalated: escalatedCount };
 }
 
 // ---------- OT Auto Clockout ----------
@@ -377,211 +458,35 @@ async function getActiveOTEntries(supabase: any, workerId: string): Promise<Cloc
   return data;
 }
 
-async function handleOTAutoClockOut(supabase: any, date: Date, t: string, w: Worker, ot: ClockEntry) {
-  const now = new Date();
-  const inTime = new Date(ot.clock_in);
-  const hrs = (now.getTime() - inTime.getTime()) / 3.6e6;
-  const left = await hasLeftGeofence(supabase, w.id, ot.job_id);
-
-  if (hrs < 3 && !left) return false;
-
-  const reason = left ? "LEFT_GEOFENCE" : "OT_LIMIT_REACHED";
-
-  await supabase
-    .from("clock_entries")
-    .update({
-      clock_out: now.toISOString(),
-      auto_clocked_out: true,
-      auto_clockout_type: reason === "LEFT_GEOFENCE" ? "geofence_based" : "ot_time_based",
-      total_hours: Math.max(0, hrs),
-      notes:
-        reason === "LEFT_GEOFENCE"
-          ? "Auto clocked-out (left site during OT)"
-          : "Auto clocked-out after 3-hour OT period",
-    })
-    .eq("id", ot.id);
-
-  const title =
-    reason === "LEFT_GEOFENCE"
-      ? "Auto Clocked-Out - Left Site During OT"
-      : "Auto Clocked-Out - 3 Hour OT Limit Reached";
-  const body =
-    reason === "LEFT_GEOFENCE"
-      ? "You were automatically clocked out for leaving the job site during OT."
-      : "You were automatically clocked out after reaching the 3-hour OT limit.";
-
-  await sendNotification(supabase, w.id, title, body, "ot_auto_clockout", date);
-  await logNotification(supabase, w.id, "ot_auto_clockout", date);
-  await sendPushNotification(supabase, w.id, title, body);
-
-  return true;
-}
-
-async function hasLeftGeofence(supabase: any, workerId: string, jobId: string) {
-  const { data } = await supabase
-    .from("worker_tracking")
-    .select("outside_geofence")
-    .eq("worker_id", workerId)
-    .eq("job_id", jobId)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-  return !!data?.outside_geofence;
-}
-
 // ---------- Additional Helpers ----------
 
-async function checkActiveOvertimeSessions(supabase: any, date: Date) {
-  let clockedOut = 0;
-  const { data: activeOTs, error } = await supabase
+// Job hours for each worker's open entry - the latest one if there are several
+async function getOpenEntryJobs(supabase: SupabaseClient): Promise<Map<string, JobShift | null>> {
+  const { data } = await supabase
     .from("clock_entries")
-    .select("id,worker_id,clock_in,job_id,is_overtime,ot_status,auto_clocked_out")
-    .eq("is_overtime", true)
-    .is("clock_out", null);
-
-  if (error) {
-    console.error("❌ Fetch OT entries failed:", error);
-    return 0;
-  }
-  if (!activeOTs?.length) {
-    console.log("📋 No active OT entries found to check");
-    return 0;
-  }
-
-  console.log(`🔍 Found ${activeOTs.length} active OT sessions`);
-
-  for (const ot of activeOTs) {
-    try {
-      if (ot.ot_status && ot.ot_status !== "pending") {
-        console.log(`⏭️ Skipping OT ${ot.id} — ot_status = ${ot.ot_status}`);
-        continue;
-      }
-
-      const now = new Date();
-      const inTime = new Date(ot.clock_in);
-      const hrs = (now.getTime() - inTime.getTime()) / 3.6e6;
-
-      // 🧭 Check geofence exit
-      const { data: exits } = await supabase
-        .from("geofence_events")
-        .select("timestamp")
-        .eq("clock_entry_id", ot.id)
-        .eq("event_type", "exit_detected")
-        .is("resolved_at", null)
-        .order("timestamp", { ascending: false })
-        .limit(1);
-
-      if (exits?.length) {
-        const exitTime = new Date(exits[0].timestamp); // Most recent exit
-        const graceMs = 5 * 60 * 1000;
-        const minutesSinceExit = (now.getTime() - exitTime.getTime()) / (1000 * 60);
-        console.log(`🧭 OT ${ot.id}: Exit detected ${minutesSinceExit.toFixed(2)} min ago (grace: 5 min)`);
-        
-        if (now.getTime() - exitTime.getTime() >= graceMs) {
-          console.log(`✅ OT ${ot.id}: Grace period exceeded, auto-clocking out`);
-          await autoClockOutOT(
-            supabase,
-            ot,
-            date,
-            `Left job site at ${exitTime.toLocaleTimeString("en-GB")} during overtime`,
-            hrs,
-          );
-          clockedOut++;
-          continue;
-        } else {
-          console.log(`⏳ OT ${ot.id}: Still within grace period`);
-        }
-      }
-
-      // ⏱️ 3h → 3h10m window (runs 11 times)
-      if (hrs >= 3 && hrs <= 3.167) {
-        await autoClockOutOT(
-          supabase,
-          ot,
-          date,
-          `3-hour OT limit reached (${hrs.toFixed(2)} h)`,
-          3,
-        );
-        clockedOut++;
-        continue;
-      }
+    .select(`worker_id, clock_in, jobs(${JOB_SHIFT_COLUMNS})`)
+    .is("clock_out", null)
+    .order("clock_in", { ascending: false });
 
-      // 🕓 Catch-up for missed runs
-      if (hrs > 3.167) {
-        await autoClockOutOT(
-          supabase,
-          ot,
-          date,
-          `Exceeded 3-hour OT limit (${hrs.toFixed(2)} h) — catch-up`,
-          3,
-        );
-        clockedOut++;
-      }
-    } catch (err) {
-      console.error(`❌ Error handling OT ${ot.id}:`, err);
-    }
+  const jobs = new Map<string, JobShift | null>();
+  for (const entry of data ?? []) {
+    if (!jobs.has(entry.worker_id)) jobs.set(entry.worker_id, entry.jobs as JobShift | null);
   }
-
-  console.log(`✅ Auto-clocked-out ${clockedOut} OT entries`);
-  return clockedOut;
+  return jobs;
 }
 
-async function autoClockOutOT(supabase: any, ot: any, date: Date, reason: string, forcedHours: number | null = null) {
-  const now = new Date();
-  const inTime = new Date(ot.clock_in);
-  const actualHrs = (now.getTime() - inTime.getTime()) / 3.6e6;
-  const totalHrs = forcedHours ?? Math.max(0, actualHrs);
-  const cappedHrs = totalHrs > 3 ? 3 : totalHrs;
-
-  console.log(
-    `⏱️ Clocking-out OT ${ot.id} at ${cappedHrs.toFixed(2)} h — ${reason}`,
-  );
-
-  const { error } = await supabase
-    .from("clock_entries")
-    .update({
-      clock_out: now.toISOString(),
-      auto_clocked_out: true,
-      auto_clockout_type: reason.includes("site")
-        ? "geofence"
-        : "time_based",
-      source: "system_auto",
-      photo_required: false,
-      total_hours: cappedHrs,
-      notes: `Auto clocked-out: ${reason}`,
-      ot_status: "pending",
-    })
-    .eq("id", ot.id);
-
-  if (error) {
-    console.error(`❌ Update failed for OT ${ot.id}:`, error);
-    return;
-  }
-
-  await supabase
-    .from("geofence_events")
-    .update({ resolved_at: now.toISOString() })
-    .eq("clock_entry_id", ot.id)
-    .eq("event_type", "exit_detected")
-    .is("resolved_at", null);
-
-  const title = reason.includes("site")
-    ? "Auto Clocked-Out – Left Site During OT"
-    : "Auto Clocked-Out – 3 Hour OT Limit Reached";
-  const body = `You were automatically clocked out from overtime. ${reason}`;
-
-  await sendNotification(supabase, ot.worker_id, title, body, "ot_auto_clockout", date);
-  await logNotification(supabase, ot.worker_id, "ot_auto_clockout", date);
-  await sendPushNotification(supabase, ot.worker_id, title, body);
-}
-async function getTodayEntry(supabase: any, id: string, date: Date): Promise<ClockEntry | null> {
-  const d = date.toISOString().split("T")[0];
+// Latest entry clocked in within [start, end)
+async function getLatestEntry(
+  supabase: any,
+  id: string,
+  { start, end }: { start: Date; end: Date },
+): Promise<ClockEntry | null> {
   const { data } = await supabase
     .from("clock_entries")
     .select("id,clock_in,clock_out,job_id,is_overtime")
     .eq("worker_id", id)
-    .gte("clock_in", `${d}T00:00:00Z`)
-    .lt("clock_in", `${d}T23:59:59Z`)
+    .gte("clock_in", start.toISOString())
+    .lt("clock_in", end.toISOString())
     .order("clock_in", { ascending: false })
     .limit(1)
     .maybeSingle();
@@ -593,9 +498,13 @@ async function isBaseShiftEntry(supabase: any, entryId: string): Promise<boolean
   return data ? data.is_overtime === false : false;
 }
 
-async function isWorkerStillClockedIn(supabase: any, id: string, date: Date) {
-  const e = await getTodayEntry(supabase, id, date);
-  return !!(e && !e.clock_out);
+// Notifications for a shift are keyed on the date it started, like siteDate
+function shiftSiteDate(shift: ShiftInstance) {
+  return new Date(`${shift.shiftDate}T00:00:00Z`);
+}
+
+function minutesSince(time: Date, now: Date) {
+  return Math.floor((now.getTime() - time.getTime()) / 60000);
 }
 
 async function checkNotificationSent(supabase: any, id: string, type: string, date: Date) {
@@ -656,22 +565,17 @@ async function sendPushNotification(supabase: any, id: string, title: string, bo
   }
 }
 
-function getClockInTitle(t: string, s: string) {
-  const [ch, cm] = t.split(":").map(Number);
-  const [sh, sm] = s.split(":").map(Number);
-  const diff = ch * 60 + cm - (sh * 60 + sm);
-  if (diff === -5) return "⏰ Shift Starting Soon";
+function getClockInTitle(t: string, s: string, offsets: number[]) {
+  const diff = shiftTimeToMinutes(t)! - (shiftTimeToMinutes(s) ?? 0);
+  if (!offsets.includes(diff)) return "Clock In Reminder";
+  if (diff < 0) return "⏰ Shift Starting Soon";
   if (diff === 0) return "🌅 Shift Start Time";
-  if (diff === 15) return "⚠️ Late Clock-In Reminder";
-  return "Clock In Reminder";
+  return "⚠️ Late Clock-In Reminder";
 }
 
-function getClockOutTitle(t: string, e: string) {
-  const [ch, cm] = t.split(":").map(Number);
-  const [eh, em] = e.split(":").map(Number);
-  const diff = ch * 60 + cm - (eh * 60 + em);
+function getClockOutTitle(diff: number, offsets: number[]) {
+  if (!offsets.includes(diff)) return "Clock Out Reminder";
   if (diff === 0) return "✅ Shift End Time";
-  if (diff === 15) return "🏠 Time to Clock Out";
-  return "Clock Out Reminder";
+  return "🏠 Time to Clock Out";
 }
 
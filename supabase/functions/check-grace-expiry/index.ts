@@ -2,22 +2,33 @@
  * Supabase Edge Function: check-grace-expiry
  *
  * Runs via cron every 1–2 minutes.
- * Finds workers who left the geofence >5 minutes ago (4-min grace + 1-min buffer)
- * and automatically clocks them out if they never re-entered.
+ * Finds clock entries whose geofence state has been in grace for longer than their
+ * organisation's exit grace period (5 minutes by default: 4-min grace + 1-min buffer) -
+ * track-location moves them back to inside if the worker returns - and automatically
+ * clocks them out, confirming the exit. Workers past their organisation's auto clock-out
+ * caps are escalated to their manager instead (see _shared/autoClockout.ts).
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import { getUkDateString, UK_TIMEZONE } from "../_shared/shiftTime.ts";
+import { closeEntryBreaks } from "../_shared/clockEntry.ts";
+import { confirmGeofenceExit } from "../_shared/geofenceState.ts";
+import { getExitGraceMs, type Policy, POLICY_LIMITS } from "../_shared/policy.ts";
+import { loadPolicy } from "../_shared/policyStore.ts";
+import {
+  decideAutoClockout,
+  getOpenEscalation,
+  notifyEscalation,
+  recordAutoClockout,
+} from "../_shared/autoClockout.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Timing thresholds
-const GRACE_MINUTES = 4;
-const RACE_BUFFER_SEC = 60;
-const AUTO_DELAY_MS = (GRACE_MINUTES * 60 + RACE_BUFFER_SEC) * 1000; // 5 minutes total
-const ACCURACY_PASS_M = 50; // Maximum accuracy for reliable location
+// Exits older than this are left for a manager - a clock-out a day late helps nobody
+const STALE_EXIT_MS = 24 * 60 * 60 * 1000;
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -30,36 +41,37 @@ Deno.serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     const now = new Date();
-    const cutoffTime = new Date(now.getTime() - AUTO_DELAY_MS).toISOString();
+    // The shortest grace any organisation can have - each entry is then checked against its own
+    const cutoffTime = new Date(now.getTime() - POLICY_LIMITS.exit_grace_minutes.min * 60 * 1000).toISOString();
+    const staleThreshold = new Date(now.getTime() - STALE_EXIT_MS).toISOString();
 
     console.log("=== CHECK-GRACE-EXPIRY INVOCATION ===");
     console.log("Cutoff:", cutoffTime);
 
-    // Clean up stale exit_detected events older than 24 hours
-    const staleThreshold = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
-    const { error: cleanupError } = await supabase
-      .from("geofence_events")
-      .delete()
-      .eq("event_type", "exit_detected")
-      .lt("timestamp", staleThreshold);
-
-    if (cleanupError) {
-      console.warn("Failed to clean up stale events:", cleanupError);
-    } else {
-      console.log("Cleaned up stale exit_detected events older than 24 hours");
-    }
+    // 1️⃣ Open, regular-shift entries still in grace past the cutoff, with the exit that started it
+    //    (OT entries are handled by check-clock-status with the 3-hour limit)
+    const { data: expired, error: stateError } = await supabase
+      .from("geofence_states")
+      .select(
+        "clock_entry_id, exit_detected_at, clock_entries!inner(clock_out, is_overtime), " +
+          "exit:geofence_events!exit_event_id(id, worker_id, clock_entry_id, latitude, longitude, accuracy, " +
+          "distance_from_center, job_radius, safe_out_threshold, timestamp, metadata, suspicion_flags)",
+      )
+      .eq("state", "grace")
+      .lt("exit_detected_at", cutoffTime)
+      .gt("exit_detected_at", staleThreshold) // Only process recent exits
+      .is("clock_entries.clock_out", null)
+      .eq("clock_entries.is_overtime", false);
+
+    if (stateError) throw stateError;
+
+    const exits = (expired ?? []).flatMap((state) => {
+      if (!state.exit) console.warn(`Grace state for ${state.clock_entry_id} has no exit event - skipping`);
+      return state.exit ? [state.exit] : [];
+    });
 
-    // 1️⃣ Find exit_detected events older than 5 minutes that haven't been resolved
-    const { data: exits, error: exitError } = await supabase
-      .from("geofence_events")
-      .select("id, worker_id, clock_entry_id, latitude, longitude, accuracy, distance_from_center, job_radius, safe_out_threshold, timestamp")
-      .eq("event_type", "exit_detected")
-      .lt("timestamp", cutoffTime)
-      .gt("timestamp", staleThreshold); // Only process recent events
-
-    if (exitError) throw exitError;
-    if (!exits || exits.length === 0) {
-      console.log("No expired exit_detected events to process.");
+    if (exits.length === 0) {
+      console.log("No expired grace periods to process.");
       return new Response(JSON.stringify({ status: "no_pending_exits" }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 200,
@@ -67,79 +79,17 @@ Deno.serve(async (req) => {
     }
 
     console.log(`Found ${exits.length} expired exits to review.`);
+    const policies = new Map<string, Promise<Policy>>();
+    let processed = 0;
+    let escalatedCount = 0;
 
     for (const exit of exits) {
       console.log(`Processing clock_entry_id ${exit.clock_entry_id} for worker ${exit.worker_id}`);
 
-      // 2️⃣ Check if already re-entered or confirmed
-      const { data: existingEvents } = await supabase
-        .from("geofence_events")
-        .select("event_type")
-        .eq("clock_entry_id", exit.clock_entry_id)
-        .in("event_type", ["re_entry", "exit_confirmed"]);
-
-      if (existingEvents && existingEvents.length > 0) {
-        console.log(`Skipping ${exit.clock_entry_id} (already handled: ${existingEvents.map((e) => e.event_type).join(", ")})`);
-        
-        // Clean up this exit_detected event since it's been handled
-        await supabase
-          .from("geofence_events")
-          .delete()
-          .eq("id", exit.id);
-        
-        continue;
-      }
-
-      // 2b️⃣ Check if there are any location_fix events after the exit (worker re-entered)
-      const { data: recentFixes } = await supabase
-        .from("geofence_events")
-        .select("id, distance_from_center, job_radius, accuracy")
-        .eq("clock_entry_id", exit.clock_entry_id)
-        .eq("event_type", "location_fix")
-        .gt("timestamp", exit.timestamp);
-
-      if (recentFixes && recentFixes.length > 0) {
-        // Check if any of these fixes show the worker is back inside with reliable accuracy
-        const backInside = recentFixes.some(fix => 
-          fix.distance_from_center <= fix.job_radius && fix.accuracy <= ACCURACY_PASS_M
-        );
-
-        if (backInside) {
-          console.log(`Worker re-entered geofence for ${exit.clock_entry_id}, recording re_entry event`);
-          
-          // Find the most recent fix that shows they're back inside
-          const mostRecentFix = recentFixes.find(fix => 
-            fix.distance_from_center <= fix.job_radius && fix.accuracy <= ACCURACY_PASS_M
-          );
-
-          await supabase.from("geofence_events").insert({
-            worker_id: exit.worker_id,
-            clock_entry_id: exit.clock_entry_id,
-            shift_date: new Date().toISOString().split("T")[0],
-            event_type: "re_entry",
-            latitude: exit.latitude,
-            longitude: exit.longitude,
-            accuracy: mostRecentFix?.accuracy || exit.accuracy,
-            distance_from_center: mostRecentFix?.distance_from_center || exit.distance_from_center,
-            job_radius: exit.job_radius,
-            safe_out_threshold: exit.safe_out_threshold,
-            timestamp: new Date().toISOString(),
-          });
-
-          // Clean up this exit_detected event since it's been handled
-          await supabase
-            .from("geofence_events")
-            .delete()
-            .eq("id", exit.id);
-
-          continue;
-        }
-      }
-
-      // 3️⃣ Check if manual clock-out happened or if this is an OT entry
+      // 2️⃣ Check if manual clock-out happened or if this is an OT entry
       const { data: clockEntry } = await supabase
         .from("clock_entries")
-        .select("clock_out, auto_clocked_out, clock_in, is_overtime")
+        .select("clock_out, auto_clocked_out, clock_in, is_overtime, job_id, workers(organization_id)")
         .eq("id", exit.clock_entry_id)
         .single();
 
@@ -154,18 +104,46 @@ Deno.serve(async (req) => {
         continue;
       }
 
-      if (clockEntry.clock_out && !clockEntry.auto_clocked_out) {
-        console.log(`Skipping ${exit.clock_entry_id} (manual clockout detected).`);
+      if (clockEntry.clock_out) {
+        console.log(`Skipping ${exit.clock_entry_id} (already clocked out).`);
+        continue;
+      }
+
+      const policy = await loadPolicy(supabase, clockEntry.workers?.organization_id, clockEntry.job_id, policies);
+      if (now.getTime() - new Date(exit.timestamp).getTime() < getExitGraceMs(policy)) {
+        console.log(`Skipping ${exit.clock_entry_id} (still within its ${policy.exit_grace_minutes}-minute grace).`);
         continue;
       }
 
-      // 4️⃣ Auto-clock-out the worker
+      // 3️⃣ Past the caps the shift stays open for a manager to close - already escalated
+      //    entries are left for them
+      if (await getOpenEscalation(supabase, exit.clock_entry_id)) {
+        console.log(`Skipping ${exit.clock_entry_id} (escalated to a manager).`);
+        continue;
+      }
+      const shiftDate = getUkDateString(new Date(clockEntry.clock_in));
       const clockOutTime = new Date(exit.timestamp);
-      const totalHours =
-        (clockOutTime.getTime() - new Date(clockEntry.clock_in).getTime()) /
-        (1000 * 60 * 60);
+      const decision = await decideAutoClockout(supabase, exit.worker_id, shiftDate, policy);
+      if (!decision.performed) {
+        const escalated = await recordAutoClockout(supabase, {
+          workerId: exit.worker_id,
+          shiftDate,
+          clockEntryId: exit.clock_entry_id,
+          type: "geofence",
+          decision,
+          notes: `Left job site at ${clockOutTime.toISOString()} - not auto clocked-out, escalated (${decision.reason})`,
+        });
+        if (escalated) {
+          console.log(`🚩 Auto-clockout for ${exit.clock_entry_id} escalated to manager (${decision.reason})`);
+          await notifyEscalation(supabase, exit.worker_id, exit.clock_entry_id, shiftDate, decision);
+          escalatedCount++;
+        }
+        continue;
+      }
 
-      const { error: updateError } = await supabase
+      // 4️⃣ Auto-clock-out the worker - claimed first, so a worker who clocked out in the
+      //    meantime keeps their own times and breaks. Then the totals, less unpaid breaks.
+      const { data: closed, error: updateError } = await supabase
         .from("clock_entries")
         .update({
           clock_out: clockOutTime.toISOString(),
@@ -173,28 +151,68 @@ Deno.serve(async (req) => {
           clock_out_lng: exit.longitude,
           auto_clocked_out: true,
           auto_clockout_type: "geofence",
-          total_hours: totalHours,
           geofence_exit_data: {
             distance: exit.distance_from_center,
             accuracy: exit.accuracy,
             threshold: exit.safe_out_threshold,
             radius: exit.job_radius,
+            mode: exit.metadata?.geofence_mode ?? "circle",
+            zone: exit.metadata?.zone ?? null,
+            suspicion_flags: exit.suspicion_flags ?? [],
           },
           notes: `Auto clocked-out by geofence exit at ${clockOutTime.toLocaleTimeString()} (left job site)`,
         })
         .eq("id", exit.clock_entry_id)
-        .is("clock_out", null);
+        .is("clock_out", null)
+        .select("id")
+        .maybeSingle();
 
       if (updateError) {
         console.error(`Failed to update clock entry ${exit.clock_entry_id}:`, updateError);
         continue;
       }
+      if (!closed) {
+        console.log(`Skipping ${exit.clock_entry_id} (clocked out before the auto clock-out).`);
+        continue;
+      }
 
-      // 5️⃣ Record exit_confirmed
+      const breaks = await closeEntryBreaks(
+        supabase,
+        exit.clock_entry_id,
+        clockEntry.workers?.organization_id ?? null,
+        clockOutTime,
+      );
+      const totalHours = Math.max(
+        0,
+        (clockOutTime.getTime() - new Date(clockEntry.clock_in).getTime()) / (1000 * 60 * 60) -
+          breaks.unpaidMinutes / 60,
+      );
+
+      const { error: totalsError } = await supabase
+        .from("clock_entries")
+        .update({
+          total_hours: totalHours,
+          break_minutes: breaks.breakMinutes,
+          unpaid_break_minutes: breaks.unpaidMinutes,
+        })
+        .eq("id", exit.clock_entry_id);
+
+      if (totalsError) console.error(`Failed to update totals for ${exit.clock_entry_id}:`, totalsError);
+
+      // 5️⃣ grace -> outside_confirmed, and exit_confirmed for the audit trail
+      await recordAutoClockout(supabase, {
+        workerId: exit.worker_id,
+        shiftDate,
+        clockEntryId: exit.clock_entry_id,
+        type: "geofence",
+        decision,
+        notes: `Auto clocked-out by geofence exit at ${clockOutTime.toISOString()}`,
+      });
+      await confirmGeofenceExit(supabase, exit.clock_entry_id, clockOutTime);
       await supabase.from("geofence_events").insert({
         worker_id: exit.worker_id,
         clock_entry_id: exit.clock_entry_id,
-        shift_date: new Date(clockEntry.clock_in).toISOString().split("T")[0],
+        shift_date: shiftDate,
         event_type: "exit_confirmed",
         latitude: exit.latitude,
         longitude: exit.longitude,
@@ -203,22 +221,21 @@ Deno.serve(async (req) => {
         job_radius: exit.job_radius,
         safe_out_threshold: exit.safe_out_threshold,
         timestamp: clockOutTime.toISOString(),
+        metadata: exit.metadata,
+        suspicion_flags: exit.suspicion_flags ?? [],
       });
 
-      // Clean up the original exit_detected event
-      await supabase
-        .from("geofence_events")
-        .delete()
-        .eq("id", exit.id);
-
       // 6️⃣ Send notification
-      const clockOutTimeFormatted = clockOutTime.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
-      const clockOutDateFormatted = clockOutTime.toLocaleDateString("en-GB");
-      const clockOutDate = clockOutTime.toISOString().split("T")[0];
+      const clockOutTimeFormatted = clockOutTime.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone: UK_TIMEZONE });
+      const clockOutDateFormatted = clockOutTime.toLocaleDateString("en-GB", { timeZone: UK_TIMEZONE });
+      const clockOutDate = getUkDateString(clockOutTime);
       const dedupeKey = `${exit.worker_id}:${clockOutDate}:auto_clockout_geofence`;
 
       const notificationTitle = "Auto Clocked-Out - Left Job Site";
-      const notificationBody = `You were automatically clocked out at ${clockOutTimeFormatted} on ${clockOutDateFormatted}.\n\nReason: You left the job site geofence area within 1 hour before your scheduled shift end time. Your location was detected ${exit.distance_from_center.toFixed(0)}m from the site center (threshold: ${exit.safe_out_threshold}m).\n\nIf this timestamp is incorrect or you did not leave the site, please submit a Time Amendment request in the app.`;
+      const detectedAt = exit.metadata?.geofence_mode === "polygon"
+        ? `${Number(exit.distance_from_center).toFixed(0)}m outside the site boundary (threshold: ${exit.safe_out_threshold}m)`
+        : `${Number(exit.distance_from_center).toFixed(0)}m from the site center (threshold: ${exit.safe_out_threshold}m)`;
+      const notificationBody = `You were automatically clocked out at ${clockOutTimeFormatted} on ${clockOutDateFormatted}.\n\nReason: You left the job site geofence area within ${policy.geofence_window_minutes} minutes before your scheduled shift end time. Your location was detected ${detectedAt}.\n\nIf this timestamp is incorrect or you did not leave the site, please submit a Time Amendment request in the app.`;
 
       await supabase.from("notifications").insert({
         worker_id: exit.worker_id,
@@ -230,9 +247,10 @@ Deno.serve(async (req) => {
       });
 
       console.log(`✅ Auto-clockout completed for ${exit.worker_id} (${exit.clock_entry_id})`);
+      processed++;
     }
 
-    return new Response(JSON.stringify({ status: "processed", count: exits.length }), {
+    return new Response(JSON.stringify({ status: "processed", count: processed, escalated: escalatedCount }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
     });
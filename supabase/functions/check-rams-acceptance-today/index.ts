@@ -1,5 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.0';
 import { corsHeaders } from '../_shared/cors.ts';
+import { getUkDayBounds } from '../_shared/shiftTime.ts';
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -38,9 +39,8 @@ Deno.serve(async (req) => {
 
     console.log(`Checking RAMS acceptance for worker ${worker_id} on job ${job_id}`);
 
-    // Get start of today in UTC
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // "Today" is the UK day - the server runs in UTC, which is an hour out during BST
+    const { start: today } = getUkDayBounds();
 
     // Check if already accepted today
     const { data, error } = await supabaseClient
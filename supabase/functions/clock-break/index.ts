@@ -0,0 +1,106 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { CLOCK_BREAK_EMBED } from "../_shared/breaks.ts";
+
+// Start or end a break on the worker's open clock entry. Hours are only adjusted at
+// clock-out, where unpaid break time is deducted.
+
+interface ClockBreakPayload {
+  clock_entry_id: string;
+  action: "start" | "end";
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const payload: ClockBreakPayload = await req.json();
+    console.log("=== CLOCK-BREAK INVOCATION ===", {
+      worker_id: worker.id,
+      clock_entry_id: payload.clock_entry_id,
+      action: payload.action,
+    });
+
+    if (!payload.clock_entry_id || (payload.action !== "start" && payload.action !== "end")) {
+      return errorResponse(400, "clock_entry_id and action ('start' or 'end') are required", "invalid_request");
+    }
+
+    // 1. The worker's entry, which must still be open
+    const { data: entry, error: entryError } = await supabase
+      .from("clock_entries")
+      .select("id, clock_out")
+      .eq("id", payload.clock_entry_id)
+      .eq("worker_id", worker.id)
+      .maybeSingle();
+
+    if (entryError || !entry) {
+      console.error("Clock entry not found:", payload.clock_entry_id, entryError);
+      return errorResponse(404, "Clock entry not found", "entry_not_found");
+    }
+
+    if (entry.clock_out) {
+      return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out");
+    }
+
+    const now = new Date().toISOString();
+
+    // 2. Start or end the break. One open break per entry is enforced by a unique index.
+    if (payload.action === "start") {
+      const { error: insertError } = await supabase.from("clock_breaks").insert({
+        clock_entry_id: entry.id,
+        worker_id: worker.id,
+        started_at: now,
+      });
+
+      if (insertError) {
+        if (insertError.code === "23505") {
+          return errorResponse(409, "You are already on a break.", "break_in_progress");
+        }
+        console.error("Break insert error:", insertError);
+        return errorResponse(500, "Failed to start break: " + insertError.message, "break_failed");
+      }
+    } else {
+      const { data: ended, error: updateError } = await supabase
+        .from("clock_breaks")
+        .update({ ended_at: now })
+        .eq("clock_entry_id", entry.id)
+        .is("ended_at", null)
+        .select("id");
+
+      if (updateError) {
+        console.error("Break update error:", updateError);
+        return errorResponse(500, "Failed to end break: " + updateError.message, "break_failed");
+      }
+
+      if (!ended || ended.length === 0) {
+        return errorResponse(409, "You are not on a break.", "no_break_in_progress");
+      }
+    }
+
+    // 3. Return the entry's breaks so the app can show the running total
+    const { data: updated, error: fetchError } = await supabase
+      .from("clock_entries")
+      .select(`id, ${CLOCK_BREAK_EMBED}`)
+      .eq("id", entry.id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    console.log(`✅ Break ${payload.action === "start" ? "started" : "ended"}:`, entry.id);
+
+    return jsonResponse({ success: true, entry: updated });
+  } catch (error) {
+    console.error("Error in clock-break:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
@@ -0,0 +1,261 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { checkClockLocation, describeClockLocationFailure } from "../_shared/geofence.ts";
+import {
+  getCurrentShiftInstance,
+  getEffectiveSchedule,
+  getShiftInstanceBounds,
+  getUkDayBounds,
+} from "../_shared/shiftTime.ts";
+import { getProofMethod } from "../_shared/siteQr.ts";
+import {
+  checkJobAssignment,
+  checkRamsAcceptance,
+  checkSiteQr,
+  CLOCK_IN_JOB_COLUMNS,
+  getClockPhotoUrl,
+  isValidFix,
+  MAX_CLOCK_SKEW_MS,
+  type RamsAcceptancePayload,
+  recordQrScan,
+  recordTravelSegment,
+  resolveClockTime,
+} from "../_shared/clockEntry.ts";
+
+// Authoritative clock-in. The app captures the fix and uploads the photo, but the
+// entry is only ever created here, after the checks below have passed server-side.
+
+interface ClockInPayload {
+  job_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  photo_path: string;
+  clocked_at?: string; // Only sent when replaying an offline clock-in
+  is_overtime?: boolean;
+  // Sent when the worker has just accepted RAMS in the app
+  rams_acceptance?: RamsAcceptancePayload;
+  qr_code?: string; // Site QR scanned (or short code typed) as proof of presence
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const payload: ClockInPayload = await req.json();
+    console.log("=== CLOCK-IN INVOCATION ===", {
+      worker_id: worker.id,
+      job_id: payload.job_id,
+      accuracy: payload.accuracy,
+      clocked_at: payload.clocked_at,
+      is_overtime: payload.is_overtime || false,
+    });
+
+    if (!payload.job_id || !isValidFix(payload.latitude, payload.longitude)) {
+      return errorResponse(400, "job_id, latitude and longitude are required", "invalid_request");
+    }
+
+    const clockTime = resolveClockTime(payload.clocked_at);
+    if (!clockTime.ok) {
+      return errorResponse(400, clockTime.error, "invalid_clock_time");
+    }
+    const clockIn = clockTime.time.toISOString();
+
+    const photoUrl = getClockPhotoUrl(supabase, worker.id, payload.photo_path);
+    if (!photoUrl) {
+      return errorResponse(400, "A clock-in photo is required", "photo_required");
+    }
+
+    // 1. Load the job
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select(CLOCK_IN_JOB_COLUMNS)
+      .eq("id", payload.job_id)
+      .maybeSingle();
+
+    if (jobError || !job || !job.is_active) {
+      console.error("Job not found or inactive:", payload.job_id, jobError);
+      return errorResponse(404, "Selected job not found", "job_not_found");
+    }
+
+    // 2. Replays may already have landed on an attempt whose response was lost - recorded
+    //    at the queued time, or at ours if that attempt arrived within the clock skew
+    if (payload.clocked_at) {
+      const queuedAt = new Date(String(payload.clocked_at));
+      const { data: existing } = await supabase
+        .from("clock_entries")
+        .select("*, jobs(name)")
+        .eq("worker_id", worker.id)
+        .eq("job_id", job.id)
+        .gte("clock_in", queuedAt.toISOString())
+        .lte("clock_in", new Date(queuedAt.getTime() + MAX_CLOCK_SKEW_MS).toISOString())
+        .limit(1)
+        .maybeSingle();
+
+      if (existing) {
+        console.log("Replayed clock-in already recorded:", existing.id);
+        return jsonResponse({ success: true, entry: existing, duplicate: true });
+      }
+    }
+
+    // 3. Assignment
+    const assignment = await checkJobAssignment(supabase, worker.id, job.id, clockTime.time);
+    if (!assignment.ok) {
+      return errorResponse(assignment.status, assignment.error, assignment.code);
+    }
+
+    // 4. Geofence / UK bounds - same maths as track-location. A site QR scan backs the
+    // fix up, or stands in for it on jobs where QR can replace GPS.
+    const qrValid = payload.qr_code ? await checkSiteQr(supabase, job, payload.qr_code, clockTime.time) : false;
+    if (payload.qr_code && !qrValid) {
+      return errorResponse(403, "That site QR code isn't valid for this job.", "invalid_site_qr");
+    }
+
+    const location = checkClockLocation(job, payload.latitude, payload.longitude);
+    const proofMethod = getProofMethod(location, qrValid, job.qr_mode);
+    console.log("Location check:", {
+      allowed: location.allowed,
+      mode: location.mode,
+      distance: location.distance !== null ? Math.round(location.distance) : null,
+      radius: job.geofence_radius,
+      geofence_enabled: job.geofence_enabled,
+      proof_method: proofMethod,
+    });
+
+    if (!proofMethod) {
+      const message = describeClockLocationFailure(location, payload.accuracy ?? 0, "clock in");
+      return errorResponse(403, message, location.reason ?? "outside_geofence", {
+        distance: location.distance !== null ? Math.round(location.distance) : null,
+        radius: job.geofence_radius,
+      });
+    }
+
+    // 5. One open entry per worker
+    const { data: openEntries, error: openError } = await supabase
+      .from("clock_entries")
+      .select("id")
+      .eq("worker_id", worker.id)
+      .is("clock_out", null)
+      .limit(1);
+
+    if (openError) throw openError;
+
+    if (openEntries && openEntries.length > 0) {
+      return errorResponse(409, "You are already clocked in. Please clock out first.", "already_clocked_in", {
+        clock_entry_id: openEntries[0].id,
+      });
+    }
+
+    const { start: dayStart } = getUkDayBounds(clockTime.time);
+
+    // 6. RAMS acceptance. The documents can't be shown without signal, so an offline
+    // replay needs an acceptance already recorded that day, before the time it claims.
+    if (job.show_rams_and_site_info !== false) {
+      const rams = clockTime.replayed
+        ? await checkRamsAcceptance(supabase, worker.id, job.id, undefined, dayStart, clockTime.time)
+        : await checkRamsAcceptance(supabase, worker.id, job.id, payload.rams_acceptance, dayStart);
+      if (!rams.ok) {
+        return errorResponse(rams.status, rams.error, rams.code);
+      }
+    }
+
+    // 7. Overtime - after shift end the entry must go through OT approval. The site's
+    // hours win over the worker's; the shift instance handles night shifts, whose end
+    // is on the day after they start.
+    const shift = getCurrentShiftInstance(getEffectiveSchedule(worker, job), clockTime.time);
+    const pastShiftEnd = !!shift && clockTime.time > shift.end;
+
+    if (pastShiftEnd && !payload.is_overtime) {
+      return errorResponse(409, "Your shift has ended. Please request overtime instead.", "overtime_required");
+    }
+    if (payload.is_overtime && !pastShiftEnd) {
+      return errorResponse(400, "Overtime can only be requested after your shift has ended.", "overtime_not_allowed");
+    }
+
+    let overtimeFields: Record<string, unknown> = {};
+    if (payload.is_overtime && shift) {
+      const { start: shiftFrom, end: shiftTo } = getShiftInstanceBounds(shift);
+
+      const { data: existingOT } = await supabase
+        .from("clock_entries")
+        .select("id, ot_status")
+        .eq("worker_id", worker.id)
+        .eq("is_overtime", true)
+        .gte("clock_in", shiftFrom.toISOString())
+        .lt("clock_in", shiftTo.toISOString())
+        .limit(1);
+
+      if (existingOT && existingOT.length > 0) {
+        return errorResponse(409, "You already have an overtime request for this shift.", "overtime_exists", {
+          ot_status: existingOT[0].ot_status,
+        });
+      }
+
+      const { data: mainShift } = await supabase
+        .from("clock_entries")
+        .select("id")
+        .eq("worker_id", worker.id)
+        .eq("is_overtime", false)
+        .gte("clock_in", shiftFrom.toISOString())
+        .lt("clock_in", shiftTo.toISOString())
+        .order("clock_in", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      overtimeFields = {
+        is_overtime: true,
+        ot_status: "pending",
+        ot_requested_at: new Date().toISOString(),
+        linked_shift_id: mainShift?.id ?? null,
+      };
+    }
+
+    // 8. Create the entry
+    const { data: entry, error: insertError } = await supabase
+      .from("clock_entries")
+      .insert({
+        worker_id: worker.id,
+        job_id: job.id,
+        clock_in: clockIn,
+        clock_in_photo: photoUrl,
+        clock_in_lat: payload.latitude,
+        clock_in_lng: payload.longitude,
+        source: clockTime.replayed ? "offline_sync" : "manual",
+        proof_method: proofMethod,
+        ...overtimeFields,
+        // The time came from the app - a manager approves it before it counts
+        ...(clockTime.replayed ? { sync_status: "pending", synced_at: new Date().toISOString() } : {}),
+      })
+      .select("*, jobs(name)")
+      .single();
+
+    if (insertError) {
+      console.error("Clock-in insert error:", insertError);
+      return errorResponse(500, "Failed to clock in: " + insertError.message, "insert_failed");
+    }
+
+    console.log("✅ Clock-in recorded:", entry.id);
+
+    if (qrValid) {
+      await recordQrScan(supabase, worker.id, job.id, entry.id, clockTime.time);
+    }
+
+    // 9. Travel from the worker's last site today, if they've come from another job
+    await recordTravelSegment(supabase, worker.id, worker.organization_id, entry, job);
+
+    return jsonResponse({ success: true, entry });
+  } catch (error) {
+    console.error("Error in clock-in:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
@@ -0,0 +1,216 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { checkClockLocation, describeClockLocationFailure } from "../_shared/geofence.ts";
+import { getProofMethod } from "../_shared/siteQr.ts";
+import { getOpenEscalation } from "../_shared/autoClockout.ts";
+import { getPendingExitTime } from "../_shared/geofenceState.ts";
+import {
+  checkSiteQr,
+  closeEntryBreaks,
+  getClockPhotoUrl,
+  isValidFix,
+  recordQrScan,
+  resolveClockTime,
+  roundHours,
+} from "../_shared/clockEntry.ts";
+
+// Authoritative clock-out: re-checks the location and computes total_hours server-side,
+// less any unpaid break time. A shift the auto clock-out caps left open (escalated) can be
+// closed off site - see step 2.
+
+interface ClockOutPayload {
+  clock_entry_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  photo_path: string;
+  clocked_at?: string; // Only sent when replaying an offline clock-out
+  qr_code?: string; // Site QR scanned (or short code typed) as proof of presence
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const payload: ClockOutPayload = await req.json();
+    console.log("=== CLOCK-OUT INVOCATION ===", {
+      worker_id: worker.id,
+      clock_entry_id: payload.clock_entry_id,
+      accuracy: payload.accuracy,
+      clocked_at: payload.clocked_at,
+    });
+
+    if (!payload.clock_entry_id || !isValidFix(payload.latitude, payload.longitude)) {
+      return errorResponse(400, "clock_entry_id, latitude and longitude are required", "invalid_request");
+    }
+
+    const clockTime = resolveClockTime(payload.clocked_at);
+    if (!clockTime.ok) {
+      return errorResponse(400, clockTime.error, "invalid_clock_time");
+    }
+
+    const photoUrl = getClockPhotoUrl(supabase, worker.id, payload.photo_path);
+    if (!photoUrl) {
+      return errorResponse(400, "A clock-out photo is required", "photo_required");
+    }
+
+    // 1. Load the worker's entry with its job
+    const { data: entry, error: entryError } = await supabase
+      .from("clock_entries")
+      .select("id, clock_in, clock_out, notes, jobs(id, name, latitude, longitude, geofence_radius, geofence_enabled, geofence_zones, safe_out_buffer_m, qr_mode)")
+      .eq("id", payload.clock_entry_id)
+      .eq("worker_id", worker.id)
+      .maybeSingle();
+
+    if (entryError || !entry) {
+      console.error("Clock entry not found:", payload.clock_entry_id, entryError);
+      return errorResponse(404, "Clock entry not found", "entry_not_found");
+    }
+
+    if (entry.clock_out) {
+      return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out", {
+        clock_out: entry.clock_out,
+      });
+    }
+
+    const clockIn = new Date(entry.clock_in);
+    if (clockTime.time <= clockIn) {
+      return errorResponse(400, "Clock out must be after clock in", "invalid_clock_time");
+    }
+
+    // 2. Geofence / UK bounds - same maths as track-location - or a site QR scan
+    const job = entry.jobs;
+    if (!job) {
+      return errorResponse(404, "Job not found", "job_not_found");
+    }
+
+    const qrValid = payload.qr_code ? await checkSiteQr(supabase, job, payload.qr_code, clockTime.time) : false;
+    if (payload.qr_code && !qrValid) {
+      return errorResponse(403, "That site QR code isn't valid for this job.", "invalid_site_qr");
+    }
+
+    const location = checkClockLocation(job, payload.latitude, payload.longitude);
+    const proofMethod = getProofMethod(location, qrValid, job.qr_mode);
+    console.log("Location check:", {
+      allowed: location.allowed,
+      mode: location.mode,
+      distance: location.distance !== null ? Math.round(location.distance) : null,
+      radius: job.geofence_radius,
+      geofence_enabled: job.geofence_enabled,
+      proof_method: proofMethod,
+    });
+
+    // An escalated shift can be closed from anywhere - the worker has usually gone home.
+    // It closes no later than the auto clock-out would have, and the escalation stays open
+    // for a manager to confirm the finish time.
+    let clockOut = clockTime.time;
+    const escalation = proofMethod ? null : await getOpenEscalation(supabase, entry.id);
+    if (!proofMethod && !escalation) {
+      const message = describeClockLocationFailure(location, payload.accuracy ?? 0, "clock out");
+      return errorResponse(403, message, location.reason ?? "outside_geofence", {
+        distance: location.distance !== null ? Math.round(location.distance) : null,
+        radius: job.geofence_radius,
+      });
+    }
+    if (escalation) {
+      const exitTime = escalation.auto_clockout_type === "geofence" ? await getPendingExitTime(supabase, entry.id) : null;
+      const latest = exitTime ?? new Date(escalation.decided_at);
+      if (latest < clockOut && latest > clockIn) clockOut = latest;
+      console.log("Escalated shift closed off site:", { clock_entry_id: entry.id, clock_out: clockOut.toISOString() });
+    }
+
+    // 3. Close the entry - guarded on clock_out so an auto clock-out racing us wins cleanly
+    const { data: closed, error: updateError } = await supabase
+      .from("clock_entries")
+      .update({
+        clock_out: clockOut.toISOString(),
+        clock_out_photo: photoUrl,
+        clock_out_lat: payload.latitude,
+        clock_out_lng: payload.longitude,
+        clock_out_proof_method: proofMethod,
+        ...(escalation
+          ? { notes: [entry.notes, "Clocked out off site after an escalated auto clock-out - finish time to be confirmed by a manager"].filter(Boolean).join(" | ") }
+          : {}),
+        // The time came from the app - a manager approves it before it counts
+        ...(clockTime.replayed ? { sync_status: "pending", synced_at: new Date().toISOString() } : {}),
+      })
+      .eq("id", entry.id)
+      .is("clock_out", null)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Clock-out update error:", updateError);
+      return errorResponse(500, "Failed to clock out: " + updateError.message, "update_failed");
+    }
+
+    if (!closed) {
+      return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out");
+    }
+
+    // 4. Now the entry is ours: end a break left running, and total the hours less unpaid breaks
+    const breaks = await closeEntryBreaks(supabase, entry.id, worker.organization_id, clockOut);
+    const totalHours = roundHours(
+      Math.max(0, clockOut.getTime() - clockIn.getTime() - breaks.unpaidMinutes * 60 * 1000),
+    );
+
+    const { data: updated, error: totalsError } = await supabase
+      .from("clock_entries")
+      .update({
+        total_hours: totalHours,
+        break_minutes: breaks.breakMinutes,
+        unpaid_break_minutes: breaks.unpaidMinutes,
+      })
+      .eq("id", entry.id)
+      .select("*, jobs(name)")
+      .single();
+
+    if (totalsError) {
+      console.error("Clock-out totals update error:", totalsError);
+      return errorResponse(500, "Clocked out, but your hours couldn't be totalled. Please refresh.", "totals_failed");
+    }
+
+    if (qrValid) {
+      await recordQrScan(supabase, worker.id, job.id, entry.id, clockOut);
+    }
+
+    // 5. A shift split by site switches is reported as a whole - the app bases expenses on it
+    let shiftTotalHours = totalHours;
+    if (updated.shift_id) {
+      const { data: segments } = await supabase
+        .from("clock_entries")
+        .select("total_hours")
+        .eq("shift_id", updated.shift_id);
+      shiftTotalHours = Math.round(
+        (segments ?? []).reduce((sum, s) => sum + Number(s.total_hours ?? 0), 0) * 100,
+      ) / 100;
+    }
+
+    console.log("✅ Clock-out recorded:", {
+      id: updated.id,
+      total_hours: totalHours,
+      shift_total_hours: shiftTotalHours,
+      break_minutes: breaks.breakMinutes,
+      unpaid_break_minutes: breaks.unpaidMinutes,
+    });
+
+    return jsonResponse({
+      success: true,
+      entry: { ...updated, shift_total_hours: shiftTotalHours },
+      escalated: !!escalation,
+    });
+  } catch (error) {
+    console.error("Error in clock-out:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
@@ -0,0 +1,274 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { checkClockLocation, describeClockLocationFailure } from "../_shared/geofence.ts";
+import {
+  getCurrentShiftInstance,
+  getEffectiveSchedule,
+  WORKER_SCHEDULE_COLUMNS,
+  type WorkerSchedule,
+} from "../_shared/shiftTime.ts";
+import { getProofMethod } from "../_shared/siteQr.ts";
+import {
+  checkJobAssignment,
+  checkSiteQr,
+  CLOCK_IN_JOB_COLUMNS,
+  getClockPhotoUrl,
+  isValidFix,
+  recordQrScan,
+  recordTravelSegment,
+} from "../_shared/clockEntry.ts";
+
+// Crew (gang) clock-in: a foreman clocks in workers who don't have a phone with them.
+// The foreman's fix (or site QR scan) is checked once against the job; each member then gets
+// their own entry, linked by crew_batch_id. Members are never clocked in to overtime -
+// that needs their own request - and RAMS is the foreman's responsibility on site.
+//
+// { action: "list" } returns the foreman's organisation, for the crew picker.
+
+interface CrewClockInPayload {
+  action: "list" | "clock_in";
+  job_id?: string;
+  worker_ids?: string[];
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  photo_path?: string; // One group photo for the whole crew
+  member_photo_paths?: Record<string, string>; // Or one per member, keyed by worker id
+  qr_code?: string; // Site QR the foreman scanned
+}
+
+interface CrewMember extends WorkerSchedule {
+  id: string;
+  name: string;
+  organization_id: string | null;
+}
+
+// Large enough for a gang, small enough that one bad tap can't clock in a whole firm
+const MAX_CREW_SIZE = 20;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const foreman = await getRequestWorker(req, supabase);
+    if (!foreman) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const { data: permission } = await supabase
+      .from("workers")
+      .select("can_clock_crew")
+      .eq("id", foreman.id)
+      .single();
+
+    if (!permission?.can_clock_crew || !foreman.organization_id) {
+      return errorResponse(403, "You are not authorised to clock in a crew.", "crew_not_allowed");
+    }
+
+    const payload: CrewClockInPayload = await req.json();
+    console.log("=== CREW-CLOCK-IN INVOCATION ===", {
+      foreman_id: foreman.id,
+      action: payload.action,
+      job_id: payload.job_id,
+      members: payload.worker_ids?.length ?? 0,
+    });
+
+    // Crew picker: the rest of the organisation, flagging who is already clocked in
+    if (payload.action === "list") {
+      const { data: workers, error: workersError } = await supabase
+        .from("workers")
+        .select("id, name")
+        .eq("organization_id", foreman.organization_id)
+        .eq("is_active", true)
+        .neq("id", foreman.id)
+        .order("name");
+
+      if (workersError) throw workersError;
+
+      const { data: open } = await supabase
+        .from("clock_entries")
+        .select("worker_id")
+        .in("worker_id", (workers ?? []).map((w) => w.id))
+        .is("clock_out", null);
+
+      const clockedIn = new Set((open ?? []).map((e) => e.worker_id));
+      return jsonResponse({
+        success: true,
+        workers: (workers ?? []).map((w) => ({ ...w, clocked_in: clockedIn.has(w.id) })),
+      });
+    }
+
+    const workerIds = Array.from(new Set(payload.worker_ids ?? [])).filter((id) => id !== foreman.id);
+    if (
+      payload.action !== "clock_in" ||
+      !payload.job_id ||
+      workerIds.length === 0 ||
+      !isValidFix(payload.latitude, payload.longitude)
+    ) {
+      return errorResponse(400, "job_id, worker_ids, latitude and longitude are required", "invalid_request");
+    }
+
+    if (workerIds.length > MAX_CREW_SIZE) {
+      return errorResponse(400, `A crew can have at most ${MAX_CREW_SIZE} members.`, "crew_too_large");
+    }
+
+    const latitude = payload.latitude as number;
+    const longitude = payload.longitude as number;
+    const now = new Date();
+
+    // 1. Photos - a group photo, or one for every member. Uploaded to the foreman's folder.
+    const groupPhotoUrl = payload.photo_path ? getClockPhotoUrl(supabase, foreman.id, payload.photo_path) : null;
+    const photoUrls = new Map<string, string>();
+    for (const id of workerIds) {
+      const memberPath = payload.member_photo_paths?.[id];
+      const url = memberPath ? getClockPhotoUrl(supabase, foreman.id, memberPath) : groupPhotoUrl;
+      if (!url) {
+        return errorResponse(400, "A group photo or a photo of each crew member is required", "photo_required");
+      }
+      photoUrls.set(id, url);
+    }
+
+    // 2. Load the job
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select(CLOCK_IN_JOB_COLUMNS)
+      .eq("id", payload.job_id)
+      .maybeSingle();
+
+    if (jobError || !job || !job.is_active) {
+      console.error("Job not found or inactive:", payload.job_id, jobError);
+      return errorResponse(404, "Selected job not found", "job_not_found");
+    }
+
+    // 3. Geofence / UK bounds, once, against the foreman's fix - or the foreman's site QR
+    // scan, on jobs where QR can replace GPS
+    const qrValid = payload.qr_code ? await checkSiteQr(supabase, job, payload.qr_code, now) : false;
+    if (payload.qr_code && !qrValid) {
+      return errorResponse(403, "That site QR code isn't valid for this job.", "invalid_site_qr");
+    }
+
+    const location = checkClockLocation(job, latitude, longitude);
+    const proofMethod = getProofMethod(location, qrValid, job.qr_mode);
+    console.log("Location check:", {
+      allowed: location.allowed,
+      mode: location.mode,
+      distance: location.distance !== null ? Math.round(location.distance) : null,
+      radius: job.geofence_radius,
+      geofence_enabled: job.geofence_enabled,
+      proof_method: proofMethod,
+    });
+
+    if (!proofMethod) {
+      const message = describeClockLocationFailure(location, payload.accuracy ?? 0, "clock in");
+      return errorResponse(403, message, location.reason ?? "outside_geofence", {
+        distance: location.distance !== null ? Math.round(location.distance) : null,
+        radius: job.geofence_radius,
+      });
+    }
+
+    // 4. Members - same organisation, active, assigned, not clocked in, shift not over.
+    // Anyone who fails is skipped and reported back rather than failing the whole crew.
+    const { data: members, error: membersError } = await supabase
+      .from("workers")
+      .select(`id, name, organization_id, ${WORKER_SCHEDULE_COLUMNS}`)
+      .in("id", workerIds)
+      .eq("organization_id", foreman.organization_id)
+      .eq("is_active", true);
+
+    if (membersError) throw membersError;
+
+    const { data: openEntries, error: openError } = await supabase
+      .from("clock_entries")
+      .select("worker_id")
+      .in("worker_id", workerIds)
+      .is("clock_out", null);
+
+    if (openError) throw openError;
+    const alreadyIn = new Set((openEntries ?? []).map((e) => e.worker_id));
+
+    const eligible: CrewMember[] = [];
+    const skipped: { worker_id: string; name: string | null; code: string; reason: string }[] = [];
+    const found = new Map(((members ?? []) as CrewMember[]).map((m) => [m.id, m]));
+
+    for (const id of workerIds) {
+      const member = found.get(id);
+      if (!member) {
+        skipped.push({ worker_id: id, name: null, code: "worker_not_found", reason: "Not an active worker in your organisation" });
+        continue;
+      }
+      if (alreadyIn.has(id)) {
+        skipped.push({ worker_id: id, name: member.name, code: "already_clocked_in", reason: "Already clocked in" });
+        continue;
+      }
+
+      const assignment = await checkJobAssignment(supabase, id, job.id, now);
+      if (!assignment.ok) {
+        skipped.push({ worker_id: id, name: member.name, code: assignment.code, reason: "Not assigned to this job" });
+        continue;
+      }
+
+      const shift = getCurrentShiftInstance(getEffectiveSchedule(member, job), now);
+      if (shift && now > shift.end) {
+        skipped.push({ worker_id: id, name: member.name, code: "overtime_required", reason: "Shift has ended" });
+        continue;
+      }
+
+      eligible.push(member);
+    }
+
+    if (eligible.length === 0) {
+      return errorResponse(409, "None of the selected workers could be clocked in.", "crew_none_eligible", { skipped });
+    }
+
+    // 5. Create the entries
+    const crewBatchId = crypto.randomUUID();
+    const { data: entries, error: insertError } = await supabase
+      .from("clock_entries")
+      .insert(
+        eligible.map((member) => ({
+          worker_id: member.id,
+          job_id: job.id,
+          clock_in: now.toISOString(),
+          clock_in_photo: photoUrls.get(member.id),
+          clock_in_lat: latitude,
+          clock_in_lng: longitude,
+          source: "crew",
+          proof_method: proofMethod,
+          crew_lead_id: foreman.id,
+          crew_batch_id: crewBatchId,
+        })),
+      )
+      .select("id, worker_id, job_id, clock_in, jobs(name)");
+
+    if (insertError) {
+      console.error("Crew clock-in insert error:", insertError);
+      return errorResponse(500, "Failed to clock in crew: " + insertError.message, "insert_failed");
+    }
+
+    if (qrValid) {
+      await recordQrScan(supabase, foreman.id, job.id, null, now);
+    }
+
+    // 6. Travel from each member's last site today
+    for (const entry of entries ?? []) {
+      const member = found.get(entry.worker_id);
+      await recordTravelSegment(supabase, entry.worker_id, member?.organization_id ?? null, entry, job);
+    }
+
+    console.log("✅ Crew clocked in:", {
+      crew_batch_id: crewBatchId,
+      entries: entries?.length ?? 0,
+      skipped: skipped.length,
+    });
+
+    return jsonResponse({ success: true, crew: { crew_batch_id: crewBatchId, entries, skipped } });
+  } catch (error) {
+    console.error("Error in crew-clock-in:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestManager, jsonResponse } from "../_shared/auth.ts";
+import { calibrateJob, type CalibrationEvent, type CalibrationJob } from "../_shared/geofenceCalibration.ts";
+import type { Policy } from "../_shared/policy.ts";
+import { loadPolicy } from "../_shared/policyStore.ts";
+
+// Radius calibration report for a manager's jobs: the distribution of in-shift fix distances,
+// the false-exit rate, a recommended radius / safe-out threshold and any centre point that
+// looks misplaced, from the organisation's geofence events over the last `days` days.
+// The analysis is in _shared/geofenceCalibration.ts; the app shows it and exports the CSV.
+
+interface CalibrationPayload {
+  days?: number;
+}
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+// Keeps each `in` filter's URL short, and pages through the events
+const ID_CHUNK_SIZE = 100;
+const PAGE_SIZE = 1000;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+async function fetchEvents(supabase: SupabaseClient, entryIds: string[]): Promise<CalibrationEvent[]> {
+  const events: CalibrationEvent[] = [];
+  for (const ids of chunk(entryIds, ID_CHUNK_SIZE)) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("geofence_events")
+        .select("id, clock_entry_id, event_type, latitude, longitude, accuracy, timestamp, suspicion_flags, metadata")
+        .in("clock_entry_id", ids)
+        .in("event_type", ["location_fix", "exit_detected", "exit_confirmed", "re_entry", "exit_prompt_response"])
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      events.push(...((data ?? []) as CalibrationEvent[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+  return events;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const payload: CalibrationPayload = await req.json().catch(() => ({}));
+
+    const manager = await getRequestManager(req, supabase);
+    if (!manager) {
+      return errorResponse(403, "Only a manager can view the geofence calibration report.", "manager_required");
+    }
+
+    const days = Math.min(MAX_DAYS, Math.max(1, Math.round(Number(payload.days) || DEFAULT_DAYS)));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    console.log("=== GEOFENCE-CALIBRATION INVOCATION ===", { organization_id: manager.organization_id, days });
+
+    // 1. The organisation's clock entries in the period - jobs belong to an organisation
+    //    through the workers who clock in to them
+    const { data: workers, error: workersError } = await supabase
+      .from("workers")
+      .select("id")
+      .eq("organization_id", manager.organization_id);
+
+    if (workersError) throw workersError;
+
+    const entries: { id: string; job_id: string }[] = [];
+    for (const ids of chunk((workers ?? []).map((w) => w.id as string), ID_CHUNK_SIZE)) {
+      const { data, error } = await supabase
+        .from("clock_entries")
+        .select("id, job_id")
+        .in("worker_id", ids)
+        .gte("clock_in", since.toISOString());
+
+      if (error) throw error;
+      entries.push(...(data ?? []));
+    }
+
+    const jobIds = [...new Set(entries.map((entry) => entry.job_id))];
+    if (jobIds.length === 0) {
+      return jsonResponse({ success: true, days, since: since.toISOString(), jobs: [] });
+    }
+
+    // 2. Their jobs and geofence events
+    const { data: jobs, error: jobsError } = await supabase
+      .from("jobs")
+      .select("id, name, code, latitude, longitude, geofence_radius, geofence_enabled, geofence_zones, safe_out_buffer_m")
+      .in("id", jobIds)
+      .order("name");
+
+    if (jobsError) throw jobsError;
+
+    const events = await fetchEvents(supabase, entries.map((entry) => entry.id));
+    const jobOfEntry = new Map(entries.map((entry) => [entry.id, entry.job_id]));
+    const eventsByJob = new Map<string, CalibrationEvent[]>();
+    for (const event of events) {
+      const jobId = jobOfEntry.get(event.clock_entry_id);
+      if (!jobId) continue;
+      if (!eventsByJob.has(jobId)) eventsByJob.set(jobId, []);
+      eventsByJob.get(jobId)!.push(event);
+    }
+
+    // 3. Each job under its own policy - the accuracy cut-off and safe-out rules
+    const policies = new Map<string, Promise<Policy>>();
+    const calibrations = [];
+    for (const job of (jobs ?? []) as CalibrationJob[]) {
+      const policy = await loadPolicy(supabase, manager.organization_id, job.id, policies);
+      calibrations.push(calibrateJob(job, eventsByJob.get(job.id) ?? [], policy));
+    }
+
+    console.log(`✅ Calibrated ${calibrations.length} jobs from ${events.length} events`);
+    return jsonResponse({ success: true, days, since: since.toISOString(), jobs: calibrations });
+  } catch (error) {
+    console.error("Error in geofence-calibration:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
@@ -0,0 +1,181 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { closeEntryBreaks, roundHours } from "../_shared/clockEntry.ts";
+import { confirmGeofenceExit, getGeofenceState } from "../_shared/geofenceState.ts";
+import { EXIT_PROMPT_RESPONSES, type ExitPromptResponse } from "../_shared/exitPrompt.ts";
+import { getUkDateString } from "../_shared/shiftTime.ts";
+
+// The worker's answer to the "Are you still on site?" prompt sent at a geofence exit.
+// "left" clocks them out straight away at the exit time; "still_on_site" is only recorded -
+// the app follows it with a fresh high-accuracy fix, and track-location moves the entry
+// back inside if that fix is good. Either way the answer is kept as an exit_prompt_response
+// event. Unanswered, the grace period runs out as usual.
+
+interface ExitResponsePayload {
+  clock_entry_id: string;
+  exit_event_id?: string; // The exit the prompt was about - the current one if not sent
+  response: ExitPromptResponse;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const payload: ExitResponsePayload = await req.json();
+    console.log("=== GEOFENCE-EXIT-RESPONSE INVOCATION ===", {
+      worker_id: worker.id,
+      clock_entry_id: payload.clock_entry_id,
+      exit_event_id: payload.exit_event_id,
+      response: payload.response,
+    });
+
+    if (!payload.clock_entry_id || !EXIT_PROMPT_RESPONSES.includes(payload.response)) {
+      return errorResponse(400, "clock_entry_id and a valid response are required", "invalid_request");
+    }
+
+    // 1. The worker's entry, its geofence state and the exit the prompt was about
+    const { data: entry } = await supabase
+      .from("clock_entries")
+      .select("id, clock_in, clock_out")
+      .eq("id", payload.clock_entry_id)
+      .eq("worker_id", worker.id)
+      .maybeSingle();
+
+    if (!entry) {
+      return errorResponse(404, "Clock entry not found", "entry_not_found");
+    }
+
+    const state = await getGeofenceState(supabase, entry.id);
+    const exitEventId = payload.exit_event_id ?? state?.exit_event_id;
+    const { data: exit } = exitEventId
+      ? await supabase
+        .from("geofence_events")
+        .select("id, latitude, longitude, accuracy, distance_from_center, job_radius, safe_out_threshold, timestamp, metadata, suspicion_flags")
+        .eq("id", exitEventId)
+        .eq("clock_entry_id", entry.id)
+        .eq("event_type", "exit_detected")
+        .maybeSingle()
+      : { data: null };
+
+    if (!exit) {
+      return errorResponse(404, "No exit found for this shift", "exit_not_found");
+    }
+
+    // Only the exit that started the current grace period can still be acted on
+    const inGrace = !entry.clock_out && state?.state === "grace" && state.exit_event_id === exit.id;
+    const now = new Date();
+    const exitTime = new Date(exit.timestamp);
+
+    // 2. Record the answer
+    const { error: responseError } = await supabase.from("geofence_events").insert({
+      worker_id: worker.id,
+      clock_entry_id: entry.id,
+      shift_date: getUkDateString(new Date(entry.clock_in)),
+      event_type: "exit_prompt_response",
+      latitude: exit.latitude,
+      longitude: exit.longitude,
+      accuracy: exit.accuracy,
+      distance_from_center: exit.distance_from_center,
+      job_radius: exit.job_radius,
+      safe_out_threshold: exit.safe_out_threshold,
+      timestamp: now.toISOString(),
+      metadata: {
+        response: payload.response,
+        exit_event_id: exit.id,
+        seconds_after_exit: Math.round((now.getTime() - exitTime.getTime()) / 1000),
+        state: entry.clock_out ? "clocked_out" : state?.state ?? null,
+      },
+    });
+    if (responseError) throw responseError;
+
+    if (payload.response === "still_on_site" || !inGrace) {
+      console.log("Exit prompt response recorded:", { response: payload.response, in_grace: inGrace });
+      return jsonResponse({
+        status: inGrace ? "recorded" : entry.clock_out ? "already_clocked_out" : "not_in_grace",
+        geofence_state: state?.state ?? null,
+      });
+    }
+
+    // 3. "I've left" - clock out at the exit. Guarded on clock_out, and breaks are only
+    //    closed once this update has won, then the totals less unpaid break time.
+    const { data: closed, error: updateError } = await supabase
+      .from("clock_entries")
+      .update({
+        clock_out: exitTime.toISOString(),
+        clock_out_lat: exit.latitude,
+        clock_out_lng: exit.longitude,
+        notes: "Clocked out at geofence exit (worker confirmed they had left the site)",
+      })
+      .eq("id", entry.id)
+      .is("clock_out", null)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Clock-out update error:", updateError);
+      return errorResponse(500, "Failed to clock out: " + updateError.message, "update_failed");
+    }
+
+    if (!closed) {
+      return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out");
+    }
+
+    const breaks = await closeEntryBreaks(supabase, entry.id, worker.organization_id, exitTime);
+    const totalHours = roundHours(
+      Math.max(0, exitTime.getTime() - new Date(entry.clock_in).getTime() - breaks.unpaidMinutes * 60 * 1000),
+    );
+
+    const { data: updated, error: totalsError } = await supabase
+      .from("clock_entries")
+      .update({
+        total_hours: totalHours,
+        break_minutes: breaks.breakMinutes,
+        unpaid_break_minutes: breaks.unpaidMinutes,
+      })
+      .eq("id", entry.id)
+      .select("*, jobs(name)")
+      .single();
+
+    // The shift is closed either way - the exit still has to be confirmed below
+    if (totalsError) console.error("Clock-out totals update error:", totalsError);
+
+    // 4. grace -> outside_confirmed, and exit_confirmed for the audit trail
+    await confirmGeofenceExit(supabase, entry.id, exitTime);
+    await supabase.from("geofence_events").insert({
+      worker_id: worker.id,
+      clock_entry_id: entry.id,
+      shift_date: getUkDateString(new Date(entry.clock_in)),
+      event_type: "exit_confirmed",
+      latitude: exit.latitude,
+      longitude: exit.longitude,
+      accuracy: exit.accuracy,
+      distance_from_center: exit.distance_from_center,
+      job_radius: exit.job_radius,
+      safe_out_threshold: exit.safe_out_threshold,
+      timestamp: exitTime.toISOString(),
+      metadata: { ...exit.metadata, confirmed_by: "worker" },
+      suspicion_flags: exit.suspicion_flags ?? [],
+    });
+
+    console.log("✅ Clocked out at exit on the worker's word:", {
+      id: entry.id,
+      clock_out: exitTime.toISOString(),
+      total_hours: totalHours,
+    });
+
+    return jsonResponse({ status: "clocked_out", geofence_state: "outside_confirmed", entry: updated });
+  } catch (error) {
+    console.error("Error in geofence-exit-response:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
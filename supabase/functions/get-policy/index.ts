@@ -0,0 +1,36 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { loadPolicy } from "../_shared/policyStore.ts";
+
+// The timing and geofence rules for the worker's organisation - and for a job, if given,
+// which may override them. The app uses them for what it decides on the device: the
+// last-hour window, when a fix is accurate enough to send straight away, and the OT cap
+// it tells the worker about. The server applies the same policy whatever the app shows.
+
+interface PolicyPayload {
+  job_id?: string | null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const payload: PolicyPayload = await req.json().catch(() => ({}));
+    const policy = await loadPolicy(supabase, worker.organization_id, payload.job_id ?? null);
+
+    return jsonResponse({ policy });
+  } catch (error) {
+    console.error("Error in get-policy:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
@@ -0,0 +1,471 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  createServiceClient,
+  errorResponse,
+  getRequestManager,
+  getRequestWorker,
+  jsonResponse,
+} from "../_shared/auth.ts";
+import { checkClockLocation, describeClockLocationFailure } from "../_shared/geofence.ts";
+import {
+  getCurrentShiftInstance,
+  getEffectiveSchedule,
+  getUkDateString,
+  WORKER_SCHEDULE_COLUMNS,
+  type WorkerSchedule,
+} from "../_shared/shiftTime.ts";
+import {
+  checkJobAssignment,
+  CLOCK_IN_JOB_COLUMNS,
+  closeEntryBreaks,
+  getClockPhotoUrl,
+  isValidFix,
+  recordTravelSegment,
+  roundHours,
+} from "../_shared/clockEntry.ts";
+import { isAssignmentActive } from "../_shared/jobAssignment.ts";
+
+// Shared-tablet kiosk for site cabins. A manager pairs the tablet to a job once; after
+// that the tablet sends its device token with every call instead of a user session,
+// and workers identify with their badge code, or by picking their name and entering
+// their PIN. JWT verification is off for this
+// function - `pair` and `set_pin` check the caller's session themselves.
+//
+// Actions:
+//   list_jobs - manager session -> active jobs, for the pairing form
+//   pair     - manager session + job_id -> a new device token (returned once)
+//   status   - device token -> the paired job
+//   roster   - device token -> workers assigned to the job today who have a PIN, to pick from
+//   identify - device token + credential -> the worker's first name and what "clock" would do
+//   clock    - device token + credential + photo + fix -> clocks the worker in or out
+//   set_pin  - worker session + pin -> sets the worker's kiosk PIN
+//
+// Responses to the tablet only ever carry the worker's first name (with a last initial in
+// the roster) and the action just taken, so nothing about the previous worker is left on
+// a shared screen.
+
+interface KioskPayload {
+  action: "list_jobs" | "pair" | "status" | "roster" | "identify" | "clock" | "set_pin";
+  device_token?: string;
+  job_id?: string; // pair
+  name?: string; // pair - e.g. "Main cabin"
+  worker_id?: string; // identify / clock - picked from the roster, with pin
+  pin?: string;
+  badge_code?: string;
+  photo?: string; // clock - base64 JPEG taken on the tablet
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+}
+
+interface KioskDevice {
+  id: string;
+  organization_id: string;
+  job_id: string;
+  name: string;
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+interface KioskWorker extends WorkerSchedule {
+  id: string;
+  name: string;
+  organization_id: string;
+}
+
+const PIN_PATTERN = /^\d{4,8}$/;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 5;
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// PINs are short, so they're hashed with the organisation id - the same PIN in two
+// organisations gives two different hashes
+function hashPin(organizationId: string, pin: string): Promise<string> {
+  return sha256(`${organizationId}:${pin}`);
+}
+
+function generateDeviceToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function decodePhoto(photo: unknown): Uint8Array | null {
+  if (typeof photo !== "string" || photo.length === 0) return null;
+  try {
+    const binary = atob(photo.replace(/^data:image\/\w+;base64,/, ""));
+    if (binary.length > MAX_PHOTO_BYTES) return null;
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+async function getDevice(supabase: SupabaseClient, token: unknown): Promise<KioskDevice | null> {
+  if (typeof token !== "string" || token.length === 0) return null;
+
+  const { data: device } = await supabase
+    .from("kiosk_devices")
+    .select("id, organization_id, job_id, name, failed_attempts, locked_until")
+    .eq("token_hash", await sha256(token))
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (!device) return null;
+
+  await supabase.from("kiosk_devices").update({ last_seen_at: new Date().toISOString() }).eq("id", device.id);
+  return device as KioskDevice;
+}
+
+// Find the worker for a badge code, or the picked worker if their PIN matches. Wrong credentials count against the device,
+// which locks for a few minutes after MAX_FAILED_ATTEMPTS so PINs can't be guessed.
+async function identifyWorker(
+  supabase: SupabaseClient,
+  device: KioskDevice,
+  payload: KioskPayload,
+): Promise<{ worker: KioskWorker } | { response: Response }> {
+  if (device.locked_until && new Date(device.locked_until) > new Date()) {
+    return { response: errorResponse(423, "Too many wrong attempts. Please try again in a few minutes.", "kiosk_locked") };
+  }
+
+  let query = supabase
+    .from("workers")
+    .select(`id, name, organization_id, ${WORKER_SCHEDULE_COLUMNS}`)
+    .eq("organization_id", device.organization_id)
+    .eq("is_active", true);
+
+  if (typeof payload.badge_code === "string" && payload.badge_code.trim()) {
+    query = query.eq("badge_code", payload.badge_code.trim());
+  } else if (typeof payload.worker_id === "string" && typeof payload.pin === "string" && PIN_PATTERN.test(payload.pin)) {
+    query = query.eq("id", payload.worker_id).eq("kiosk_pin_hash", await hashPin(device.organization_id, payload.pin));
+  } else {
+    return { response: errorResponse(400, "Pick your name and enter your PIN, or scan your badge", "credential_required") };
+  }
+
+  const { data: worker, error } = await query.maybeSingle();
+  if (error) throw error;
+
+  if (!worker) {
+    const attempts = device.failed_attempts + 1;
+    const locked = attempts >= MAX_FAILED_ATTEMPTS;
+    await supabase
+      .from("kiosk_devices")
+      .update({
+        failed_attempts: locked ? 0 : attempts,
+        locked_until: locked ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString() : null,
+      })
+      .eq("id", device.id);
+
+    console.log("Kiosk credential not recognised:", { device_id: device.id, attempts, locked });
+    return { response: errorResponse(401, "PIN or badge not recognised", "credential_not_recognised") };
+  }
+
+  if (device.failed_attempts > 0) {
+    await supabase.from("kiosk_devices").update({ failed_attempts: 0, locked_until: null }).eq("id", device.id);
+  }
+
+  return { worker: worker as KioskWorker };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const payload: KioskPayload = await req.json();
+    console.log("=== KIOSK INVOCATION ===", { action: payload.action, job_id: payload.job_id });
+
+    // Pairing: a manager signs in on the tablet once
+    if (payload.action === "list_jobs" || payload.action === "pair") {
+      const manager = await getRequestManager(req, supabase);
+      if (!manager) {
+        return errorResponse(403, "Only a manager can set up a kiosk.", "manager_required");
+      }
+
+      if (payload.action === "list_jobs") {
+        const { data: jobs, error: jobsError } = await supabase
+          .from("jobs")
+          .select("id, name, code")
+          .eq("is_active", true)
+          .order("name");
+
+        if (jobsError) throw jobsError;
+        return jsonResponse({ success: true, jobs: jobs ?? [] });
+      }
+
+      if (!payload.job_id) {
+        return errorResponse(400, "job_id is required", "invalid_request");
+      }
+
+      const { data: job } = await supabase
+        .from("jobs")
+        .select("id, name, is_active")
+        .eq("id", payload.job_id)
+        .maybeSingle();
+
+      if (!job?.is_active) {
+        return errorResponse(404, "Selected job not found", "job_not_found");
+      }
+
+      const token = generateDeviceToken();
+      const { data: device, error: insertError } = await supabase
+        .from("kiosk_devices")
+        .insert({
+          organization_id: manager.organization_id,
+          job_id: job.id,
+          name: payload.name?.trim() || `${job.name} kiosk`,
+          token_hash: await sha256(token),
+          created_by: manager.email,
+        })
+        .select("id, name")
+        .single();
+
+      if (insertError) {
+        console.error("Kiosk device insert error:", insertError);
+        return errorResponse(500, "Failed to set up kiosk: " + insertError.message, "insert_failed");
+      }
+
+      console.log("✅ Kiosk paired:", { device_id: device.id, job_id: job.id });
+      return jsonResponse({
+        success: true,
+        kiosk: { device_token: token, name: device.name, job: { id: job.id, name: job.name } },
+      });
+    }
+
+    // Workers set their own PIN from their profile
+    if (payload.action === "set_pin") {
+      const worker = await getRequestWorker(req, supabase);
+      if (!worker?.organization_id) {
+        return errorResponse(401, "Unauthorized", "unauthorized");
+      }
+      if (typeof payload.pin !== "string" || !PIN_PATTERN.test(payload.pin)) {
+        return errorResponse(400, "Your PIN must be 4 to 8 digits", "invalid_pin");
+      }
+
+      const { error: updateError } = await supabase
+        .from("workers")
+        .update({ kiosk_pin_hash: await hashPin(worker.organization_id, payload.pin) })
+        .eq("id", worker.id);
+
+      if (updateError) throw updateError;
+
+      console.log("✅ Kiosk PIN set:", worker.id);
+      return jsonResponse({ success: true, kiosk: { pin_set: true } });
+    }
+
+    // Everything else is the tablet, authenticated by its device token
+    const device = await getDevice(supabase, payload.device_token);
+    if (!device) {
+      return errorResponse(401, "This kiosk isn't set up. Ask a manager to pair it.", "kiosk_not_paired");
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select(CLOCK_IN_JOB_COLUMNS)
+      .eq("id", device.job_id)
+      .maybeSingle();
+
+    if (jobError || !job || !job.is_active) {
+      console.error("Kiosk job not found or inactive:", device.job_id, jobError);
+      return errorResponse(404, "This kiosk's job is no longer active", "job_not_found");
+    }
+
+    if (payload.action === "status") {
+      return jsonResponse({ success: true, kiosk: { name: device.name, job: { id: job.id, name: job.name } } });
+    }
+
+    // Names only, shortened - the list is on a shared screen
+    if (payload.action === "roster") {
+      const { data: assignments, error: rosterError } = await supabase
+        .from("job_assignments")
+        .select("worker_id, starts_on, ends_on, workers!inner(name)")
+        .eq("job_id", job.id)
+        .eq("workers.organization_id", device.organization_id)
+        .eq("workers.is_active", true)
+        .not("workers.kiosk_pin_hash", "is", null);
+
+      if (rosterError) throw rosterError;
+
+      const today = getUkDateString(new Date());
+      const workers = new Map<string, string>();
+      for (const assignment of assignments ?? []) {
+        if (!isAssignmentActive(assignment, today)) continue;
+        const [first, ...rest] = (assignment.workers as unknown as { name: string }).name.trim().split(/\s+/);
+        const last = rest.at(-1);
+        workers.set(assignment.worker_id, last ? `${first} ${last[0]}.` : first);
+      }
+
+      return jsonResponse({
+        success: true,
+        workers: [...workers].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+      });
+    }
+
+    if (payload.action !== "identify" && payload.action !== "clock") {
+      return errorResponse(400, "Unknown action", "invalid_request");
+    }
+
+    // 1. Who is at the tablet
+    const identified = await identifyWorker(supabase, device, payload);
+    if ("response" in identified) return identified.response;
+    const worker = identified.worker;
+    const firstName = worker.name.split(" ")[0];
+
+    const { data: openEntry, error: openError } = await supabase
+      .from("clock_entries")
+      .select("id, job_id, clock_in, is_overtime")
+      .eq("worker_id", worker.id)
+      .is("clock_out", null)
+      .order("clock_in", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (openError) throw openError;
+
+    // Open entries elsewhere, and overtime, stay with the worker's own phone
+    if (openEntry && (openEntry.job_id !== job.id || openEntry.is_overtime)) {
+      return errorResponse(409, "You're clocked in somewhere else. Please clock out in the app.", "clocked_in_elsewhere", {
+        worker_name: firstName,
+      });
+    }
+
+    const nextAction = openEntry ? "clock_out" : "clock_in";
+
+    if (payload.action === "identify") {
+      return jsonResponse({ success: true, kiosk: { worker_name: firstName, next_action: nextAction } });
+    }
+
+    // 2. The tablet's fix, against the job - the tablet stays in the cabin, but check anyway
+    if (!isValidFix(payload.latitude, payload.longitude)) {
+      return errorResponse(400, "latitude and longitude are required", "invalid_request");
+    }
+    const latitude = payload.latitude as number;
+    const longitude = payload.longitude as number;
+
+    const location = checkClockLocation(job, latitude, longitude);
+    if (!location.allowed) {
+      const action = nextAction === "clock_in" ? "clock in" : "clock out";
+      const message = describeClockLocationFailure(location, payload.accuracy ?? 0, action);
+      return errorResponse(403, message, location.reason ?? "outside_geofence", {
+        distance: location.distance !== null ? Math.round(location.distance) : null,
+        radius: job.geofence_radius,
+      });
+    }
+
+    // 3. Photo - uploaded here into the worker's folder, as the tablet has no session
+    const photo = decodePhoto(payload.photo);
+    if (!photo) {
+      return errorResponse(400, "A clock photo is required", "photo_required");
+    }
+
+    const now = new Date();
+    const photoPath = `${worker.id}/kiosk_${now.getTime()}.jpg`;
+    const { error: uploadError } = await supabase.storage
+      .from("clock-photos")
+      .upload(photoPath, photo, { contentType: "image/jpeg", upsert: true });
+
+    if (uploadError) {
+      console.error("Kiosk photo upload error:", uploadError);
+      return errorResponse(500, "Failed to save photo", "photo_upload_failed");
+    }
+    const photoUrl = getClockPhotoUrl(supabase, worker.id, photoPath);
+
+    // 4a. Clock out - guarded on clock_out, and breaks only closed once this update wins
+    if (openEntry) {
+      const { data: closed, error: updateError } = await supabase
+        .from("clock_entries")
+        .update({
+          clock_out: now.toISOString(),
+          clock_out_photo: photoUrl,
+          clock_out_lat: latitude,
+          clock_out_lng: longitude,
+        })
+        .eq("id", openEntry.id)
+        .is("clock_out", null)
+        .select("id")
+        .maybeSingle();
+
+      if (updateError) {
+        console.error("Kiosk clock-out update error:", updateError);
+        return errorResponse(500, "Failed to clock out: " + updateError.message, "update_failed");
+      }
+      if (!closed) {
+        return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out");
+      }
+
+      const breaks = await closeEntryBreaks(supabase, openEntry.id, worker.organization_id, now);
+      const totalHours = roundHours(
+        Math.max(0, now.getTime() - new Date(openEntry.clock_in).getTime() - breaks.unpaidMinutes * 60 * 1000),
+      );
+
+      const { error: totalsError } = await supabase
+        .from("clock_entries")
+        .update({
+          total_hours: totalHours,
+          break_minutes: breaks.breakMinutes,
+          unpaid_break_minutes: breaks.unpaidMinutes,
+        })
+        .eq("id", openEntry.id);
+
+      if (totalsError) console.error("Kiosk clock-out totals update error:", totalsError);
+
+      console.log("✅ Kiosk clock-out recorded:", { id: openEntry.id, device_id: device.id, total_hours: totalHours });
+      return jsonResponse({
+        success: true,
+        kiosk: { worker_name: firstName, action: "clock_out", time: now.toISOString(), total_hours: totalHours },
+      });
+    }
+
+    // 4b. Clock in - the same checks as clock-in, except RAMS, which is briefed in the
+    // cabin rather than on a shared screen. Overtime needs the worker's own request.
+    const assignment = await checkJobAssignment(supabase, worker.id, job.id, now);
+    if (!assignment.ok) {
+      return errorResponse(assignment.status, assignment.error, assignment.code);
+    }
+
+    const shift = getCurrentShiftInstance(getEffectiveSchedule(worker, job), now);
+    if (shift && now > shift.end) {
+      return errorResponse(409, "Your shift has ended. Please request overtime in the app.", "overtime_required");
+    }
+
+    const { data: entry, error: insertError } = await supabase
+      .from("clock_entries")
+      .insert({
+        worker_id: worker.id,
+        job_id: job.id,
+        clock_in: now.toISOString(),
+        clock_in_photo: photoUrl,
+        clock_in_lat: latitude,
+        clock_in_lng: longitude,
+        source: "kiosk",
+        kiosk_device_id: device.id,
+      })
+      .select("id, job_id, clock_in")
+      .single();
+
+    if (insertError) {
+      console.error("Kiosk clock-in insert error:", insertError);
+      return errorResponse(500, "Failed to clock in: " + insertError.message, "insert_failed");
+    }
+
+    console.log("✅ Kiosk clock-in recorded:", { id: entry.id, device_id: device.id });
+
+    await recordTravelSegment(supabase, worker.id, worker.organization_id, entry, job);
+
+    return jsonResponse({
+      success: true,
+      kiosk: { worker_name: firstName, action: "clock_in", time: now.toISOString() },
+    });
+  } catch (error) {
+    console.error("Error in kiosk:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
@@ -0,0 +1,114 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { checkJobAssignment, MAX_CLOCK_SKEW_MS, roundHours } from "../_shared/clockEntry.ts";
+import { getUkDayBounds, MAX_SHIFT_HOURS } from "../_shared/shiftTime.ts";
+
+// A complete shift the worker adds from their timesheet after the fact. Clock entries can
+// only be created with the service role, so this is the manual-entry path; hours are worked
+// out here rather than trusted from the app.
+
+interface ManualEntryPayload {
+  job_id: string;
+  clock_in: string;
+  clock_out: string;
+  notes?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const payload: ManualEntryPayload = await req.json();
+    console.log("=== MANUAL-ENTRY INVOCATION ===", {
+      worker_id: worker.id,
+      job_id: payload.job_id,
+      clock_in: payload.clock_in,
+      clock_out: payload.clock_out,
+    });
+
+    const clockIn = new Date(String(payload.clock_in));
+    const clockOut = new Date(String(payload.clock_out));
+    if (!payload.job_id || isNaN(clockIn.getTime()) || isNaN(clockOut.getTime())) {
+      return errorResponse(400, "job_id, clock_in and clock_out are required", "invalid_request");
+    }
+    if (clockOut <= clockIn) {
+      return errorResponse(400, "Clock out time must be after clock in time", "invalid_clock_time");
+    }
+    if (clockOut.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return errorResponse(400, "Manual entries can't end in the future", "invalid_clock_time");
+    }
+    if (clockOut.getTime() - clockIn.getTime() > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+      return errorResponse(400, `A shift can't be longer than ${MAX_SHIFT_HOURS} hours`, "invalid_clock_time");
+    }
+
+    // 1. The job
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select("id, is_active")
+      .eq("id", payload.job_id)
+      .maybeSingle();
+
+    if (jobError || !job?.is_active) {
+      return errorResponse(404, "Selected job not found", "job_not_found");
+    }
+
+    // 2. Assigned to the job on the day worked
+    const assignment = await checkJobAssignment(supabase, worker.id, job.id, clockIn);
+    if (!assignment.ok) {
+      return errorResponse(assignment.status, assignment.error, assignment.code);
+    }
+
+    // 3. One entry per day - anything else on the day needs an amendment instead
+    const { start: dayStart, end: dayEnd } = getUkDayBounds(clockIn);
+    const { data: existing, error: existingError } = await supabase
+      .from("clock_entries")
+      .select("id")
+      .eq("worker_id", worker.id)
+      .gte("clock_in", dayStart.toISOString())
+      .lt("clock_in", dayEnd.toISOString())
+      .limit(1);
+
+    if (existingError) throw existingError;
+    if (existing && existing.length > 0) {
+      return errorResponse(409, "You already have an entry for this date", "entry_exists", {
+        clock_entry_id: existing[0].id,
+      });
+    }
+
+    // 4. Create the entry
+    const { data: entry, error: insertError } = await supabase
+      .from("clock_entries")
+      .insert({
+        worker_id: worker.id,
+        job_id: job.id,
+        clock_in: clockIn.toISOString(),
+        clock_out: clockOut.toISOString(),
+        total_hours: roundHours(clockOut.getTime() - clockIn.getTime()),
+        manual_entry: true,
+        notes: payload.notes?.trim() || null,
+      })
+      .select("*, jobs(name)")
+      .single();
+
+    if (insertError) {
+      console.error("Manual entry insert error:", insertError);
+      return errorResponse(500, "Failed to add manual entry: " + insertError.message, "insert_failed");
+    }
+
+    console.log("✅ Manual entry recorded:", entry.id);
+    return jsonResponse({ success: true, entry });
+  } catch (error) {
+    console.error("Error in manual-entry:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
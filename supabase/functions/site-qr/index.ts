@@ -0,0 +1,146 @@
+import QRCode from "https://esm.sh/qrcode@1.5.4";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  createServiceClient,
+  errorResponse,
+  getRequestManager,
+  getRequestWorker,
+  jsonResponse,
+} from "../_shared/auth.ts";
+import { buildSiteQr, QR_PRESENCE_MINUTES } from "../_shared/siteQr.ts";
+import { checkSiteQr, recordQrScan } from "../_shared/clockEntry.ts";
+
+// Site QR codes, for jobs where GPS can't be trusted indoors.
+//
+// Actions:
+//   list_jobs - manager session -> active jobs and their QR mode, for the display page
+//   issue     - manager session + job_id -> today's code as an SVG, plus the short code
+//   scan      - worker session + clock_entry_id + code -> records presence while on shift;
+//               track-location counts it as inside the fence for QR_PRESENCE_MINUTES,
+//               for fixes within QR_NEAR_SITE_M
+//
+// Scans at clock in/out go through the clock functions (qr_code), not here.
+
+interface SiteQrPayload {
+  action: "list_jobs" | "issue" | "scan";
+  job_id?: string;
+  clock_entry_id?: string;
+  code?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const payload: SiteQrPayload = await req.json();
+    console.log("=== SITE-QR INVOCATION ===", { action: payload.action, job_id: payload.job_id });
+
+    if (payload.action === "list_jobs" || payload.action === "issue") {
+      const manager = await getRequestManager(req, supabase);
+      if (!manager) {
+        return errorResponse(403, "Only a manager can print site QR codes.", "manager_required");
+      }
+
+      if (payload.action === "list_jobs") {
+        const { data: jobs, error: jobsError } = await supabase
+          .from("jobs")
+          .select("id, name, code, qr_mode")
+          .eq("is_active", true)
+          .order("name");
+
+        if (jobsError) throw jobsError;
+        return jsonResponse({ success: true, jobs: jobs ?? [] });
+      }
+
+      const { data: job } = await supabase
+        .from("jobs")
+        .select("id, name, code, qr_mode, is_active")
+        .eq("id", payload.job_id ?? "")
+        .maybeSingle();
+
+      if (!job?.is_active) {
+        return errorResponse(404, "Selected job not found", "job_not_found");
+      }
+      if (job.qr_mode === "off") {
+        return errorResponse(409, "Site QR check-in is turned off for this job.", "qr_not_enabled");
+      }
+
+      // 1. The job's secret - created the first time a code is printed
+      await supabase.from("job_qr_secrets").upsert({ job_id: job.id }, { onConflict: "job_id", ignoreDuplicates: true });
+      const { data: secret, error: secretError } = await supabase
+        .from("job_qr_secrets")
+        .select("secret")
+        .eq("job_id", job.id)
+        .single();
+
+      if (secretError) throw secretError;
+
+      // 2. Today's code
+      const qr = await buildSiteQr(secret.secret, job.id, new Date());
+      const svg = await QRCode.toString(qr.payload, { type: "svg", errorCorrectionLevel: "M", margin: 2 });
+
+      console.log("✅ Site QR issued:", { job_id: job.id, by: manager.email, valid_until: qr.validUntil.toISOString() });
+      return jsonResponse({
+        success: true,
+        qr: {
+          job: { id: job.id, name: job.name, code: job.code },
+          qr_mode: job.qr_mode,
+          svg,
+          short_code: qr.shortCode,
+          valid_until: qr.validUntil.toISOString(),
+        },
+      });
+    }
+
+    if (payload.action !== "scan") {
+      return errorResponse(400, "Unknown action", "invalid_request");
+    }
+
+    // Presence scan while on shift
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+    if (!payload.clock_entry_id || !payload.code) {
+      return errorResponse(400, "clock_entry_id and code are required", "invalid_request");
+    }
+
+    const { data: entry, error: entryError } = await supabase
+      .from("clock_entries")
+      .select("id, clock_out, jobs(id, qr_mode)")
+      .eq("id", payload.clock_entry_id)
+      .eq("worker_id", worker.id)
+      .maybeSingle();
+
+    if (entryError || !entry?.jobs) {
+      console.error("Clock entry not found:", payload.clock_entry_id, entryError);
+      return errorResponse(404, "Clock entry not found", "entry_not_found");
+    }
+    if (entry.clock_out) {
+      return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out");
+    }
+
+    const now = new Date();
+    if (!(await checkSiteQr(supabase, entry.jobs, payload.code, now))) {
+      return errorResponse(403, "That site QR code isn't valid for this job.", "invalid_site_qr");
+    }
+
+    await recordQrScan(supabase, worker.id, entry.jobs.id, entry.id, now);
+
+    console.log("✅ Site QR scan recorded:", { worker_id: worker.id, clock_entry_id: entry.id });
+    return jsonResponse({
+      success: true,
+      scan: {
+        scanned_at: now.toISOString(),
+        valid_until: new Date(now.getTime() + QR_PRESENCE_MINUTES * 60 * 1000).toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error in site-qr:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
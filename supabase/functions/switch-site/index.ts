@@ -0,0 +1,239 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, errorResponse, getRequestWorker, jsonResponse } from "../_shared/auth.ts";
+import { checkClockLocation, describeClockLocationFailure } from "../_shared/geofence.ts";
+import { getUkDayBounds } from "../_shared/shiftTime.ts";
+import { getProofMethod } from "../_shared/siteQr.ts";
+import {
+  checkJobAssignment,
+  checkRamsAcceptance,
+  checkSiteQr,
+  CLOCK_IN_JOB_COLUMNS,
+  closeEntryBreaks,
+  isValidFix,
+  type RamsAcceptancePayload,
+  recordQrScan,
+  roundHours,
+} from "../_shared/clockEntry.ts";
+
+// Move a clocked-in worker to another job without ending their shift. The open entry
+// is closed and a new segment opened on the new job; both carry the first segment's
+// id in shift_id. The new job gets the same checks as clock-in, except the photo -
+// the segment reuses the shift's clock-in photo.
+
+interface SwitchSitePayload {
+  clock_entry_id: string;
+  job_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  // Sent when the worker has just accepted the new site's RAMS in the app
+  rams_acceptance?: RamsAcceptancePayload;
+  qr_code?: string; // The new site's QR, as proof of presence
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const worker = await getRequestWorker(req, supabase);
+    if (!worker) {
+      return errorResponse(401, "Unauthorized", "unauthorized");
+    }
+
+    const payload: SwitchSitePayload = await req.json();
+    console.log("=== SWITCH-SITE INVOCATION ===", {
+      worker_id: worker.id,
+      clock_entry_id: payload.clock_entry_id,
+      job_id: payload.job_id,
+      accuracy: payload.accuracy,
+    });
+
+    if (!payload.clock_entry_id || !payload.job_id || !isValidFix(payload.latitude, payload.longitude)) {
+      return errorResponse(400, "clock_entry_id, job_id, latitude and longitude are required", "invalid_request");
+    }
+
+    const now = new Date();
+
+    // 1. The worker's open entry
+    const { data: entry, error: entryError } = await supabase
+      .from("clock_entries")
+      .select("id, job_id, clock_in, clock_out, clock_in_photo, is_overtime, shift_id")
+      .eq("id", payload.clock_entry_id)
+      .eq("worker_id", worker.id)
+      .maybeSingle();
+
+    if (entryError || !entry) {
+      console.error("Clock entry not found:", payload.clock_entry_id, entryError);
+      return errorResponse(404, "Clock entry not found", "entry_not_found");
+    }
+
+    if (entry.clock_out) {
+      return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out");
+    }
+
+    // Overtime is approved for one site - clock out and request it again instead
+    if (entry.is_overtime) {
+      return errorResponse(409, "You can't switch site during overtime.", "overtime_switch_not_allowed");
+    }
+
+    if (entry.job_id === payload.job_id) {
+      return errorResponse(400, "You are already clocked in to this job.", "same_job");
+    }
+
+    // 2. Load the new job
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select(CLOCK_IN_JOB_COLUMNS)
+      .eq("id", payload.job_id)
+      .maybeSingle();
+
+    if (jobError || !job || !job.is_active) {
+      console.error("Job not found or inactive:", payload.job_id, jobError);
+      return errorResponse(404, "Selected job not found", "job_not_found");
+    }
+
+    // 3. Assignment
+    const assignment = await checkJobAssignment(supabase, worker.id, job.id, now);
+    if (!assignment.ok) {
+      return errorResponse(assignment.status, assignment.error, assignment.code);
+    }
+
+    // 4. The worker must be at the new site, the same as clocking in there
+    const qrValid = payload.qr_code ? await checkSiteQr(supabase, job, payload.qr_code, now) : false;
+    if (payload.qr_code && !qrValid) {
+      return errorResponse(403, "That site QR code isn't valid for this job.", "invalid_site_qr");
+    }
+
+    const location = checkClockLocation(job, payload.latitude, payload.longitude);
+    const proofMethod = getProofMethod(location, qrValid, job.qr_mode);
+    console.log("Location check:", {
+      allowed: location.allowed,
+      mode: location.mode,
+      distance: location.distance !== null ? Math.round(location.distance) : null,
+      radius: job.geofence_radius,
+      geofence_enabled: job.geofence_enabled,
+      proof_method: proofMethod,
+    });
+
+    if (!proofMethod) {
+      const message = describeClockLocationFailure(location, payload.accuracy ?? 0, "switch site");
+      return errorResponse(403, message, location.reason ?? "outside_geofence", {
+        distance: location.distance !== null ? Math.round(location.distance) : null,
+        radius: job.geofence_radius,
+      });
+    }
+
+    // 5. RAMS acceptance for the new site
+    if (job.show_rams_and_site_info !== false) {
+      const { start: dayStart } = getUkDayBounds(now);
+      const rams = await checkRamsAcceptance(supabase, worker.id, job.id, payload.rams_acceptance, dayStart);
+      if (!rams.ok) {
+        return errorResponse(rams.status, rams.error, rams.code);
+      }
+    }
+
+    // 6. Close the current segment - guarded on clock_out so an auto clock-out racing us wins cleanly
+    //    Its breaks and totals wait until the new segment is open, so a failed switch
+    //    leaves the worker exactly as they were
+    const shiftId = entry.shift_id ?? entry.id;
+    const { data: closed, error: closeError } = await supabase
+      .from("clock_entries")
+      .update({
+        clock_out: now.toISOString(),
+        clock_out_lat: payload.latitude,
+        clock_out_lng: payload.longitude,
+        clock_out_proof_method: proofMethod,
+        shift_id: shiftId,
+      })
+      .eq("id", entry.id)
+      .is("clock_out", null)
+      .select("id")
+      .maybeSingle();
+
+    if (closeError) {
+      console.error("Segment close error:", closeError);
+      return errorResponse(500, "Failed to switch site: " + closeError.message, "update_failed");
+    }
+
+    if (!closed) {
+      return errorResponse(409, "This shift has already been clocked out.", "already_clocked_out");
+    }
+
+    // 7. Open the segment on the new job
+    const { data: segment, error: insertError } = await supabase
+      .from("clock_entries")
+      .insert({
+        worker_id: worker.id,
+        job_id: job.id,
+        clock_in: now.toISOString(),
+        clock_in_photo: entry.clock_in_photo,
+        clock_in_lat: payload.latitude,
+        clock_in_lng: payload.longitude,
+        source: "site_switch",
+        shift_id: shiftId,
+        proof_method: proofMethod,
+      })
+      .select("*, jobs(name)")
+      .single();
+
+    if (insertError) {
+      console.error("Segment insert error:", insertError);
+
+      // Leave the worker clocked in where they were rather than not clocked in at all
+      await supabase
+        .from("clock_entries")
+        .update({
+          clock_out: null,
+          clock_out_lat: null,
+          clock_out_lng: null,
+          clock_out_proof_method: null,
+          shift_id: entry.shift_id,
+        })
+        .eq("id", entry.id);
+
+      return errorResponse(500, "Failed to switch site: " + insertError.message, "insert_failed");
+    }
+
+    // 8. End a break left running on the old segment, and total it less unpaid breaks
+    const breaks = await closeEntryBreaks(supabase, entry.id, worker.organization_id, now);
+    const totalHours = roundHours(
+      Math.max(0, now.getTime() - new Date(entry.clock_in).getTime() - breaks.unpaidMinutes * 60 * 1000),
+    );
+
+    const { data: closedEntry, error: totalsError } = await supabase
+      .from("clock_entries")
+      .update({
+        total_hours: totalHours,
+        break_minutes: breaks.breakMinutes,
+        unpaid_break_minutes: breaks.unpaidMinutes,
+      })
+      .eq("id", entry.id)
+      .select("*, jobs(name)")
+      .single();
+
+    if (totalsError) {
+      console.error("Segment totals update error:", totalsError);
+    }
+
+    if (qrValid) {
+      await recordQrScan(supabase, worker.id, job.id, segment.id, now);
+    }
+
+    console.log("✅ Site switched:", {
+      shift_id: shiftId,
+      closed: closed.id,
+      opened: segment.id,
+      total_hours: totalHours,
+    });
+
+    return jsonResponse({ success: true, entry: segment, closed_entry: closedEntry });
+  } catch (error) {
+    console.error("Error in switch-site:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(500, errorMessage, "internal_error");
+  }
+});
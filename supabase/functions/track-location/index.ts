@@ -1,32 +1,52 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-// Safe-out thresholds based on geofence radius
-const SAFE_OUT_TABLE: Record<number, number> = {
-  50: 90,
-  100: 150,
-  200: 260,
-  300: 380,
-  400: 500,
-  500: 625,
-};
-
-const GRACE_MINUTES = 4;
-const RACE_BUFFER_SEC = 60;
-const ACCURACY_PASS_M = 50;
-const AUTO_WINDOW_MINUTES = 60;
-
-interface LocationPayload {
-  worker_id: string;
-  clock_entry_id: string;
+import {
+  getGeofenceZones,
+  isGeofenceDisabled,
+  measureGeofence,
+} from "../_shared/geofence.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient, jsonResponse } from "../_shared/auth.ts";
+import {
+  formatShiftTime,
+  getEffectiveSchedule,
+  getUkDateString,
+  JOB_SHIFT_COLUMNS,
+  WORKER_SCHEDULE_COLUMNS,
+} from "../_shared/shiftTime.ts";
+import { QR_NEAR_SITE_M, QR_PRESENCE_MINUTES } from "../_shared/siteQr.ts";
+import { filterFix, FIX_HISTORY_SIZE, type FilteredFix, type HistoryFix } from "../_shared/fixFilter.ts";
+import { getGeofenceState, newGeofenceState, saveGeofenceState } from "../_shared/geofenceState.ts";
+import { sendExitPrompt } from "../_shared/exitPrompt.ts";
+import { getExitGraceMs } from "../_shared/policy.ts";
+import { decideFix, type FixStatus, getFixWindow } from "../_shared/geofenceDecision.ts";
+import { loadPolicy } from "../_shared/policyStore.ts";
+
+// Location fixes for geofence exit detection. The app buffers fixes and uploads them in
+// batches (and whatever it collected offline once signal returns), so each batch is
+// evaluated fix by fix in the order they were taken, against the shift as it stood at
+// each fix's time. Fixes are smoothed over the entry's recent history and checked for
+// signs of spoofing first (see fixFilter.ts). Each fix advances the entry's geofence
+// state (inside <-> grace); a new exit asks the worker whether they're still on site, and
+// check-grace-expiry does the clock-out once grace runs out unanswered. Thresholds, the
+// last-hour window and the grace period are the organisation's policy (see policy.ts); the
+// decision for each fix is in geofenceDecision.ts.
+
+// Per invocation - about four hours of fixes at the fastest sampling rate
+const MAX_FIXES_PER_BATCH = 500;
+
+interface LocationFix {
   latitude: number;
   longitude: number;
   accuracy: number;
-  timestamp: string;
+  timestamp: string; // When the fix was taken - the app may send it a little later
+  speed?: number | null; // m/s, when the device reports it
+  sample_interval_s?: number; // How often the app was sending fixes at the time
+}
+
+// A batch of fixes, or a single fix inline (app versions before batching)
+interface LocationPayload extends Partial<LocationFix> {
+  worker_id: string;
+  clock_entry_id: string;
+  fixes?: LocationFix[];
 }
 
 Deno.serve(async (req) => {
@@ -35,33 +55,50 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const supabase = createServiceClient();
 
     const payload: LocationPayload = await req.json();
+    const received = payload.fixes ?? (payload.timestamp ? [payload as LocationFix] : []);
+    const now = Date.now();
+    const fixes = received
+      .filter((fix) => isFinite(fix.latitude) && isFinite(fix.longitude) && isFinite(fix.accuracy))
+      .filter((fix) => isFinite(new Date(fix.timestamp).getTime()))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .slice(-MAX_FIXES_PER_BATCH);
+
     console.log("=== TRACK-LOCATION INVOCATION ===", {
       worker_id: payload.worker_id,
       clock_entry_id: payload.clock_entry_id,
-      accuracy: payload.accuracy,
-      timestamp: payload.timestamp,
+      received: received.length,
+      fixes: fixes.length,
+      first: fixes[0]?.timestamp,
+      last: fixes[fixes.length - 1]?.timestamp,
     });
 
-    // 1. Validate worker is clocked in
+    if (fixes.length === 0) {
+      return jsonResponse({ status: "no_fixes", processed: 0 });
+    }
+
+    // 1. The worker's entry - it may have closed while fixes sat in the app's buffer
     const { data: clockEntry, error: entryError } = await supabase
       .from("clock_entries")
-      .select("*, jobs(latitude, longitude, geofence_radius, geofence_enabled), is_overtime")
+      .select(`*, jobs(latitude, longitude, geofence_radius, geofence_enabled, geofence_zones, safe_out_buffer_m, ${JOB_SHIFT_COLUMNS}), workers(organization_id), is_overtime`)
       .eq("id", payload.clock_entry_id)
       .eq("worker_id", payload.worker_id)
-      .is("clock_out", null)
       .single();
 
-    if (entryError || !clockEntry) {
-      console.log("Worker not clocked in or entry not found");
-      return new Response(JSON.stringify({ status: "not_clocked_in" }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
-      });
+    // Fixes from before this entry started belong to the previous one (e.g. across a site switch);
+    // after a clock-out, fixes taken before it are kept for the audit trail but not checked for exits
+    const clockIn = clockEntry ? new Date(clockEntry.clock_in).getTime() : 0;
+    const clockOut = clockEntry?.clock_out ? new Date(clockEntry.clock_out).getTime() : Infinity;
+    const entryFixes = fixes.filter((fix) => {
+      const fixMs = new Date(fix.timestamp).getTime();
+      return fixMs >= clockIn && fixMs <= clockOut;
+    });
+
+    if (entryError || !clockEntry || entryFixes.length === 0) {
+      console.log("Worker not clocked in, entry not found, or no fixes taken during it");
+      return jsonResponse({ status: "not_clocked_in" });
     }
 
     console.log("Clock entry found:", {
@@ -71,299 +108,297 @@ Deno.serve(async (req) => {
       is_overtime: clockEntry.is_overtime || false,
     });
 
-    // 2. Get job details
+    // 2. Get job details - polygon jobs don't need a radius
     const job = clockEntry.jobs;
-    if (!job || !job.latitude || !job.longitude || !job.geofence_radius) {
+    const hasZones = !!job && getGeofenceZones(job).length > 0;
+    if (!job || ((!job.latitude || !job.longitude || !job.geofence_radius) && !hasZones)) {
       console.error("Invalid job data");
-      return new Response(JSON.stringify({ error: "Invalid job data" }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 400,
+      return jsonResponse({ error: "Invalid job data" }, 400);
+    }
+
+    const shiftDate = getUkDateString(new Date(clockEntry.clock_in));
+    const policy = await loadPolicy(supabase, clockEntry.workers?.organization_id, clockEntry.job_id);
+
+    // 2a. Smoothing and spoof checks, continuing from the entry's last stored fixes
+    const { data: previousFixes } = await supabase
+      .from("geofence_events")
+      .select("latitude, longitude, accuracy, timestamp, suspicion_flags")
+      .eq("clock_entry_id", payload.clock_entry_id)
+      .eq("event_type", "location_fix")
+      .lt("timestamp", entryFixes[0].timestamp)
+      .order("timestamp", { ascending: false })
+      .limit(FIX_HISTORY_SIZE);
+
+    const history: HistoryFix[] = (previousFixes ?? []).reverse().map((row) => ({
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      accuracy: Number(row.accuracy),
+      time: new Date(row.timestamp).getTime(),
+      flags: row.suspicion_flags ?? [],
+    }));
+    const filtered: FilteredFix[] = entryFixes.map((fix) => {
+      const checked = {
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        accuracy: fix.accuracy,
+        time: new Date(fix.timestamp).getTime(),
+      };
+      const result = filterFix(history.slice(-FIX_HISTORY_SIZE), checked, now);
+      history.push({ ...checked, flags: result.flags });
+      return result;
+    });
+
+    const flagged = filtered.filter((result) => result.flags.length > 0).length;
+    if (flagged > 0) {
+      console.warn("⚠️ Suspicious fixes:", {
+        clock_entry_id: payload.clock_entry_id,
+        flagged,
+        flags: [...new Set(filtered.flatMap((r) => r.flags))],
       });
     }
 
-    // 2a. Skip geofence exit detection if geofence is disabled
-    if (job.geofence_enabled === false) {
-      console.log("Geofence disabled for this job - skipping exit detection, only logging location");
-      
-      // Still record location fix for audit trail
-      const shiftDate = new Date(clockEntry.clock_in).toISOString().split("T")[0];
-      await supabase.from("geofence_events").insert({
+    // The app samples adaptively (fast near the fence edge, slow deep inside or on low
+    // battery), so keep its rate with each fix to read gaps in the trail. A fix stamped in
+    // the future is stored at the time it arrived, with the time it claimed kept alongside.
+    const fixRow = (
+      fix: LocationFix,
+      { flags }: FilteredFix,
+      eventType: "location_fix" | "exit_detected" | "re_entry",
+      measured: {
+        distance_from_center: number;
+        job_radius: number;
+        safe_out_threshold: number;
+        metadata: Record<string, unknown>;
+      },
+      position: { latitude: number; longitude: number; accuracy: number } = fix,
+    ) => {
+      const future = flags.includes("future_timestamp");
+      return {
         worker_id: payload.worker_id,
         clock_entry_id: payload.clock_entry_id,
         shift_date: shiftDate,
-        event_type: "location_fix",
-        latitude: payload.latitude,
-        longitude: payload.longitude,
-        accuracy: payload.accuracy,
-        distance_from_center: 0, // Not applicable when geofence disabled
-        job_radius: job.geofence_radius,
-        safe_out_threshold: 0,
-        timestamp: payload.timestamp,
-      });
+        event_type: eventType,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        accuracy: position.accuracy,
+        timestamp: future ? new Date(now).toISOString() : fix.timestamp,
+        suspicion_flags: flags,
+        ...measured,
+        metadata: future ? { ...measured.metadata, reported_timestamp: fix.timestamp } : measured.metadata,
+      };
+    };
+    const sampling = (fix: LocationFix) => ({ speed: fix.speed ?? null, sample_interval_s: fix.sample_interval_s ?? null });
+
+    // 2b. Skip geofence exit detection if geofence is disabled
+    if (isGeofenceDisabled(job)) {
+      console.log("Geofence disabled for this job - skipping exit detection, only logging location");
 
-      return new Response(JSON.stringify({ status: "geofence_disabled", message: "Location logged, no exit detection" }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
+      // Still record location fixes for audit trail
+      const { error: insertError } = await supabase.from("geofence_events").insert(
+        entryFixes.map((fix, index) =>
+          fixRow(fix, filtered[index], "location_fix", {
+            distance_from_center: 0, // Not applicable when geofence disabled
+            job_radius: job.geofence_radius ?? 0,
+            safe_out_threshold: 0,
+            metadata: sampling(fix),
+          }),
+        ),
+      );
+      if (insertError) throw insertError;
+
+      return jsonResponse({
+        status: "geofence_disabled",
+        message: "Location logged, no exit detection",
+        processed: entryFixes.length,
       });
     }
 
-    // 3. Calculate distance from site center
-    const distance = calculateDistance(payload.latitude, payload.longitude, job.latitude, job.longitude);
-
-    // 4. Get safe-out threshold
-    const threshold = getSafeOutThreshold(job.geofence_radius);
-
-    console.log("Distance calculation:", {
-      distance: distance.toFixed(2),
-      threshold: threshold,
-      radius: job.geofence_radius,
-      isOutside: distance > job.geofence_radius,
-    });
-
-    // 5. Record location fix event
-    const shiftDate = new Date(clockEntry.clock_in).toISOString().split("T")[0];
-    await supabase.from("geofence_events").insert({
-      worker_id: payload.worker_id,
-      clock_entry_id: payload.clock_entry_id,
-      shift_date: shiftDate,
-      event_type: "location_fix",
-      latitude: payload.latitude,
-      longitude: payload.longitude,
-      accuracy: payload.accuracy,
-      distance_from_center: distance,
-      job_radius: job.geofence_radius,
-      safe_out_threshold: threshold,
-      timestamp: payload.timestamp,
-    });
-
-    // 6. Check if this is overtime OR in last hour window
+    // 3. Loaded once for the whole batch: the worker's schedule (regular shifts only check
+    //    the last hour window) and any site QR scans that could cover these fixes
     const isOvertime = clockEntry.is_overtime === true;
-    
+    let schedule: ReturnType<typeof getEffectiveSchedule> | null = null;
     if (!isOvertime) {
-      // For regular shifts, only check geofence in last hour window
-      const { data: worker } = await supabase.from("workers").select("shift_end").eq("id", payload.worker_id).single();
-
-      if (!worker || !worker.shift_end) {
-        console.log("Worker shift_end not found");
-        return new Response(JSON.stringify({ status: "no_shift_end" }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 200,
-        });
-      }
-
-      // --- SHIFT END VALIDATION (Unified) ---
-      const shiftEndRaw = worker.shift_end?.trim();
+      const { data: worker } = await supabase
+        .from("workers")
+        .select(WORKER_SCHEDULE_COLUMNS)
+        .eq("id", payload.worker_id)
+        .single();
+      // The site's hours, else the worker's (override, weekly schedule or default), else the organisation's
+      schedule = getEffectiveSchedule(worker, clockEntry.jobs);
+    } else {
+      console.log("Overtime session detected - always checking geofence");
+    }
 
-      if (!shiftEndRaw) {
-        console.error("Missing shift_end");
-        return new Response(JSON.stringify({ status: "no_shift_end" }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 200,
-        });
+    const presenceMs = QR_PRESENCE_MINUTES * 60 * 1000;
+    const firstFixMs = new Date(entryFixes[0].timestamp).getTime();
+    const { data: scans } = await supabase
+      .from("qr_scans")
+      .select("scanned_at")
+      .eq("clock_entry_id", payload.clock_entry_id)
+      .gte("scanned_at", new Date(firstFixMs - presenceMs).toISOString());
+    const scanTimes = (scans ?? []).map((scan) => new Date(scan.scanned_at).getTime());
+
+    // The entry's geofence state as the batch starts - fixes before clock-out on a closed
+    // entry are only kept for the record and leave it alone
+    const isOpen = clockOut === Infinity;
+    const storedState = isOpen ? await getGeofenceState(supabase, payload.clock_entry_id) : null;
+    const state = storedState
+      ? { ...storedState }
+      : newGeofenceState(payload.clock_entry_id, payload.worker_id, new Date(clockIn));
+
+    // 4. Each fix in the order it was taken
+    const events: (ReturnType<typeof fixRow> & { id?: string })[] = [];
+    const statuses: Record<FixStatus, number> = {
+      clocked_out: 0,
+      rejected_fix: 0,
+      outside_window: 0,
+      no_shift_end: 0,
+      inside_fence: 0,
+      inside_fence_qr: 0,
+      exit_detected: 0,
+      exit_ongoing: 0,
+      re_entered: 0,
+    };
+    let lastStatus: FixStatus = "inside_fence";
+    let last = { distance: 0, threshold: 0 };
+
+    for (const [index, fix] of entryFixes.entries()) {
+      const fixTime = new Date(fix.timestamp);
+      const result = filtered[index];
+      const { smoothed } = result;
+
+      // 4a. Distance and safe-out threshold - from the centre for circles, from the nearest edge for polygon zones.
+      //     The raw fix is what's stored; the smoothed position is what exit decisions use.
+      const measure = (latitude: number, longitude: number) => {
+        const measurement = measureGeofence(job, latitude, longitude, policy);
+        return {
+          measurement,
+          measured: {
+            distance_from_center: measurement.distance,
+            job_radius: measurement.radius,
+            safe_out_threshold: Math.round(measurement.threshold),
+            metadata: { geofence_mode: measurement.mode, zone: measurement.zone, ...sampling(fix) } as Record<string, unknown>,
+          },
+        };
+      };
+      const raw = measure(fix.latitude, fix.longitude);
+      const decision = smoothed.samples > 1 ? measure(smoothed.latitude, smoothed.longitude) : raw;
+      const { distance, threshold, radius } = decision.measurement;
+      if (decision !== raw) {
+        raw.measured.metadata.smoothed = { ...smoothed, distance };
+      }
+      last = { distance, threshold };
+
+      // 4b. Record location fix event
+      events.push(fixRow(fix, result, "location_fix", raw.measured));
+
+      // 4c. Regular shifts only check the geofence in the last hour window - as it was when the fix was taken.
+      //     Times may be HH:MM, HH:MM:SS, or h:mm AM/PM, and night shifts end the next morning.
+      let status: FixStatus | null = !isOpen ? "clocked_out" : result.rejected ? "rejected_fix" : null;
+      if (!result.rejected) state.last_fix_at = fix.timestamp;
+      if (!status) {
+        const { shift, windowStart, status: windowStatus } = getFixWindow(schedule, isOvertime, fixTime, policy);
+        status = windowStatus;
+        if (status && status !== lastStatus) {
+          console.log("Not checking exit:", {
+            status,
+            at: fix.timestamp,
+            shift_source: schedule?.source,
+            worker_shift_end: shift ? formatShiftTime(shift.shiftEnd) : null,
+            windowStart: windowStart?.toISOString(),
+          });
+        }
       }
 
-      // Use the robust parser to support HH:MM, HH:MM:SS, or 12h AM/PM
-      const parsedShiftEnd = parseShiftEnd(shiftEndRaw);
-      if (!parsedShiftEnd) {
-        console.error("Invalid shift_end format:", shiftEndRaw);
-        return new Response(
-          JSON.stringify({
-            status: "invalid_shift_end",
-            error: "shift_end must be in HH:MM, HH:MM:SS, or h:mm AM/PM format",
-          }),
-          {
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-            status: 400,
-          },
+      // 4d. Advance the state - a recent site QR scan counts as being on site, as long as
+      //     the fix is near it
+      const fixMs = fixTime.getTime();
+      const qrPresent =
+        distance <= QR_NEAR_SITE_M && scanTimes.some((scanned) => scanned <= fixMs && fixMs - scanned <= presenceMs);
+      if (!status) {
+        status = decideFix(
+          state.state === "grace" ? "grace" : "inside",
+          { inside: decision.measurement.inside, distance, radius, threshold, accuracy: smoothed.accuracy, qrPresent },
+          policy,
         );
+        if (status === "re_entered") {
+          state.state = "inside";
+          state.state_changed_at = fix.timestamp;
+          state.re_entered_at = fix.timestamp;
+          console.log("Worker back inside the geofence", { at: fix.timestamp, proof: qrPresent ? "qr" : "gps" });
+          events.push(fixRow(fix, result, "re_entry", decision.measured, smoothed));
+        } else if (status === "exit_detected") {
+          // inside -> grace
+          const exitEventId = crypto.randomUUID();
+          state.state = "grace";
+          state.state_changed_at = fix.timestamp;
+          state.exit_detected_at = fix.timestamp;
+          state.exit_event_id = exitEventId;
+          state.exit_count += 1;
+          console.log("EXIT DETECTED!", {
+            at: fix.timestamp,
+            distance,
+            accuracy: smoothed.accuracy,
+            threshold,
+            samples: smoothed.samples,
+          });
+          events.push({ id: exitEventId, ...fixRow(fix, result, "exit_detected", decision.measured, smoothed) });
+        }
       }
 
-      const normalizedShiftEnd = `${String(parsedShiftEnd.hour).padStart(2, "0")}:${String(parsedShiftEnd.minute).padStart(2, "0")}`;
-      const isInLastHour = checkLastHourWindow(clockEntry.clock_in, normalizedShiftEnd);
-
-      console.log("Last hour window result:", {
-        isInLastHour,
-        worker_shift_end: normalizedShiftEnd,
-        clock_in: clockEntry.clock_in,
-      });
-
-      if (!isInLastHour) {
-        console.log("Not in last hour window for regular shift");
-        return new Response(JSON.stringify({ status: "outside_window", distance, threshold }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 200,
-        });
-      }
-    } else {
-      console.log("Overtime session detected - always checking geofence");
+      statuses[status]++;
+      lastStatus = status;
     }
 
-    // 7. Check if reliable exit
-    const isExit = reliableExit(distance, payload.accuracy, job.geofence_radius, threshold);
-
-    console.log("Reliable exit check:", {
-      isExit,
-      distance,
-      accuracy: payload.accuracy,
-      threshold,
-    });
-
-    if (!isExit) {
-      console.log("Not a reliable exit");
-      return new Response(JSON.stringify({ status: "inside_fence", distance, threshold }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
+    // 5. One insert for the whole batch, then the state the batch ended in - cron job will handle any exits
+    if (events.length > 0) {
+      const { error: insertError } = await supabase.from("geofence_events").insert(events);
+      if (insertError) throw insertError;
+    }
+    const saved = isOpen && (await saveGeofenceState(supabase, state, storedState?.state ?? null));
+    if (isOpen && !saved) {
+      console.warn("Geofence state changed while this batch was processed - keeping the stored state", {
+        clock_entry_id: payload.clock_entry_id,
       });
     }
 
-    console.log("EXIT DETECTED! Recording exit event...");
+    // 6. "Are you still on site?" - for an exit this batch started, while there's still time to answer
+    const pendingExit = saved && state.state === "grace" ? state : null;
+    if (
+      pendingExit?.exit_detected_at &&
+      pendingExit.exit_event_id !== storedState?.exit_event_id &&
+      now - new Date(pendingExit.exit_detected_at).getTime() < getExitGraceMs(policy)
+    ) {
+      await sendExitPrompt(supabase, pendingExit);
+    }
 
-    // 8. Record exit detected - cron job will handle the rest
-    await supabase.from("geofence_events").insert({
-      worker_id: payload.worker_id,
-      clock_entry_id: payload.clock_entry_id,
-      shift_date: shiftDate,
-      event_type: "exit_detected",
-      latitude: payload.latitude,
-      longitude: payload.longitude,
-      accuracy: payload.accuracy,
-      distance_from_center: distance,
-      job_radius: job.geofence_radius,
-      safe_out_threshold: threshold,
-      timestamp: payload.timestamp,
+    console.log("Batch processed:", {
+      processed: entryFixes.length,
+      events: events.length,
+      statuses,
+      state: state.state,
     });
 
-    console.log("Exit detected event recorded. Cron job will process auto-clockout after grace period.");
-
-    return new Response(
-      JSON.stringify({
-        status: "exit_detected",
-        message: "Exit recorded. Auto-clockout will be processed by cron job after grace period.",
-        distance,
-        threshold,
-      }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
+    return jsonResponse({
+      status: statuses.exit_detected > 0 ? "exit_detected" : lastStatus,
+      message:
+        statuses.exit_detected > 0
+          ? "Exit recorded. Auto-clockout will be processed by cron job after grace period."
+          : undefined,
+      processed: entryFixes.length,
+      exits_detected: statuses.exit_detected,
+      statuses,
+      geofence_state: isOpen ? state.state : null,
+      pending_exit: pendingExit && {
+        exit_event_id: pendingExit.exit_event_id,
+        exit_detected_at: pendingExit.exit_detected_at,
       },
-    );
+      distance: last.distance,
+      threshold: last.threshold,
+    });
   } catch (error) {
     console.error("Error in track-location:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 500,
-    });
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
-
-function getSafeOutThreshold(radius: number): number {
-  return SAFE_OUT_TABLE[radius] || radius * 1.25;
-}
-
-function reliableExit(distance: number, accuracy: number, radius: number, threshold: number): boolean {
-  // A) Overshoot rule: clearly beyond fence
-  if (distance >= threshold) return true;
-
-  // B) Accuracy-aware margin: good fix with smaller overshoot
-  if (accuracy <= ACCURACY_PASS_M && distance >= radius + Math.max(25, accuracy / 2)) {
-    return true;
-  }
-
-  return false;
-}
-
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c; // Distance in meters
-}
-
-function parseShiftEnd(shiftEnd: string): { hour: number; minute: number } | null {
-  const s = shiftEnd.trim().toLowerCase();
-
-  // 24h format: HH:MM or HH:MM:SS
-  let m = s.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
-  if (m) {
-    const hour = parseInt(m[1], 10);
-    const minute = parseInt(m[2], 10);
-    if (hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59) return { hour, minute };
-    return null;
-  }
-
-  // 12h format: h[:mm] AM/PM
-  m = s.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)$/);
-  if (m) {
-    let hour = parseInt(m[1], 10);
-    const minute = m[2] ? parseInt(m[2], 10) : 0;
-    if (hour < 1 || hour > 12 || minute < 0 || minute > 59) return null;
-    const meridiem = m[3];
-    if (meridiem === "pm" && hour !== 12) hour += 12;
-    if (meridiem === "am" && hour === 12) hour = 0;
-    return { hour, minute };
-  }
-
-  return null;
-}
-
-function checkLastHourWindow(clockInIso: string, shiftEnd: string): boolean {
-  const now = new Date();
-
-  const parsed = parseShiftEnd(shiftEnd);
-  if (!parsed) {
-    console.error("Invalid shift_end format in checkLastHourWindow:", shiftEnd);
-    return false;
-  }
-
-  // CRITICAL FIX: Create shift end datetime for TODAY (current date), not clockIn date
-  // This ensures the check works correctly even if worker stays clocked in overnight
-  const shiftEndTime = new Date();
-  shiftEndTime.setHours(parsed.hour, parsed.minute, 0, 0);
-
-  // Calculate last hour window start (shift_end - 60 minutes)
-  const windowStart = new Date(shiftEndTime.getTime() - AUTO_WINDOW_MINUTES * 60 * 1000);
-
-  console.log("Last hour window check:", {
-    now: now.toISOString(),
-    windowStart: windowStart.toISOString(),
-    shiftEndTime: shiftEndTime.toISOString(),
-    isInWindow: now >= windowStart && now <= shiftEndTime,
-  });
-
-  // Check if current time is within the window
-  return now >= windowStart && now <= shiftEndTime;
-}
-
-async function sendPushNotification(supabase: any, workerId: string, title: string, body: string) {
-  try {
-    // Get worker's push token
-    const { data: prefs } = await supabase
-      .from("notification_preferences")
-      .select("push_token")
-      .eq("worker_id", workerId)
-      .maybeSingle();
-
-    if (!prefs?.push_token) {
-      console.log(`No push token found for worker ${workerId}`);
-      return;
-    }
-
-    // Send push notification via service worker
-    // Note: This is a best-effort attempt - if it fails, the in-app notification will still work
-    console.log(`Sending push notification to worker ${workerId}`);
-
-    // In a real implementation, you would use a push notification service here
-    // For now, we'll just log it
-    console.log("Push notification payload:", { title, body, token: prefs.push_token });
-  } catch (error) {
-    console.error("Error sending push notification:", error);
-    // Don't throw - push notifications are optional
-  }
-}
@@ -0,0 +1,51 @@
+-- Make the clock-in / clock-out edge functions the only way a worker can create or
+-- close a clock entry. The functions use the service role; managers keep their
+-- existing access (OT approval, corrections).
+CREATE OR REPLACE FUNCTION public.enforce_clock_entry_write_path()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role (edge functions, crons) and direct database sessions
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM managers WHERE email = auth.email()) OR is_super_admin(auth.email()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Clock entries must be created through the clock-in function'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.clock_in IS DISTINCT FROM OLD.clock_in
+    OR NEW.clock_out IS DISTINCT FROM OLD.clock_out
+    OR NEW.clock_in_lat IS DISTINCT FROM OLD.clock_in_lat
+    OR NEW.clock_in_lng IS DISTINCT FROM OLD.clock_in_lng
+    OR NEW.clock_out_lat IS DISTINCT FROM OLD.clock_out_lat
+    OR NEW.clock_out_lng IS DISTINCT FROM OLD.clock_out_lng
+    OR NEW.clock_in_photo IS DISTINCT FROM OLD.clock_in_photo
+    OR NEW.clock_out_photo IS DISTINCT FROM OLD.clock_out_photo
+    OR NEW.total_hours IS DISTINCT FROM OLD.total_hours
+    OR NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.worker_id IS DISTINCT FROM OLD.worker_id
+  THEN
+    RAISE EXCEPTION 'Clock times and locations can only be changed through the clock-out function or an amendment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_clock_entry_write_path ON public.clock_entries;
+CREATE TRIGGER enforce_clock_entry_write_path
+BEFORE INSERT OR UPDATE ON public.clock_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_clock_entry_write_path();
+
+COMMENT ON COLUMN clock_entries.source IS 'Origin of clock entry: manual (worker via clock-in function), offline_sync (replayed offline clock-in) or system_auto';
@@ -0,0 +1,21 @@
+-- Polygon / multi-zone geofences for linear and irregular sites (road, rail, L-shaped plots).
+-- When geofence_zones is set it replaces the latitude/longitude/geofence_radius circle;
+-- latitude/longitude stay as the site's reference point.
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS geofence_zones JSONB,
+ADD COLUMN IF NOT EXISTS safe_out_buffer_m INTEGER;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_geofence_zones_is_array
+  CHECK (geofence_zones IS NULL OR jsonb_typeof(geofence_zones) = 'array');
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_safe_out_buffer_range
+  CHECK (safe_out_buffer_m IS NULL OR safe_out_buffer_m BETWEEN 10 AND 500);
+
+COMMENT ON COLUMN public.jobs.geofence_zones IS 'Optional polygon zones: [{"name": "Compound", "points": [[lat, lng], ...]}, ...]. Inside any zone counts as on site.';
+COMMENT ON COLUMN public.jobs.safe_out_buffer_m IS 'Polygon zones only: metres beyond the nearest zone edge before an exit is treated as certain (default 50)';
+
+-- For polygon jobs geofence_events.distance_from_center holds the distance outside the
+-- nearest edge (0 when inside) and job_radius is 0, so "distance <= radius" still means inside.
+COMMENT ON COLUMN public.geofence_events.distance_from_center IS 'Circle jobs: metres from site centre. Polygon jobs: metres outside the nearest zone edge (0 inside).';
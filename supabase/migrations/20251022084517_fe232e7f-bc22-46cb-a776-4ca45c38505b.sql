@@ -0,0 +1,84 @@
+-- Per-weekday shift schedules with dated overrides.
+-- Resolution order for a date: worker_shift_overrides, then worker_shift_schedules,
+-- then the worker's single shift_start/shift_end (kept as the default pattern for
+-- workers who have no weekly rows yet). A worker with weekly rows is off on any
+-- weekday without one.
+CREATE TABLE IF NOT EXISTS public.worker_shift_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  shift_start TIME NOT NULL,
+  shift_end TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (worker_id, day_of_week)
+);
+
+COMMENT ON TABLE public.worker_shift_schedules IS 'Usual shift hours per weekday. shift_end <= shift_start means the shift ends the next day.';
+COMMENT ON COLUMN public.worker_shift_schedules.day_of_week IS 'Day the shift starts on (0=Sunday, 6=Saturday)';
+
+CREATE TABLE IF NOT EXISTS public.worker_shift_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  shift_date DATE NOT NULL,
+  shift_start TIME,
+  shift_end TIME,
+  is_day_off BOOLEAN NOT NULL DEFAULT false,
+  reason TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (worker_id, shift_date),
+  CONSTRAINT worker_shift_overrides_hours CHECK (is_day_off OR (shift_start IS NOT NULL AND shift_end IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_shift_overrides_date ON public.worker_shift_overrides(shift_date);
+
+COMMENT ON TABLE public.worker_shift_overrides IS 'One-off hours or a day off for a single date (UK date the shift starts on)';
+
+-- RLS: workers read their own schedule, managers manage their organisation's
+ALTER TABLE public.worker_shift_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.worker_shift_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can view own shift schedule"
+ON public.worker_shift_schedules FOR SELECT
+USING (worker_id IN (SELECT id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can manage org shift schedules"
+ON public.worker_shift_schedules FOR ALL
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+))
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
+
+CREATE POLICY "Super admins can manage all shift schedules"
+ON public.worker_shift_schedules FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
+
+CREATE POLICY "Workers can view own shift overrides"
+ON public.worker_shift_overrides FOR SELECT
+USING (worker_id IN (SELECT id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can manage org shift overrides"
+ON public.worker_shift_overrides FOR ALL
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+))
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
+
+CREATE POLICY "Super admins can manage all shift overrides"
+ON public.worker_shift_overrides FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
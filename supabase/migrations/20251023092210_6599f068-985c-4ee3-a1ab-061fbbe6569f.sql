@@ -0,0 +1,28 @@
+-- Shift precedence: job hours, then the worker's own schedule, then an organisation default
+
+-- Job hours were added with defaults but never read, so every job carries 07:00-15:00.
+-- Now that job hours override the worker's, they must only be set on sites that restrict them.
+ALTER TABLE public.jobs
+  ALTER COLUMN shift_start DROP DEFAULT,
+  ALTER COLUMN shift_end DROP DEFAULT,
+  ALTER COLUMN shift_days DROP DEFAULT;
+
+UPDATE public.jobs
+SET shift_start = NULL, shift_end = NULL, shift_days = NULL
+WHERE shift_start = '07:00:00'
+  AND shift_end = '15:00:00'
+  AND shift_days = ARRAY[1,2,3,4,5];
+
+COMMENT ON COLUMN public.jobs.shift_start IS 'Site working hours start. When set with shift_end, overrides the hours of every worker clocked in here';
+COMMENT ON COLUMN public.jobs.shift_end IS 'Site working hours end. Not after shift_start means the shift ends the next day';
+COMMENT ON COLUMN public.jobs.shift_days IS 'Days of week the site works (0=Sunday, 6=Saturday)';
+
+-- Organisation default for workers with no hours of their own
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS default_shift_start TIME,
+  ADD COLUMN IF NOT EXISTS default_shift_end TIME,
+  ADD COLUMN IF NOT EXISTS default_shift_days INTEGER[] DEFAULT ARRAY[1,2,3,4,5];
+
+COMMENT ON COLUMN public.organizations.default_shift_start IS 'Default shift start for workers without their own schedule';
+COMMENT ON COLUMN public.organizations.default_shift_end IS 'Default shift end for workers without their own schedule';
+COMMENT ON COLUMN public.organizations.default_shift_days IS 'Default shift days (0=Sunday, 6=Saturday)';
@@ -0,0 +1,49 @@
+-- Worker-to-job assignments. A worker with any assignment rows only sees, and can
+-- only clock in to, jobs assigned to them on that date. Workers with no rows at all
+-- keep seeing every active job, so sites can be allocated gradually.
+CREATE TABLE IF NOT EXISTS public.job_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  starts_on DATE,
+  ends_on DATE,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT job_assignments_dates CHECK (starts_on IS NULL OR ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_assignments_worker ON public.job_assignments(worker_id);
+CREATE INDEX IF NOT EXISTS idx_job_assignments_job ON public.job_assignments(job_id);
+
+COMMENT ON TABLE public.job_assignments IS 'Which workers may clock in to which jobs';
+COMMENT ON COLUMN public.job_assignments.starts_on IS 'First UK date the assignment applies (NULL = open-ended)';
+COMMENT ON COLUMN public.job_assignments.ends_on IS 'Last UK date the assignment applies (NULL = open-ended)';
+
+-- RLS: workers read their own assignments, managers manage their organisation's
+ALTER TABLE public.job_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can view own job assignments"
+ON public.job_assignments FOR SELECT
+USING (worker_id IN (SELECT id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can manage org job assignments"
+ON public.job_assignments FOR ALL
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+))
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
+
+CREATE POLICY "Super admins can manage all job assignments"
+ON public.job_assignments FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
+
+-- Realtime, so the app's jobs listener picks up new allocations without a refresh
+ALTER TABLE public.job_assignments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.job_assignments;
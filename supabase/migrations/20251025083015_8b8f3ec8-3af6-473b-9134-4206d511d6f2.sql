@@ -0,0 +1,232 @@
+-- Breaks within a shift. Each Start Break / End Break pair is one clock_breaks row.
+-- Break time up to the organisation's paid allowance is paid; the rest is deducted
+-- from total_hours when the entry is closed.
+CREATE TABLE IF NOT EXISTS public.clock_breaks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clock_entry_id UUID NOT NULL REFERENCES public.clock_entries(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT clock_breaks_order CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_clock_breaks_entry ON public.clock_breaks(clock_entry_id);
+CREATE INDEX IF NOT EXISTS idx_clock_breaks_worker ON public.clock_breaks(worker_id);
+
+-- At most one break in progress per entry
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clock_breaks_one_open
+ON public.clock_breaks(clock_entry_id) WHERE ended_at IS NULL;
+
+COMMENT ON TABLE public.clock_breaks IS 'Break segments within a clock entry, written by the clock-break function';
+
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS paid_break_minutes INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.organizations.paid_break_minutes IS 'Break minutes per shift that are paid; break time beyond this is deducted from total_hours';
+
+ALTER TABLE public.clock_entries
+  ADD COLUMN IF NOT EXISTS break_minutes NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS unpaid_break_minutes NUMERIC NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.clock_entries.break_minutes IS 'Total break time in the entry, set at clock-out';
+COMMENT ON COLUMN public.clock_entries.unpaid_break_minutes IS 'Break time deducted from total_hours, set at clock-out';
+
+-- RLS: workers read their own breaks, managers manage their organisation's.
+-- Workers start and end breaks through the clock-break function (service role).
+ALTER TABLE public.clock_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can view own breaks"
+ON public.clock_breaks FOR SELECT
+USING (worker_id IN (SELECT id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can manage org breaks"
+ON public.clock_breaks FOR ALL
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+))
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
+
+CREATE POLICY "Super admins can manage all breaks"
+ON public.clock_breaks FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
+
+-- Break totals are part of the hours calculation, so workers can't edit them directly either
+CREATE OR REPLACE FUNCTION public.enforce_clock_entry_write_path()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role (edge functions, crons) and direct database sessions
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM managers WHERE email = auth.email()) OR is_super_admin(auth.email()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Clock entries must be created through the clock-in function'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.clock_in IS DISTINCT FROM OLD.clock_in
+    OR NEW.clock_out IS DISTINCT FROM OLD.clock_out
+    OR NEW.clock_in_lat IS DISTINCT FROM OLD.clock_in_lat
+    OR NEW.clock_in_lng IS DISTINCT FROM OLD.clock_in_lng
+    OR NEW.clock_out_lat IS DISTINCT FROM OLD.clock_out_lat
+    OR NEW.clock_out_lng IS DISTINCT FROM OLD.clock_out_lng
+    OR NEW.clock_in_photo IS DISTINCT FROM OLD.clock_in_photo
+    OR NEW.clock_out_photo IS DISTINCT FROM OLD.clock_out_photo
+    OR NEW.total_hours IS DISTINCT FROM OLD.total_hours
+    OR NEW.break_minutes IS DISTINCT FROM OLD.break_minutes
+    OR NEW.unpaid_break_minutes IS DISTINCT FROM OLD.unpaid_break_minutes
+    OR NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.worker_id IS DISTINCT FROM OLD.worker_id
+  THEN
+    RAISE EXCEPTION 'Clock times and locations can only be changed through the clock-out function or an amendment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approved amendments keep deducting unpaid break time from the recalculated hours
+CREATE OR REPLACE FUNCTION public.update_clock_entry_on_amendment_approval()
+RETURNS trigger AS $$
+DECLARE
+  v_old_clock_in TIMESTAMP WITH TIME ZONE;
+  v_old_clock_out TIMESTAMP WITH TIME ZONE;
+  v_old_total_hours NUMERIC;
+  v_new_clock_in TIMESTAMP WITH TIME ZONE;
+  v_new_clock_out TIMESTAMP WITH TIME ZONE;
+  v_new_total_hours NUMERIC;
+  v_unpaid_break_minutes NUMERIC;
+  v_manager_id UUID;
+  v_entry_date DATE;
+BEGIN
+  -- Only proceed if status changed to 'approved' OR 'rejected'
+  IF NEW.status IN ('approved', 'rejected') AND (OLD.status IS NULL OR OLD.status = 'pending') THEN
+    
+    -- Get the clock entry date for notification
+    SELECT DATE(clock_in) INTO v_entry_date
+    FROM public.clock_entries
+    WHERE id = NEW.clock_entry_id;
+    
+    -- APPROVED: Update clock entry
+    IF NEW.status = 'approved' THEN
+      -- Get current clock entry values
+      SELECT clock_in, clock_out, total_hours, COALESCE(unpaid_break_minutes, 0)
+      INTO v_old_clock_in, v_old_clock_out, v_old_total_hours, v_unpaid_break_minutes
+      FROM public.clock_entries
+      WHERE id = NEW.clock_entry_id;
+      
+      -- Determine new values
+      v_new_clock_in := COALESCE(NEW.requested_clock_in, v_old_clock_in);
+      v_new_clock_out := COALESCE(NEW.requested_clock_out, v_old_clock_out);
+      
+      -- Calculate new total_hours, less any unpaid break time
+      IF v_new_clock_out IS NOT NULL AND v_new_clock_in IS NOT NULL THEN
+        v_new_total_hours := GREATEST(
+          0,
+          EXTRACT(EPOCH FROM (v_new_clock_out - v_new_clock_in)) / 3600.0 - v_unpaid_break_minutes / 60.0
+        );
+      ELSE
+        v_new_total_hours := NULL;
+      END IF;
+      
+      -- Update clock entry
+      UPDATE public.clock_entries
+      SET 
+        clock_in = v_new_clock_in,
+        clock_out = v_new_clock_out,
+        total_hours = v_new_total_hours,
+        notes = COALESCE(notes || ' | ', '') || 
+                'Updated via approved time amendment on ' || 
+                TO_CHAR(NOW(), 'YYYY-MM-DD HH24:MI:SS')
+      WHERE id = NEW.clock_entry_id;
+      
+      -- Get manager ID
+      SELECT id INTO v_manager_id
+      FROM public.managers
+      WHERE email = auth.email()
+      LIMIT 1;
+      
+      -- Create history record
+      INSERT INTO public.clock_entry_history (
+        clock_entry_id, changed_by, change_type,
+        old_clock_in, old_clock_out, new_clock_in, new_clock_out,
+        old_total_hours, new_total_hours,
+        amendment_id, notes, metadata
+      ) VALUES (
+        NEW.clock_entry_id,
+        COALESCE(v_manager_id, NEW.manager_id),
+        'amendment_approval',
+        v_old_clock_in, v_old_clock_out,
+        v_new_clock_in, v_new_clock_out,
+        v_old_total_hours, v_new_total_hours,
+        NEW.id, NEW.manager_notes,
+        jsonb_build_object(
+          'approved_by', NEW.approved_by,
+          'approved_at', NEW.approved_at,
+          'reason', NEW.reason
+        )
+      );
+      
+      -- Send APPROVED notification
+      INSERT INTO public.notifications (
+        worker_id, title, body, type, created_at
+      ) VALUES (
+        NEW.worker_id,
+        'Time Amendment Approved',
+        format(
+          'Your time amendment for %s has been approved.%s',
+          TO_CHAR(v_entry_date, 'DD/MM/YYYY'),
+          CASE 
+            WHEN NEW.manager_notes IS NOT NULL AND NEW.manager_notes != '' 
+            THEN E'\n\nManager notes: ' || NEW.manager_notes
+            ELSE ''
+          END
+        ),
+        'amendment_approved',
+        NOW()
+      );
+    END IF;
+    
+    -- REJECTED: Send notification only
+    IF NEW.status = 'rejected' THEN
+      INSERT INTO public.notifications (
+        worker_id, title, body, type, created_at
+      ) VALUES (
+        NEW.worker_id,
+        'Time Amendment Rejected',
+        format(
+          'Your time amendment for %s has been rejected.%s',
+          TO_CHAR(v_entry_date, 'DD/MM/YYYY'),
+          CASE 
+            WHEN NEW.manager_notes IS NOT NULL AND NEW.manager_notes != '' 
+            THEN E'\n\nReason: ' || NEW.manager_notes
+            ELSE E'\n\nNo reason provided.'
+          END
+        ),
+        'amendment_rejected',
+        NOW()
+      );
+    END IF;
+    
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,56 @@
+-- Mid-shift site switches. Switching closes the open entry and opens a new one on the
+-- other job; every segment of the shift, the first included, carries the id of the
+-- first segment in shift_id, so timesheets and expenses can treat them as one shift.
+-- Entries that were never switched keep shift_id NULL.
+ALTER TABLE public.clock_entries
+  ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.clock_entries(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_clock_entries_shift_id ON public.clock_entries(shift_id) WHERE shift_id IS NOT NULL;
+
+COMMENT ON COLUMN public.clock_entries.shift_id IS 'First segment of the shift when the worker switched site mid-shift (NULL = single-site shift)';
+COMMENT ON COLUMN public.clock_entries.source IS 'Origin of clock entry: manual (worker via clock-in function), offline_sync (replayed offline clock-in), site_switch (opened by switch-site) or system_auto';
+
+-- Segments are linked by switch-site only
+CREATE OR REPLACE FUNCTION public.enforce_clock_entry_write_path()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role (edge functions, crons) and direct database sessions
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM managers WHERE email = auth.email()) OR is_super_admin(auth.email()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Clock entries must be created through the clock-in function'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.clock_in IS DISTINCT FROM OLD.clock_in
+    OR NEW.clock_out IS DISTINCT FROM OLD.clock_out
+    OR NEW.clock_in_lat IS DISTINCT FROM OLD.clock_in_lat
+    OR NEW.clock_in_lng IS DISTINCT FROM OLD.clock_in_lng
+    OR NEW.clock_out_lat IS DISTINCT FROM OLD.clock_out_lat
+    OR NEW.clock_out_lng IS DISTINCT FROM OLD.clock_out_lng
+    OR NEW.clock_in_photo IS DISTINCT FROM OLD.clock_in_photo
+    OR NEW.clock_out_photo IS DISTINCT FROM OLD.clock_out_photo
+    OR NEW.total_hours IS DISTINCT FROM OLD.total_hours
+    OR NEW.break_minutes IS DISTINCT FROM OLD.break_minutes
+    OR NEW.unpaid_break_minutes IS DISTINCT FROM OLD.unpaid_break_minutes
+    OR NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.worker_id IS DISTINCT FROM OLD.worker_id
+    OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+  THEN
+    RAISE EXCEPTION 'Clock times and locations can only be changed through the clock functions or an amendment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,56 @@
+-- Travel between job sites within a working day. clock-in records a segment when a
+-- worker clocks in at a different job on the same UK day as their last clock-out.
+-- Whether travel is paid is an organisation setting, copied onto each segment so a
+-- later change doesn't rewrite past timesheets.
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS paid_travel BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.organizations.paid_travel IS 'Whether travel between job sites within a working day is paid';
+
+CREATE TABLE IF NOT EXISTS public.travel_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  from_entry_id UUID NOT NULL REFERENCES public.clock_entries(id) ON DELETE CASCADE,
+  to_entry_id UUID NOT NULL REFERENCES public.clock_entries(id) ON DELETE CASCADE,
+  from_job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  to_job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  distance_m INTEGER,
+  is_paid BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT travel_segments_to_entry_unique UNIQUE (to_entry_id),
+  CONSTRAINT travel_segments_times CHECK (ended_at > started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_travel_segments_worker_started ON public.travel_segments(worker_id, started_at);
+
+COMMENT ON TABLE public.travel_segments IS 'Travel between consecutive same-day clock entries on different jobs';
+COMMENT ON COLUMN public.travel_segments.distance_m IS 'Straight-line distance between the two jobs'' coordinates';
+COMMENT ON COLUMN public.travel_segments.is_paid IS 'organizations.paid_travel when the segment was recorded';
+
+-- RLS: workers read their own travel, managers manage their organisation's. Segments
+-- are only written by clock-in with the service role.
+ALTER TABLE public.travel_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can view own travel segments"
+ON public.travel_segments FOR SELECT
+USING (worker_id IN (SELECT id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can manage org travel segments"
+ON public.travel_segments FOR ALL
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+))
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
+
+CREATE POLICY "Super admins can manage all travel segments"
+ON public.travel_segments FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
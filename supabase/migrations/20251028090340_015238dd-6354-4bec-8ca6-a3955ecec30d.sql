@@ -0,0 +1,26 @@
+-- Crew (gang) clock-in: a foreman clocks in labourers who don't have a phone on them.
+-- The crew-clock-in function validates the foreman's fix once and creates an entry per
+-- member with source 'crew'; entries from the same crew clock-in share crew_batch_id.
+ALTER TABLE public.workers
+  ADD COLUMN IF NOT EXISTS can_clock_crew BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.workers.can_clock_crew IS 'Foremen who may clock in other workers in their organisation';
+
+ALTER TABLE public.clock_entries
+  ADD COLUMN IF NOT EXISTS crew_lead_id UUID REFERENCES public.workers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS crew_batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_clock_entries_crew_batch ON public.clock_entries(crew_batch_id) WHERE crew_batch_id IS NOT NULL;
+
+COMMENT ON COLUMN public.clock_entries.crew_lead_id IS 'Foreman who clocked this worker in as part of a crew';
+COMMENT ON COLUMN public.clock_entries.crew_batch_id IS 'Shared by the entries created in one crew clock-in';
+COMMENT ON COLUMN public.clock_entries.source IS 'Origin of clock entry: manual (worker via clock-in function), offline_sync (replayed offline clock-in), site_switch (opened by switch-site), crew (clocked in by a foreman) or system_auto';
+
+-- Foremen tell each crew member they were clocked in, so the member can dispute it
+CREATE POLICY "Crew leads can notify their organisation's workers"
+ON public.notifications FOR INSERT
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.workers lead ON lead.organization_id = w.organization_id
+  WHERE lead.email = auth.email() AND lead.can_clock_crew
+));
@@ -0,0 +1,54 @@
+-- Shared-tablet kiosk for site cabins. A manager pairs a tablet to one job; the tablet
+-- keeps a random device token (only its SHA-256 is stored) and workers identify on it
+-- with a personal PIN or badge code. Everything goes through the kiosk function with
+-- the service role, so the tablet never holds a worker session.
+CREATE TABLE IF NOT EXISTS public.kiosk_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_kiosk_devices_org ON public.kiosk_devices(organization_id);
+
+COMMENT ON TABLE public.kiosk_devices IS 'Shared tablets paired to a job for PIN/badge clocking';
+COMMENT ON COLUMN public.kiosk_devices.token_hash IS 'SHA-256 of the device token; the token itself is only shown to the tablet when paired';
+COMMENT ON COLUMN public.kiosk_devices.failed_attempts IS 'Wrong PINs/badges in a row - the kiosk locks for a few minutes after too many';
+
+ALTER TABLE public.workers
+  ADD COLUMN IF NOT EXISTS kiosk_pin_hash TEXT,
+  ADD COLUMN IF NOT EXISTS badge_code TEXT;
+
+-- A PIN or badge identifies the worker on its own, so each must be unique in the organisation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workers_org_kiosk_pin ON public.workers(organization_id, kiosk_pin_hash) WHERE kiosk_pin_hash IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workers_org_badge_code ON public.workers(organization_id, badge_code) WHERE badge_code IS NOT NULL;
+
+COMMENT ON COLUMN public.workers.kiosk_pin_hash IS 'SHA-256 of organization_id:pin, set by the worker from their profile';
+COMMENT ON COLUMN public.workers.badge_code IS 'Site badge / card code for kiosk clocking, set by a manager';
+
+ALTER TABLE public.clock_entries
+  ADD COLUMN IF NOT EXISTS kiosk_device_id UUID REFERENCES public.kiosk_devices(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.clock_entries.kiosk_device_id IS 'Kiosk tablet the entry was clocked in on';
+COMMENT ON COLUMN public.clock_entries.source IS 'Origin of clock entry: manual (worker via clock-in function), offline_sync (replayed offline clock-in), site_switch (opened by switch-site), crew (clocked in by a foreman), kiosk (site cabin tablet) or system_auto';
+
+-- RLS: managers manage their organisation's tablets. The tablets themselves only reach
+-- this table through the kiosk function.
+ALTER TABLE public.kiosk_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage org kiosk devices"
+ON public.kiosk_devices FOR ALL
+USING (organization_id IN (SELECT organization_id FROM public.managers WHERE email = auth.email()))
+WITH CHECK (organization_id IN (SELECT organization_id FROM public.managers WHERE email = auth.email()));
+
+CREATE POLICY "Super admins can manage all kiosk devices"
+ON public.kiosk_devices FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
@@ -0,0 +1,119 @@
+-- Site QR codes as an alternative proof of presence where GPS is poor. Each job gets a
+-- secret the printed code is signed with; managers choose per job whether a scan can
+-- replace a failed GPS check or only supplement it.
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS qr_mode TEXT NOT NULL DEFAULT 'off'
+  CHECK (qr_mode IN ('off', 'supplement', 'replace'));
+
+COMMENT ON COLUMN public.jobs.qr_mode IS 'Site QR check-in: off, supplement (GPS still required, scan recorded) or replace (a scan stands in for a failed GPS check)';
+
+-- Secrets live apart from jobs, which every worker can read. Only the service role
+-- (the site-qr and clock functions) reads them; the secret is created on first print.
+CREATE TABLE IF NOT EXISTS public.job_qr_secrets (
+  job_id UUID PRIMARY KEY REFERENCES public.jobs(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.job_qr_secrets IS 'Signing secret for each job''s site QR code - delete a row to invalidate printed codes';
+
+ALTER TABLE public.job_qr_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage all job QR secrets"
+ON public.job_qr_secrets FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
+
+-- Every valid scan, at clock in/out or while on shift. track-location treats a recent
+-- scan against the open entry as being inside the fence.
+CREATE TABLE IF NOT EXISTS public.qr_scans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  clock_entry_id UUID REFERENCES public.clock_entries(id) ON DELETE CASCADE,
+  scanned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qr_scans_entry_scanned ON public.qr_scans(clock_entry_id, scanned_at);
+
+COMMENT ON TABLE public.qr_scans IS 'Valid site QR scans - proof the worker was at the job';
+
+ALTER TABLE public.qr_scans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can view own QR scans"
+ON public.qr_scans FOR SELECT
+USING (worker_id IN (SELECT id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can manage org QR scans"
+ON public.qr_scans FOR ALL
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+))
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
+
+CREATE POLICY "Super admins can manage all QR scans"
+ON public.qr_scans FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
+
+ALTER TABLE public.clock_entries
+  ADD COLUMN IF NOT EXISTS proof_method TEXT NOT NULL DEFAULT 'gps'
+    CHECK (proof_method IN ('gps', 'qr', 'gps_qr')),
+  ADD COLUMN IF NOT EXISTS clock_out_proof_method TEXT
+    CHECK (clock_out_proof_method IN ('gps', 'qr', 'gps_qr'));
+
+COMMENT ON COLUMN public.clock_entries.proof_method IS 'How presence was proven at clock-in: gps, qr (site QR instead of GPS) or gps_qr (both)';
+COMMENT ON COLUMN public.clock_entries.clock_out_proof_method IS 'How presence was proven at clock-out; NULL when closed automatically';
+
+-- Proof of presence is part of the clock record - protect it like the times and locations
+CREATE OR REPLACE FUNCTION public.enforce_clock_entry_write_path()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role (edge functions, crons) and direct database sessions
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM managers WHERE email = auth.email()) OR is_super_admin(auth.email()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Clock entries must be created through the clock-in function'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.clock_in IS DISTINCT FROM OLD.clock_in
+    OR NEW.clock_out IS DISTINCT FROM OLD.clock_out
+    OR NEW.clock_in_lat IS DISTINCT FROM OLD.clock_in_lat
+    OR NEW.clock_in_lng IS DISTINCT FROM OLD.clock_in_lng
+    OR NEW.clock_out_lat IS DISTINCT FROM OLD.clock_out_lat
+    OR NEW.clock_out_lng IS DISTINCT FROM OLD.clock_out_lng
+    OR NEW.clock_in_photo IS DISTINCT FROM OLD.clock_in_photo
+    OR NEW.clock_out_photo IS DISTINCT FROM OLD.clock_out_photo
+    OR NEW.total_hours IS DISTINCT FROM OLD.total_hours
+    OR NEW.break_minutes IS DISTINCT FROM OLD.break_minutes
+    OR NEW.unpaid_break_minutes IS DISTINCT FROM OLD.unpaid_break_minutes
+    OR NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.worker_id IS DISTINCT FROM OLD.worker_id
+    OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+    OR NEW.proof_method IS DISTINCT FROM OLD.proof_method
+    OR NEW.clock_out_proof_method IS DISTINCT FROM OLD.clock_out_proof_method
+  THEN
+    RAISE EXCEPTION 'Clock times and locations can only be changed through the clock functions or an amendment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Spoof and bad-fix detection for location tracking. track-location smooths each fix over
+-- the entry's recent history and flags fixes that look mocked or impossible; flagged fixes
+-- are kept, but impossible jumps and future timestamps are never used to decide an exit.
+ALTER TABLE public.geofence_events
+  ADD COLUMN IF NOT EXISTS suspicion_flags TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (suspicion_flags <@ ARRAY['future_timestamp', 'impossible_jump', 'identical_coordinates', 'round_accuracy']);
+
+COMMENT ON COLUMN public.geofence_events.suspicion_flags IS 'Why this fix looks wrong: future_timestamp, impossible_jump (both ignored for exits), identical_coordinates, round_accuracy (typical of mock location apps)';
+
+CREATE INDEX IF NOT EXISTS idx_geofence_events_suspicious
+  ON public.geofence_events(clock_entry_id, timestamp)
+  WHERE cardinality(suspicion_flags) > 0;
+
+-- One row per clock entry with flagged fixes, for the manager dashboard. security_invoker
+-- keeps the underlying RLS: managers see their organisation, super admins everything,
+-- workers their own.
+CREATE OR REPLACE VIEW public.location_suspicion_summary
+WITH (security_invoker = true) AS
+SELECT
+  ge.clock_entry_id,
+  ge.worker_id,
+  w.name AS worker_name,
+  w.organization_id,
+  ce.job_id,
+  j.name AS job_name,
+  ge.shift_date,
+  count(DISTINCT ge.id) AS flagged_fixes,
+  (SELECT count(*) FROM public.geofence_events all_fixes
+    WHERE all_fixes.clock_entry_id = ge.clock_entry_id
+    AND all_fixes.event_type = 'location_fix') AS total_fixes,
+  array_agg(DISTINCT flag ORDER BY flag) AS flags,
+  min(ge.timestamp) AS first_flagged_at,
+  max(ge.timestamp) AS last_flagged_at,
+  bool_or(ce.auto_clocked_out AND ce.auto_clockout_type = 'geofence') AS geofence_auto_clocked_out
+FROM public.geofence_events ge
+CROSS JOIN LATERAL unnest(ge.suspicion_flags) AS flag
+JOIN public.workers w ON w.id = ge.worker_id
+JOIN public.clock_entries ce ON ce.id = ge.clock_entry_id
+LEFT JOIN public.jobs j ON j.id = ce.job_id
+WHERE ge.event_type = 'location_fix'
+GROUP BY ge.clock_entry_id, ge.worker_id, w.name, w.organization_id, ce.job_id, j.name, ge.shift_date;
+
+COMMENT ON VIEW public.location_suspicion_summary IS 'Clock entries whose location fixes were flagged as suspicious, with the flags seen';
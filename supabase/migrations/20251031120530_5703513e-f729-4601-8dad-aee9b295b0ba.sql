@@ -0,0 +1,62 @@
+-- Persistent geofence state per clock entry. track-location advances it as fixes arrive;
+-- check-grace-expiry and the overtime checks read it instead of reconstructing the state
+-- from geofence_events, which are now an append-only audit trail.
+--
+--   inside            -> grace              exit detected (exit_detected_at, exit_event_id)
+--   grace             -> inside             a reliable fix back inside (re_entered_at)
+--   grace             -> outside_confirmed  grace expired and the entry was auto clocked out (confirmed_at)
+CREATE TABLE IF NOT EXISTS public.geofence_states (
+  clock_entry_id UUID PRIMARY KEY REFERENCES public.clock_entries(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  state TEXT NOT NULL DEFAULT 'inside' CHECK (state IN ('inside', 'grace', 'outside_confirmed')),
+  state_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_fix_at TIMESTAMP WITH TIME ZONE,
+  exit_detected_at TIMESTAMP WITH TIME ZONE,
+  exit_event_id UUID REFERENCES public.geofence_events(id) ON DELETE SET NULL,
+  re_entered_at TIMESTAMP WITH TIME ZONE,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  exit_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_states_grace
+  ON public.geofence_states(exit_detected_at)
+  WHERE state = 'grace';
+
+COMMENT ON TABLE public.geofence_states IS 'Where each clock entry stands against its geofence: inside, grace (exit detected, waiting out the grace period) or outside_confirmed';
+COMMENT ON COLUMN public.geofence_states.state_changed_at IS 'Fix time of the last transition';
+COMMENT ON COLUMN public.geofence_states.exit_event_id IS 'The exit_detected event that started the current (or last) grace period';
+
+ALTER TABLE public.geofence_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can view own geofence states"
+ON public.geofence_states FOR SELECT
+USING (worker_id IN (SELECT id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can view org geofence states"
+ON public.geofence_states FOR SELECT
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
+
+CREATE POLICY "Super admins can manage all geofence states"
+ON public.geofence_states FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
+
+-- Carry over open entries that are mid-grace, so nothing in flight is lost at deploy
+INSERT INTO public.geofence_states (clock_entry_id, worker_id, state, state_changed_at, exit_detected_at, exit_event_id, exit_count)
+SELECT DISTINCT ON (ge.clock_entry_id)
+  ge.clock_entry_id, ge.worker_id, 'grace', ge.timestamp, ge.timestamp, ge.id, 1
+FROM public.geofence_events ge
+JOIN public.clock_entries ce ON ce.id = ge.clock_entry_id AND ce.clock_out IS NULL
+WHERE ge.event_type = 'exit_detected'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.geofence_events handled
+    WHERE handled.clock_entry_id = ge.clock_entry_id
+    AND handled.event_type IN ('re_entry', 'exit_confirmed')
+  )
+ORDER BY ge.clock_entry_id, ge.timestamp
+ON CONFLICT (clock_entry_id) DO NOTHING;
@@ -0,0 +1,10 @@
+-- "Are you still on site?" prompt. track-location asks the worker as soon as it records an
+-- exit; their answer is kept in the audit trail as an exit_prompt_response event
+-- (metadata.response: still_on_site or left). An unanswered prompt changes nothing - the
+-- grace period runs out as before.
+ALTER TABLE public.geofence_events DROP CONSTRAINT IF EXISTS geofence_events_event_type_check;
+ALTER TABLE public.geofence_events
+  ADD CONSTRAINT geofence_events_event_type_check
+  CHECK (event_type IN ('location_fix', 'exit_detected', 'exit_confirmed', 're_entry', 'exit_prompt_response'));
+
+COMMENT ON COLUMN public.geofence_events.event_type IS 'location_fix, exit_detected, exit_confirmed, re_entry, or exit_prompt_response (the worker answering the still-on-site prompt)';
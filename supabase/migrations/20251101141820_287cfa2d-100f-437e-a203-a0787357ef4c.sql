@@ -0,0 +1,59 @@
+-- Per-organisation (and optionally per-job) timing and geofence rules, replacing the
+-- constants in the edge functions - clients have contractually different grace periods and
+-- overtime caps. A NULL value falls through: job row -> organisation row -> the defaults in
+-- supabase/functions/_shared/policy.ts. The ranges here match POLICY_LIMITS there.
+CREATE TABLE IF NOT EXISTS public.organization_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE,
+  exit_grace_minutes INTEGER CHECK (exit_grace_minutes BETWEEN 1 AND 60),
+  geofence_window_minutes INTEGER CHECK (geofence_window_minutes BETWEEN 15 AND 240),
+  accuracy_pass_m INTEGER CHECK (accuracy_pass_m BETWEEN 10 AND 200),
+  safe_out_table JSONB CHECK (safe_out_table IS NULL OR jsonb_typeof(safe_out_table) = 'object'),
+  safe_out_factor NUMERIC CHECK (safe_out_factor BETWEEN 1.05 AND 3),
+  max_ot_hours NUMERIC CHECK (max_ot_hours BETWEEN 0.5 AND 12),
+  clock_in_reminder_offsets INTEGER[] CHECK (
+    cardinality(clock_in_reminder_offsets) <= 5
+    AND -120 <= ALL (clock_in_reminder_offsets) AND 120 >= ALL (clock_in_reminder_offsets)
+  ),
+  clock_out_reminder_offsets INTEGER[] CHECK (
+    cardinality(clock_out_reminder_offsets) <= 5
+    AND 0 <= ALL (clock_out_reminder_offsets) AND 120 >= ALL (clock_out_reminder_offsets)
+  ),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One organisation-wide row, and at most one per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_policies_org
+  ON public.organization_policies(organization_id) WHERE job_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_policies_job
+  ON public.organization_policies(organization_id, job_id) WHERE job_id IS NOT NULL;
+
+COMMENT ON TABLE public.organization_policies IS 'Timing and geofence rules per organisation, optionally overridden per job; NULL columns inherit';
+COMMENT ON COLUMN public.organization_policies.exit_grace_minutes IS 'Minutes after a geofence exit before the worker is auto clocked out (default 5)';
+COMMENT ON COLUMN public.organization_policies.geofence_window_minutes IS 'Exits only count this many minutes before a regular shift ends (default 60)';
+COMMENT ON COLUMN public.organization_policies.accuracy_pass_m IS 'GPS accuracy good enough to confirm an exit or a return (default 50)';
+COMMENT ON COLUMN public.organization_policies.safe_out_table IS 'Circle radius -> metres from the centre that is clearly off site, e.g. {"100": 150}';
+COMMENT ON COLUMN public.organization_policies.safe_out_factor IS 'Safe-out distance as a multiple of the radius, for radii not in safe_out_table (default 1.25)';
+COMMENT ON COLUMN public.organization_policies.max_ot_hours IS 'Overtime sessions are auto clocked out and capped at this many hours (default 3)';
+COMMENT ON COLUMN public.organization_policies.clock_in_reminder_offsets IS 'Clock-in reminders, in minutes from shift start; negative is before (default {-5,0,15})';
+COMMENT ON COLUMN public.organization_policies.clock_out_reminder_offsets IS 'Clock-out reminders, in minutes after shift end (default {0,15})';
+
+-- RLS: managers set their organisation's rules from the dashboard; workers can read theirs.
+-- The edge functions read it with the service role.
+ALTER TABLE public.organization_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can view own organisation policies"
+ON public.organization_policies FOR SELECT
+USING (organization_id IN (SELECT organization_id FROM public.workers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can manage org policies"
+ON public.organization_policies FOR ALL
+USING (organization_id IN (SELECT organization_id FROM public.managers WHERE email = auth.email()))
+WITH CHECK (organization_id IN (SELECT organization_id FROM public.managers WHERE email = auth.email()));
+
+CREATE POLICY "Super admins can manage all policies"
+ON public.organization_policies FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
@@ -0,0 +1,42 @@
+-- Auto clock-out caps. check-clock-status (at shift end) and check-grace-expiry (after a
+-- geofence exit) now record a decision in auto_clockout_audit for every attempt and keep
+-- auto_clockout_counters up to date. Past a cap the shift is left open and escalated to the
+-- worker's managers instead of being closed at shift end again.
+
+-- The caps are per organisation (or job), alongside the other timing rules
+ALTER TABLE public.organization_policies
+  ADD COLUMN IF NOT EXISTS auto_clockout_month_cap INTEGER CHECK (auto_clockout_month_cap BETWEEN 0 AND 31),
+  ADD COLUMN IF NOT EXISTS auto_clockout_rolling14_cap INTEGER CHECK (auto_clockout_rolling14_cap BETWEEN 0 AND 14);
+
+COMMENT ON COLUMN public.organization_policies.auto_clockout_month_cap IS 'Auto clock-outs per worker per calendar month before shifts are escalated instead (default 3)';
+COMMENT ON COLUMN public.organization_policies.auto_clockout_rolling14_cap IS 'Auto clock-outs per worker in any 14 days before shifts are escalated instead (default 2)';
+
+-- What was decided about which entry, and the escalation a manager still has to resolve
+ALTER TABLE public.auto_clockout_audit
+  ADD COLUMN IF NOT EXISTS clock_entry_id UUID REFERENCES public.clock_entries(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS auto_clockout_type TEXT CHECK (auto_clockout_type IN ('geofence', 'time_based')),
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolved_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_open_escalations
+  ON public.auto_clockout_audit(escalated_at)
+  WHERE escalated_at IS NOT NULL AND resolved_at IS NULL;
+
+COMMENT ON COLUMN public.auto_clockout_audit.escalated_at IS 'Set when a cap stopped the auto clock-out - the shift is open until a manager sets its clock-out';
+COMMENT ON COLUMN public.auto_clockout_audit.resolved_at IS 'When a manager dealt with the escalation';
+
+-- Managers resolve their organisation's escalations from the dashboard
+DROP POLICY IF EXISTS "Managers can resolve org audit" ON public.auto_clockout_audit;
+CREATE POLICY "Managers can resolve org audit"
+ON public.auto_clockout_audit FOR UPDATE
+USING (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+))
+WITH CHECK (worker_id IN (
+  SELECT w.id FROM public.workers w
+  JOIN public.managers m ON w.organization_id = m.organization_id
+  WHERE m.email = auth.email()
+));
@@ -0,0 +1,61 @@
+-- Offline replays carry a time the app says the worker clocked at. The clock functions
+-- still accept them (up to MAX_OFFLINE_AGE_HOURS old) but hold the entry for a manager to
+-- approve, as with overtime - and workers can't approve their own.
+ALTER TABLE public.clock_entries
+  ADD COLUMN IF NOT EXISTS sync_status TEXT CHECK (sync_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.clock_entries.sync_status IS 'Offline replays only: pending until a manager approves (or rejects) the clock times the app reported; NULL for live entries';
+COMMENT ON COLUMN public.clock_entries.synced_at IS 'When the server received the offline replay, for comparison with the clock times it reported';
+
+CREATE INDEX IF NOT EXISTS idx_clock_entries_sync_pending
+  ON public.clock_entries(worker_id)
+  WHERE sync_status = 'pending';
+
+CREATE OR REPLACE FUNCTION public.enforce_clock_entry_write_path()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role (edge functions, crons) and direct database sessions
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM managers WHERE email = auth.email()) OR is_super_admin(auth.email()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Clock entries must be created through the clock functions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.clock_in IS DISTINCT FROM OLD.clock_in
+    OR NEW.clock_out IS DISTINCT FROM OLD.clock_out
+    OR NEW.clock_in_lat IS DISTINCT FROM OLD.clock_in_lat
+    OR NEW.clock_in_lng IS DISTINCT FROM OLD.clock_in_lng
+    OR NEW.clock_out_lat IS DISTINCT FROM OLD.clock_out_lat
+    OR NEW.clock_out_lng IS DISTINCT FROM OLD.clock_out_lng
+    OR NEW.clock_in_photo IS DISTINCT FROM OLD.clock_in_photo
+    OR NEW.clock_out_photo IS DISTINCT FROM OLD.clock_out_photo
+    OR NEW.total_hours IS DISTINCT FROM OLD.total_hours
+    OR NEW.break_minutes IS DISTINCT FROM OLD.break_minutes
+    OR NEW.unpaid_break_minutes IS DISTINCT FROM OLD.unpaid_break_minutes
+    OR NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.worker_id IS DISTINCT FROM OLD.worker_id
+    OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+    OR NEW.proof_method IS DISTINCT FROM OLD.proof_method
+    OR NEW.clock_out_proof_method IS DISTINCT FROM OLD.clock_out_proof_method
+    OR NEW.sync_status IS DISTINCT FROM OLD.sync_status
+    OR NEW.synced_at IS DISTINCT FROM OLD.synced_at
+  THEN
+    RAISE EXCEPTION 'Clock times and locations can only be changed through the clock functions or an amendment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
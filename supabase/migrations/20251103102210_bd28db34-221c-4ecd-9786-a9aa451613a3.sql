@@ -0,0 +1,38 @@
+-- Things a manager has to act on, for the organisation's managers to see in the dashboard.
+-- One row per organisation, not per manager - whichever manager deals with it marks it read.
+-- Written by the edge functions (service role); first use is escalated auto clock-outs.
+CREATE TABLE IF NOT EXISTS public.manager_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  worker_id UUID REFERENCES public.workers(id) ON DELETE CASCADE,
+  clock_entry_id UUID REFERENCES public.clock_entries(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  dedupe_key TEXT UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  read_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_notifications_unread
+  ON public.manager_notifications(organization_id, created_at)
+  WHERE read_at IS NULL;
+
+COMMENT ON TABLE public.manager_notifications IS 'Manager inbox per organisation, e.g. auto_clockout_escalated - a shift a cap stopped from being auto clocked-out';
+
+ALTER TABLE public.manager_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view org manager notifications"
+ON public.manager_notifications FOR SELECT
+USING (organization_id IN (SELECT organization_id FROM public.managers WHERE email = auth.email()));
+
+CREATE POLICY "Managers can mark org manager notifications read"
+ON public.manager_notifications FOR UPDATE
+USING (organization_id IN (SELECT organization_id FROM public.managers WHERE email = auth.email()))
+WITH CHECK (organization_id IN (SELECT organization_id FROM public.managers WHERE email = auth.email()));
+
+CREATE POLICY "Super admins can manage all manager notifications"
+ON public.manager_notifications FOR ALL
+USING (is_super_admin(auth.email()))
+WITH CHECK (is_super_admin(auth.email()));
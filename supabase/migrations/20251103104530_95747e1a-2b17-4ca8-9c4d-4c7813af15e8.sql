@@ -0,0 +1,7 @@
+-- An escalated shift (left open past the auto clock-out caps) can be clocked out off site,
+-- as the worker has usually gone home. The app reads this to let them try; clock-out
+-- itself checks the open escalation in auto_clockout_audit.
+ALTER TABLE public.clock_entries
+  ADD COLUMN IF NOT EXISTS auto_clockout_escalated_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.clock_entries.auto_clockout_escalated_at IS 'When a cap stopped this entry being auto clocked-out; the worker may then clock out away from site';
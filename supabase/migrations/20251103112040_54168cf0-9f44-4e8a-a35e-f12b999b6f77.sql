@@ -0,0 +1,6 @@
+-- Kiosk PINs are now a second factor: the worker picks their name first, so a PIN only has
+-- to match that worker. Keeping them unique let anyone setting a PIN find out which PINs
+-- their colleagues use.
+DROP INDEX IF EXISTS public.idx_workers_org_kiosk_pin;
+
+COMMENT ON COLUMN public.workers.kiosk_pin_hash IS 'SHA-256 of organization_id:pin, set by the worker from their profile; checked against the worker picked on the kiosk';
@@ -0,0 +1,35 @@
+-- Workers update their own row from the app (dismissed prompts, first-login flags), so
+-- RLS alone lets them grant themselves crew clock-in or take over a badge. Those columns
+-- are for managers only.
+CREATE OR REPLACE FUNCTION public.enforce_worker_manager_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role (edge functions, crons) and direct database sessions
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM managers WHERE email = auth.email()) OR is_super_admin(auth.email()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.can_clock_crew IS DISTINCT FROM OLD.can_clock_crew
+    OR NEW.badge_code IS DISTINCT FROM OLD.badge_code
+  THEN
+    RAISE EXCEPTION 'Crew clock-in and badge codes can only be changed by a manager'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_worker_manager_columns ON public.workers;
+CREATE TRIGGER enforce_worker_manager_columns
+BEFORE UPDATE ON public.workers
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_worker_manager_columns();
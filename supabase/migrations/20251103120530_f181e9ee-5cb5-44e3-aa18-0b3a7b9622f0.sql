@@ -0,0 +1,8 @@
+-- Auto clock-out decisions are per clock entry, not per worker and day: after a site
+-- switch the same shift date has several entries, and an escalation for a later one was
+-- being dropped because an earlier one had already been auto clocked-out.
+ALTER TABLE public.auto_clockout_audit
+  DROP CONSTRAINT IF EXISTS auto_clockout_audit_worker_id_shift_date_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_clock_entry
+  ON public.auto_clockout_audit(clock_entry_id);
@@ -0,0 +1,50 @@
+-- Exports shifts for the geofence replay (index.ts) in its input format. Run in the SQL
+-- editor, set the organisation and dates, and save the single value it returns as JSON.
+-- Only the worker's default hours are exported; weekly schedules and date overrides are not.
+SELECT json_build_object('shifts', COALESCE(json_agg(shift ORDER BY shift->>'clock_in'), '[]'::json))
+FROM (
+  SELECT json_build_object(
+    'clock_entry_id', ce.id,
+    'label', w.name || ' ' || to_char(ce.clock_in AT TIME ZONE 'Europe/London', 'YYYY-MM-DD'),
+    'clock_in', ce.clock_in,
+    'clock_out', ce.clock_out,
+    'auto_clockout_type', CASE WHEN ce.auto_clocked_out THEN ce.auto_clockout_type END,
+    'is_overtime', COALESCE(ce.is_overtime, false),
+    'schedule', json_build_object('shift_start', w.shift_start, 'shift_end', w.shift_end, 'shift_days', w.shift_days),
+    'job', json_build_object(
+      'latitude', j.latitude,
+      'longitude', j.longitude,
+      'geofence_radius', j.geofence_radius,
+      'geofence_enabled', j.geofence_enabled,
+      'geofence_zones', j.geofence_zones,
+      'safe_out_buffer_m', j.safe_out_buffer_m,
+      'shift_start', j.shift_start,
+      'shift_end', j.shift_end,
+      'shift_days', j.shift_days
+    ),
+    'qr_scans', (
+      SELECT COALESCE(json_agg(q.scanned_at ORDER BY q.scanned_at), '[]'::json)
+      FROM public.qr_scans q
+      WHERE q.clock_entry_id = ce.id
+    ),
+    'fixes', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'latitude', e.latitude,
+        'longitude', e.longitude,
+        'accuracy', e.accuracy,
+        'timestamp', e.timestamp
+      ) ORDER BY e.timestamp), '[]'::json)
+      FROM public.geofence_events e
+      WHERE e.clock_entry_id = ce.id AND e.event_type = 'location_fix'
+    )
+  ) AS shift
+  FROM public.clock_entries ce
+  JOIN public.workers w ON w.id = ce.worker_id
+  JOIN public.jobs j ON j.id = ce.job_id
+  WHERE w.organization_id = '00000000-0000-0000-0000-000000000000' -- The organisation
+    AND ce.clock_in >= now() - interval '30 days'
+    AND EXISTS (
+      SELECT 1 FROM public.geofence_events e
+      WHERE e.clock_entry_id = ce.id AND e.event_type = 'location_fix'
+    )
+) shifts;
@@ -0,0 +1,121 @@
+// Geofence replay: how would past shifts have been auto clocked-out under a different
+// policy? Replays stored location fixes (exported with export.sql, or hand-written - see
+// fixtures/) through track-location's exit / grace / re-entry logic under the current and
+// a candidate policy, and reports each shift's exit and hours under both. Runs entirely
+// offline against the JSON file.
+//
+//   deno run --allow-read supabase/scripts/geofence-replay/index.ts <shifts.json>
+//     [--policy candidate.json]  Policy to try - organization_policies columns; unset ones inherit
+//     [--baseline current.json] What it's compared against (default: the built-in defaults)
+//     [--json]                   Print the results as JSON instead of a table
+//
+// e.g. with the sample fixtures:
+//   deno run --allow-read supabase/scripts/geofence-replay/index.ts \
+//     supabase/scripts/geofence-replay/fixtures/sample-shifts.json \
+//     --policy supabase/scripts/geofence-replay/fixtures/candidate-policy.json
+//
+// Hours are clock-in to clock-out; unpaid breaks are not deducted.
+
+import { DEFAULT_POLICY, type Policy, type PolicyOverrides, validatePolicy } from "../../functions/_shared/policy.ts";
+import { replayShift, type ReplayResult, type ReplayShift } from "./replay.ts";
+
+interface ShiftComparison {
+  clock_entry_id: string;
+  label: string | null;
+  recorded_hours: number | null;
+  baseline: ReplayResult;
+  candidate: ReplayResult;
+  hours_difference: number | null; // Candidate minus baseline
+}
+
+async function readPolicy(path: string | undefined, base: Policy): Promise<Policy> {
+  if (!path) return base;
+  const overrides: PolicyOverrides = JSON.parse(await Deno.readTextFile(path));
+  const { values, errors } = validatePolicy(overrides);
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy in ${path}:\n  ${errors.join("\n  ")}`);
+  }
+  // The candidate only changes what it sets
+  return { ...base, ...values };
+}
+
+function formatTime(iso: string | null): string {
+  return iso ? iso.slice(0, 16).replace("T", " ") : "-";
+}
+
+function formatHours(hours: number | null): string {
+  return hours === null ? "-" : hours.toFixed(2);
+}
+
+function printTable(comparisons: ShiftComparison[], baseline: Policy, candidate: Policy) {
+  const describe = (policy: Policy) =>
+    `grace ${policy.exit_grace_minutes} min, window ${policy.geofence_window_minutes} min, ` +
+    `accuracy ${policy.accuracy_pass_m} m, safe-out x${policy.safe_out_factor}, OT cap ${policy.max_ot_hours} h`;
+  console.log(`Baseline:  ${describe(baseline)}`);
+  console.log(`Candidate: ${describe(candidate)}\n`);
+
+  const rows = comparisons.map((c) => [
+    c.label ?? c.clock_entry_id,
+    formatHours(c.recorded_hours),
+    formatTime(c.baseline.exit_at),
+    formatHours(c.baseline.hours),
+    formatTime(c.candidate.exit_at),
+    formatHours(c.candidate.hours),
+    c.hours_difference === null ? "-" : `${c.hours_difference > 0 ? "+" : ""}${c.hours_difference.toFixed(2)}`,
+  ]);
+  const header = ["Shift", "Recorded h", "Baseline exit (UTC)", "Baseline h", "Candidate exit (UTC)", "Candidate h", "Difference"];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  for (const row of [header, ...rows]) {
+    console.log(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+  }
+
+  const changed = comparisons.filter((c) => c.baseline.exit_at !== c.candidate.exit_at);
+  const total = comparisons.reduce((sum, c) => sum + (c.hours_difference ?? 0), 0);
+  console.log(`\n${comparisons.length} shifts, ${changed.length} with a different auto clock-out, ${total >= 0 ? "+" : ""}${total.toFixed(2)} hours overall`);
+}
+
+async function main(args: string[]) {
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const file = args.find((arg, i) => !arg.startsWith("--") && !["--policy", "--baseline"].includes(args[i - 1]));
+  if (!file) {
+    console.error("Usage: index.ts <shifts.json> [--policy candidate.json] [--baseline current.json] [--json]");
+    Deno.exit(1);
+  }
+
+  const baseline = await readPolicy(option("--baseline"), DEFAULT_POLICY);
+  const candidate = await readPolicy(option("--policy"), baseline);
+  const { shifts }: { shifts: ReplayShift[] } = JSON.parse(await Deno.readTextFile(file));
+
+  const comparisons: ShiftComparison[] = shifts.map((shift) => {
+    const before = replayShift(shift, baseline);
+    const after = replayShift(shift, candidate);
+    const recordedHours = shift.clock_out
+      ? Math.round(((new Date(shift.clock_out).getTime() - new Date(shift.clock_in).getTime()) / 3.6e6) * 100) / 100
+      : null;
+    return {
+      clock_entry_id: shift.clock_entry_id,
+      label: shift.label ?? null,
+      recorded_hours: recordedHours,
+      baseline: before,
+      candidate: after,
+      hours_difference:
+        before.hours !== null && after.hours !== null ? Math.round((after.hours - before.hours) * 100) / 100 : null,
+    };
+  });
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify({ baseline, candidate, shifts: comparisons }, null, 2));
+  } else {
+    printTable(comparisons, baseline, candidate);
+  }
+}
+
+if (import.meta.main) {
+  main(Deno.args).catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  });
+}
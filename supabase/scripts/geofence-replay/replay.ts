@@ -0,0 +1,121 @@
+import { type GeofenceJob, isGeofenceDisabled, measureGeofence } from "../../functions/_shared/geofence.ts";
+import { filterFix, FIX_HISTORY_SIZE, type HistoryFix } from "../../functions/_shared/fixFilter.ts";
+import { decideFix, getFixWindow } from "../../functions/_shared/geofenceDecision.ts";
+import { getExitGraceMs, type Policy } from "../../functions/_shared/policy.ts";
+import { getCurrentShiftInstance, getEffectiveSchedule, type JobShift, type WorkerSchedule } from "../../functions/_shared/shiftTime.ts";
+import { QR_PRESENCE_MINUTES } from "../../functions/_shared/siteQr.ts";
+
+// Replays one shift's stored location fixes through the same smoothing, window and
+// exit/grace/re-entry decisions as track-location, with check-grace-expiry's clock-out at
+// the exit once grace runs out - under whatever policy it is given.
+
+export interface ReplayShift {
+  clock_entry_id: string;
+  label?: string;
+  clock_in: string;
+  clock_out: string | null;
+  auto_clockout_type?: "geofence" | "time_based" | null; // Null when the worker clocked out themselves
+  is_overtime?: boolean;
+  schedule?: WorkerSchedule | null; // The worker's hours; the job's win when it has its own
+  job: GeofenceJob & JobShift;
+  qr_scans?: string[];
+  fixes: { latitude: number; longitude: number; accuracy: number; timestamp: string }[];
+}
+
+export interface ReplayResult {
+  exit_at: string | null; // The exit that would have clocked the worker out
+  exits: number; // Exits detected, including ones the worker came back from in time
+  re_entries: number;
+  clock_out: string | null; // What the entry would have closed at
+  clock_out_basis: "geofence" | "recorded" | "shift_end" | "ot_limit" | "open";
+  hours: number | null;
+}
+
+const hoursBetween = (from: Date, to: Date) => Math.round(((to.getTime() - from.getTime()) / 3.6e6) * 100) / 100;
+
+export function replayShift(shift: ReplayShift, policy: Policy): ReplayResult {
+  const clockIn = new Date(shift.clock_in);
+  const recordedOut = shift.clock_out ? new Date(shift.clock_out) : null;
+  const isOvertime = shift.is_overtime === true;
+  const schedule = getEffectiveSchedule(shift.schedule, shift.job);
+  const graceMs = getExitGraceMs(policy);
+  const presenceMs = QR_PRESENCE_MINUTES * 60 * 1000;
+  const scanTimes = (shift.qr_scans ?? []).map((scan) => new Date(scan).getTime());
+
+  // A clock-out the worker made themselves is the last moment they could have been caught;
+  // after an auto clock-out the app stopped sending fixes, so there's no sign they came back
+  const observedUntil = recordedOut && !shift.auto_clockout_type ? recordedOut.getTime() : Infinity;
+
+  const fixes = shift.fixes
+    .map((fix) => ({ ...fix, time: new Date(fix.timestamp).getTime() }))
+    .filter((fix) => fix.time >= clockIn.getTime() && fix.time <= observedUntil)
+    .sort((a, b) => a.time - b.time);
+
+  let state: "inside" | "grace" = "inside";
+  let exitAt: number | null = null;
+  let exits = 0;
+  let reEntries = 0;
+  let firedAt: number | null = null;
+  const history: HistoryFix[] = [];
+
+  if (!isGeofenceDisabled(shift.job)) {
+    for (const fix of fixes) {
+      // check-grace-expiry got there before this fix
+      if (state === "grace" && exitAt !== null && fix.time >= exitAt + graceMs) break;
+
+      const checked = { latitude: fix.latitude, longitude: fix.longitude, accuracy: fix.accuracy, time: fix.time };
+      const result = filterFix(history.slice(-FIX_HISTORY_SIZE), checked, fix.time);
+      history.push({ ...checked, flags: result.flags });
+      if (result.rejected) continue;
+      if (getFixWindow(schedule, isOvertime, new Date(fix.time), policy).status) continue;
+
+      const { smoothed } = result;
+      const measurement = measureGeofence(shift.job, smoothed.latitude, smoothed.longitude, policy);
+      const status = decideFix(
+        state,
+        {
+          inside: measurement.inside,
+          distance: measurement.distance,
+          radius: measurement.radius,
+          threshold: measurement.threshold,
+          accuracy: smoothed.accuracy,
+          qrPresent: scanTimes.some((scanned) => scanned <= fix.time && fix.time - scanned <= presenceMs),
+        },
+        policy,
+      );
+
+      if (status === "exit_detected") {
+        state = "grace";
+        exitAt = fix.time;
+        exits++;
+      } else if (status === "re_entered") {
+        state = "inside";
+        exitAt = null;
+        reEntries++;
+      }
+    }
+
+    if (state === "grace" && exitAt !== null && exitAt + graceMs <= observedUntil) firedAt = exitAt;
+  }
+
+  // Overtime is capped whichever way it ends
+  const otLimit = isOvertime ? new Date(clockIn.getTime() + policy.max_ot_hours * 3.6e6) : null;
+  const capped = (clockOut: Date, basis: ReplayResult["clock_out_basis"]): Pick<ReplayResult, "clock_out" | "clock_out_basis" | "hours"> =>
+    otLimit && clockOut > otLimit
+      ? { clock_out: otLimit.toISOString(), clock_out_basis: "ot_limit", hours: hoursBetween(clockIn, otLimit) }
+      : { clock_out: clockOut.toISOString(), clock_out_basis: basis, hours: hoursBetween(clockIn, clockOut) };
+
+  const outcome = { exit_at: firedAt !== null ? new Date(firedAt).toISOString() : null, exits, re_entries: reEntries };
+  if (firedAt !== null) return { ...outcome, ...capped(new Date(firedAt), "geofence") };
+
+  // Recorded as a geofence clock-out this policy wouldn't have made - it would have run
+  // on to the time-based clock-out at shift end (or the OT cap)
+  if (recordedOut && shift.auto_clockout_type === "geofence") {
+    const shiftEnd = getCurrentShiftInstance(schedule, recordedOut)?.end;
+    if (otLimit) return { ...outcome, ...capped(otLimit, "ot_limit") };
+    if (shiftEnd && shiftEnd > recordedOut) return { ...outcome, ...capped(shiftEnd, "shift_end") };
+  }
+
+  if (recordedOut) return { ...outcome, ...capped(recordedOut, "recorded") };
+  return { ...outcome, clock_out: null, clock_out_basis: "open", hours: null };
+}